@@ -0,0 +1,85 @@
+/**
+ * MediBot service worker.
+ * Shows reminders pushed by the send-reminders function while the app is
+ * closed, and records the Taken/Snooze notification actions without opening
+ * the app.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || 'Medication Reminder';
+  const options = {
+    body: data.body || 'It is time to take your medication.',
+    icon: '/pill-icon.png',
+    badge: '/pill-badge.png',
+    tag: data.tag,
+    requireInteraction: true,
+    vibrate: [200, 100, 200],
+    data: {
+      actionUrl: data.actionUrl,
+      apiKey: data.apiKey,
+      actionToken: data.actionToken,
+    },
+    actions: data.actionToken
+      ? [
+        { action: 'taken', title: 'Taken' },
+        { action: 'snooze', title: 'Snooze 10 min' },
+      ]
+      : [],
+  };
+
+  event.waitUntil(self.registration.showNotification(title, options));
+});
+
+async function recordAction(action, data) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (data.apiKey) {
+    headers.apikey = data.apiKey;
+    headers.Authorization = `Bearer ${data.apiKey}`;
+  }
+
+  const response = await fetch(data.actionUrl, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ mode: 'push-action', token: data.actionToken, action }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Action failed with status ${response.status}`);
+  }
+}
+
+async function focusApp() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) {
+    return windows[0].focus();
+  }
+  return self.clients.openWindow('/');
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data || {};
+  event.notification.close();
+
+  if ((event.action === 'taken' || event.action === 'snooze') && data.actionUrl && data.actionToken) {
+    // Fall back to opening the app so the dose can still be answered there
+    event.waitUntil(recordAction(event.action, data).catch(focusApp));
+    return;
+  }
+
+  event.waitUntil(focusApp());
+});
@@ -0,0 +1,111 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createClient } from '@supabase/supabase-js';
+
+// Usage: npm run import:formulary [-- path/to/formulary.json|.csv]
+// CSV files use the JSON field names as headers; list fields are separated by "|".
+
+const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error(
+    'Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables. ' +
+    'Retrieve them from your Supabase dashboard and try again.'
+  );
+  process.exit(1);
+}
+
+const LIST_FIELDS = ['brand_names', 'strengths', 'forms', 'classes'];
+const BATCH_SIZE = 200;
+
+const parseCsvLine = (line) => {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+};
+
+const parseCsv = (text) => {
+  const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const columns = parseCsvLine(header);
+
+  return lines.map((line) => {
+    const cells = parseCsvLine(line);
+    const entry = Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+    for (const field of LIST_FIELDS) {
+      entry[field] = (entry[field] ?? '').split('|').map((value) => value.trim()).filter(Boolean);
+    }
+    return entry;
+  });
+};
+
+const toRow = (entry) => ({
+  drug_name: entry.generic_name.trim(),
+  brand_names: entry.brand_names ?? [],
+  strengths: entry.strengths ?? [],
+  forms: entry.forms ?? [],
+  classes: (entry.classes ?? []).map((name) => name.toLowerCase()),
+  common_dosage: entry.common_dosage || (entry.strengths ?? []).join(', '),
+  side_effects: entry.side_effects ?? '',
+  description: entry.description ?? '',
+});
+
+const path = process.argv[2] ?? fileURLToPath(new URL('./data/formulary.json', import.meta.url));
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+try {
+  const text = await readFile(path, 'utf8');
+  const entries = extname(path).toLowerCase() === '.csv' ? parseCsv(text) : JSON.parse(text);
+  const rows = entries.filter((entry) => entry.generic_name?.trim()).map(toRow);
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('medication_info')
+      .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: 'drug_name' });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  // Classes also feed the allergy and condition checks
+  const classRows = rows.flatMap((row) =>
+    row.classes.map((className) => ({ drug_name: row.drug_name.toLowerCase(), class_name: className }))
+  );
+  const { error: classError } = await supabase
+    .from('drug_classes')
+    .upsert(classRows, { onConflict: 'drug_name,class_name', ignoreDuplicates: true });
+
+  if (classError) {
+    throw classError;
+  }
+
+  console.log(`Imported ${rows.length} formulary entries from ${path}.`);
+  process.exit(0);
+} catch (error) {
+  console.error('Failed to import the formulary:', error);
+  process.exit(1);
+}
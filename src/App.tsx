@@ -6,23 +6,27 @@ import {
   Pill,
   Bot,
   Settings,
+  BarChart3,
 } from 'lucide-react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import Auth from './components/Auth';
 import Dashboard from './components/Dashboard';
 import Profile from './components/Profile';
 import ChatbotWidget from './components/ChatbotWidget';
-import ReminderModal from './components/ReminderModal';
+import ReminderModal, { OverdueRemindersModal } from './components/ReminderModal';
 import AiHealthTips from './components/AiHealthTips';
+import AdherenceAnalytics from './components/AdherenceAnalytics';
 import {
   startReminderService,
   stopReminderService,
   requestNotificationPermission,
   setReminderCallback,
+  setOverdueCallback,
   MedicationWithSchedule,
 } from './lib/reminderService';
+import { registerServiceWorker } from './lib/pushNotifications';
 
-type NavKey = 'dashboard' | 'profile' | 'tips';
+type NavKey = 'dashboard' | 'analytics' | 'profile' | 'tips';
 
 interface NavItem {
   key: NavKey;
@@ -36,6 +40,7 @@ function AppContent() {
   const [currentPage, setCurrentPage] = useState<NavKey>('dashboard');
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [activeReminder, setActiveReminder] = useState<MedicationWithSchedule | null>(null);
+  const [overdueReminders, setOverdueReminders] = useState<MedicationWithSchedule[]>([]);
 
   // Start reminder service when user logs in
   useEffect(() => {
@@ -45,7 +50,17 @@ function AppContent() {
         setActiveReminder(medication);
       });
 
+      // Collect doses that came due while the app was closed into one batch
+      setOverdueCallback((reminders: MedicationWithSchedule[]) => {
+        setOverdueReminders((prev) => {
+          const seen = new Set(prev.map((r) => `${r.id}:${r.scheduled_time}`));
+          const added = reminders.filter((r) => !seen.has(`${r.id}:${r.scheduled_time}`));
+          return added.length > 0 ? [...prev, ...added] : prev;
+        });
+      });
+
       startReminderService(user.id);
+      void registerServiceWorker();
 
       // Request notification permission (best effort)
       requestNotificationPermission()
@@ -59,12 +74,14 @@ function AppContent() {
       // Stop reminder service when user logs out
       stopReminderService();
       setActiveReminder(null);
+      setOverdueReminders([]);
     }
 
     return () => {
       // Cleanup on component unmount
       stopReminderService();
       setActiveReminder(null);
+      setOverdueReminders([]);
     };
   }, [user, loading]);
 
@@ -88,6 +105,12 @@ function AppContent() {
       description: "Today's plan & insights",
       icon: <LayoutDashboard className="h-5 w-5" aria-hidden />,
     },
+    {
+      key: 'analytics',
+      label: 'Analytics',
+      description: 'Adherence rates & streaks',
+      icon: <BarChart3 className="h-5 w-5" aria-hidden />,
+    },
     {
       key: 'profile',
       label: 'Profile & Alerts',
@@ -202,7 +225,11 @@ function AppContent() {
                 Welcome back
               </p>
               <h1 className="mt-2 text-2xl font-bold text-brand-navy sm:text-3xl">
-                {currentPage === 'dashboard' ? 'Daily Health Command Center' : 'Profile & Preferences'}
+                {currentPage === 'dashboard'
+                  ? 'Daily Health Command Center'
+                  : currentPage === 'analytics'
+                    ? 'Adherence Analytics'
+                    : 'Profile & Preferences'}
               </h1>
             </div>
             <div className="flex items-center gap-4">
@@ -231,6 +258,8 @@ function AppContent() {
         <div className="flex-1 overflow-y-auto px-6 py-8 sm:px-10">
           {currentPage === 'dashboard' ? (
             <Dashboard onNavigateToProfile={() => setCurrentPage('profile')} />
+          ) : currentPage === 'analytics' ? (
+            <AdherenceAnalytics />
           ) : currentPage === 'profile' ? (
             <Profile onBackToDashboard={() => setCurrentPage('dashboard')} />
           ) : (
@@ -273,6 +302,19 @@ function AppContent() {
       {/* Floating Chatbot Widget */}
       <ChatbotWidget />
 
+      {/* Overdue Doses Modal */}
+      {overdueReminders.length > 0 && !activeReminder && (
+        <OverdueRemindersModal
+          reminders={overdueReminders}
+          onClose={() => setOverdueReminders([])}
+          onResolved={(reminder) =>
+            setOverdueReminders((prev) =>
+              prev.filter((r) => !(r.id === reminder.id && r.scheduled_time === reminder.scheduled_time))
+            )
+          }
+        />
+      )}
+
       {/* Reminder Modal */}
       {activeReminder && (
         <ReminderModal
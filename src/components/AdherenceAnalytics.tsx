@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, ChevronLeft, ChevronRight, Flame, Trophy, Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { getReminderTimeZone, getTodayDateString } from '../lib/reminderService';
+import {
+  AnalyticsLog,
+  DaySummary,
+  getAdherenceRate,
+  getLogsForDays,
+  getMostMissedSlot,
+  getStreaks,
+  loadAnalyticsLogs,
+  summarizeDays,
+  summarizeTimeSlots,
+} from '../lib/adherenceAnalytics';
+
+interface MedicationName {
+  id: string;
+  medication_name: string;
+  active: boolean;
+}
+
+const PERIODS = [7, 30, 90];
+const HISTORY_DAYS = 90;
+// The heatmap can go back as far as the loaded history reaches
+const MAX_MONTHS_BACK = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${rate}%`;
+}
+
+function getDayColor(day: DaySummary | undefined): string {
+  if (!day) return 'bg-slate-100 text-slate-400';
+  if (day.missed > 0) return day.missed * 2 >= day.taken + day.missed + day.auto ? 'bg-red-400 text-white' : 'bg-red-200 text-red-900';
+  if (day.auto > 0) return 'bg-amber-300 text-amber-900';
+  return 'bg-emerald-400 text-white';
+}
+
+function describeDay(date: string, day: DaySummary | undefined): string {
+  if (!day) return `${date}: no doses recorded`;
+  return `${date}: ${day.taken} taken, ${day.missed} missed, ${day.auto} not answered`;
+}
+
+export default function AdherenceAnalytics() {
+  const { user } = useAuth();
+  const [logs, setLogs] = useState<AnalyticsLog[]>([]);
+  const [medications, setMedications] = useState<MedicationName[]>([]);
+  const [monthsBack, setMonthsBack] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadAnalytics = async () => {
+      setLoading(true);
+      setLoadError(false);
+      try {
+        const [logData, { data: medsData }] = await Promise.all([
+          loadAnalyticsLogs(user.id, new Date(Date.now() - (HISTORY_DAYS + 1) * DAY_MS)),
+          supabase
+            .from('medications')
+            .select('id, medication_name, active')
+            .eq('user_id', user.id)
+            .eq('is_prn', false)
+            .order('medication_name'),
+        ]);
+
+        setLogs(logData);
+        setMedications(medsData ?? []);
+      } catch (error) {
+        console.error('Error loading adherence logs:', error);
+        setLoadError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnalytics();
+  }, [user]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[360px] items-center justify-center">
+        <div className="text-base font-semibold text-slate-500">Crunching your adherence...</div>
+      </div>
+    );
+  }
+
+  // Partial history would show wrong rates and streaks, so show none
+  if (loadError) {
+    return (
+      <div className="flex min-h-[360px] items-center justify-center">
+        <div className="text-base font-semibold text-red-600">Could not load your adherence history. Try again later.</div>
+      </div>
+    );
+  }
+
+  const timeZone = getReminderTimeZone();
+  const periodLogs = getLogsForDays(logs, 30, timeZone);
+  const overall = getAdherenceRate(periodLogs);
+  const streaks = getStreaks(logs, timeZone);
+  const slots = summarizeTimeSlots(periodLogs, timeZone);
+  const mostMissed = getMostMissedSlot(slots);
+
+  // Medications with logs in the window, active ones first
+  const medicationRows = medications
+    .filter((med) => med.active || logs.some((log) => log.medication_id === med.id))
+    .sort((a, b) => Number(b.active) - Number(a.active));
+
+  // Month grid for the heatmap
+  const [todayYear, todayMonth] = getTodayDateString().split('-').map(Number);
+  const monthStart = new Date(Date.UTC(todayYear, todayMonth - 1 - monthsBack, 1));
+  const year = monthStart.getUTCFullYear();
+  const month = monthStart.getUTCMonth();
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leadingBlanks = monthStart.getUTCDay();
+  const daySummaries = new Map(summarizeDays(logs, timeZone).map((day) => [day.date, day]));
+  const monthLabel = monthStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <section className="w-full space-y-8">
+      <div>
+        <div className="section-title">
+          <BarChart3 size={32} className="text-blue-600" />
+          <span>Adherence analytics</span>
+        </div>
+        <p className="section-subtitle mt-1">
+          How consistently you take each medication, computed from your logged doses.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-2xl border border-slate-200/80 bg-slate-50/60 px-5 py-5">
+          <p className="text-sm font-medium text-slate-500">Last 30 days</p>
+          <p className="mt-1 text-3xl font-semibold text-slate-900">{formatRate(overall.rate)}</p>
+          <p className="mt-2 text-sm text-slate-500">{overall.taken} of {overall.total} doses taken</p>
+        </div>
+        <div className="rounded-2xl border border-slate-200/80 bg-slate-50/60 px-5 py-5">
+          <p className="flex items-center gap-2 text-sm font-medium text-slate-500">
+            <Flame size={16} className="text-orange-500" /> Current streak
+          </p>
+          <p className="mt-1 text-3xl font-semibold text-slate-900">{streaks.current} days</p>
+          <p className="mt-2 text-sm text-slate-500">Days in a row with every dose taken</p>
+        </div>
+        <div className="rounded-2xl border border-slate-200/80 bg-slate-50/60 px-5 py-5">
+          <p className="flex items-center gap-2 text-sm font-medium text-slate-500">
+            <Trophy size={16} className="text-amber-500" /> Best streak
+          </p>
+          <p className="mt-1 text-3xl font-semibold text-slate-900">{streaks.best} days</p>
+          <p className="mt-2 text-sm text-slate-500">Over the last {HISTORY_DAYS} days</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-slate-800">By medication</h3>
+        {medicationRows.length === 0 ? (
+          <p className="text-sm text-slate-500">No scheduled medications yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-2xl border border-slate-200">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 text-xs font-semibold uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-3">Medication</th>
+                  {PERIODS.map((days) => (
+                    <th key={days} className="px-4 py-3 text-right">{days} days</th>
+                  ))}
+                  <th className="px-4 py-3 text-right">Current streak</th>
+                  <th className="px-4 py-3 text-right">Best streak</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {medicationRows.map((med) => {
+                  const medLogs = logs.filter((log) => log.medication_id === med.id);
+                  const medStreaks = getStreaks(medLogs, timeZone);
+                  return (
+                    <tr key={med.id}>
+                      <td className="px-4 py-3 font-semibold text-slate-800">
+                        {med.medication_name}
+                        {!med.active && <span className="ml-2 text-xs font-normal text-slate-400">(stopped)</span>}
+                      </td>
+                      {PERIODS.map((days) => {
+                        const rate = getAdherenceRate(getLogsForDays(medLogs, days, timeZone));
+                        return (
+                          <td key={days} className="px-4 py-3 text-right text-slate-700" title={`${rate.taken} of ${rate.total} doses`}>
+                            {formatRate(rate.rate)}
+                          </td>
+                        );
+                      })}
+                      <td className="px-4 py-3 text-right text-slate-700">{medStreaks.current}</td>
+                      <td className="px-4 py-3 text-right text-slate-700">{medStreaks.best}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-slate-800">{monthLabel}</h3>
+            <div className="flex gap-1">
+              <button
+                onClick={() => setMonthsBack(monthsBack + 1)}
+                disabled={monthsBack >= MAX_MONTHS_BACK}
+                className="rounded-full p-2 text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+                aria-label="Previous month"
+              >
+                <ChevronLeft size={18} />
+              </button>
+              <button
+                onClick={() => setMonthsBack(monthsBack - 1)}
+                disabled={monthsBack === 0}
+                className="rounded-full p-2 text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+                aria-label="Next month"
+              >
+                <ChevronRight size={18} />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {WEEKDAY_INITIALS.map((initial, index) => (
+              <div key={index} className="py-1 font-semibold text-slate-400">{initial}</div>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, index) => <div key={`blank-${index}`} />)}
+            {Array.from({ length: daysInMonth }, (_, index) => {
+              const date = `${year}-${String(month + 1).padStart(2, '0')}-${String(index + 1).padStart(2, '0')}`;
+              const day = daySummaries.get(date);
+              return (
+                <div
+                  key={date}
+                  title={describeDay(date, day)}
+                  className={`flex aspect-square items-center justify-center rounded-lg font-semibold ${getDayColor(day)}`}
+                >
+                  {index + 1}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-emerald-400" /> All taken</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-200" /> Some missed</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-400" /> Mostly missed</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-amber-300" /> Not answered (auto)</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-slate-100" /> No doses</span>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-800">
+            <Clock size={20} className="text-blue-600" /> Time of day (30 days)
+          </h3>
+          <div className="space-y-3">
+            {slots.map((slot) => (
+              <div key={slot.slot}>
+                <div className="flex justify-between text-sm">
+                  <span className={`font-medium ${slot.slot === mostMissed?.slot ? 'text-red-600' : 'text-slate-700'}`}>
+                    {slot.label}
+                  </span>
+                  <span className="text-slate-500">
+                    {slot.total > 0 ? `${formatRate(slot.rate)} · ${slot.missed} missed` : 'No doses'}
+                  </span>
+                </div>
+                <div className="mt-1 h-2 overflow-hidden rounded-full bg-slate-100">
+                  <div
+                    className={`h-full rounded-full ${slot.slot === mostMissed?.slot ? 'bg-red-400' : 'bg-emerald-400'}`}
+                    style={{ width: `${slot.rate ?? 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-slate-600">
+            {mostMissed
+              ? `Most doses are missed in the ${mostMissed.slot}. A different reminder time or channel might help.`
+              : 'No missed doses in the last 30 days.'}
+          </p>
+        </div>
+      </div>
+    </section>
+  );
+}
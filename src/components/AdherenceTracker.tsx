@@ -1,12 +1,23 @@
 ﻿import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { CheckCircle, XCircle, BarChart3 } from 'lucide-react';
-
-interface Medication {
+import {
+  getReminderTimeZone,
+  getTodayDateString,
+  recordAdherenceStatus,
+} from '../lib/reminderService';
+import { getPendingAdherenceActions, onAdherenceOutboxChange } from '../lib/adherenceOutbox';
+import { getOccurrencesBetween } from '../lib/recurrence';
+import { getDosageOn, MedicationPhase } from '../lib/phases';
+import { StructuredDosage } from '../lib/dosage';
+import { getLocalDayRange, getZonedDateParts } from '../lib/timezone';
+import { CheckCircle, XCircle, BarChart3, AlarmClock, CloudOff } from 'lucide-react';
+
+interface Medication extends Partial<StructuredDosage> {
   id: string;
   medication_name: string;
   dosage: string;
+  medication_phases?: MedicationPhase[] | null;
 }
 
 interface AdherenceLog {
@@ -15,12 +26,16 @@ interface AdherenceLog {
   scheduled_time: string;
   taken_at: string | null;
   status: string;
+  snoozed_until: string | null;
+  snooze_count: number;
 }
 
 interface TodayReminder {
   medication: Medication;
   time: string;
+  scheduledTime: string;
   log: AdherenceLog | null;
+  pendingSync: boolean;
 }
 
 
@@ -40,6 +55,11 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
   useEffect(() => {
     loadTodayReminders();
     loadAdherenceStats();
+
+    // Re-render when queued offline actions are added or synced
+    return onAdherenceOutboxChange(() => {
+      loadTodayReminders();
+    });
   }, [user, refreshTrigger]);
 
   const loadTodayReminders = async () => {
@@ -47,7 +67,9 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
 
     const { data: medsData } = await supabase
       .from('medications')
-      .select('id, medication_name, dosage')
+      .select(
+        'id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, medication_phases(position, start_date, end_date, dosage)'
+      )
       .eq('user_id', user.id)
       .eq('active', true);
 
@@ -64,30 +86,54 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
 
     if (!schedulesData) return;
 
-    const today = new Date().toISOString().split('T')[0];
-
+    const timeZone = getReminderTimeZone();
+    const todayRange = getLocalDayRange(getTodayDateString(), timeZone);
     const reminders: TodayReminder[] = [];
+    const pendingActions = await getPendingAdherenceActions(user.id);
 
     for (const schedule of schedulesData) {
       const medication = medsData.find((m) => m.id === schedule.medication_id);
       if (!medication) continue;
 
-      const scheduledDateTime = `${today}T${schedule.reminder_time}`;
-
-      const { data: logData } = await supabase
-        .from('adherence_logs')
-        .select('*')
-        .eq('medication_id', schedule.medication_id)
-        .gte('scheduled_time', `${today}T00:00:00`)
-        .lte('scheduled_time', `${today}T23:59:59`)
-        .eq('scheduled_time', scheduledDateTime)
-        .maybeSingle();
-
-      reminders.push({
-        medication,
-        time: schedule.reminder_time,
-        log: logData,
-      });
+      const occurrences = getOccurrencesBetween(
+        schedule,
+        new Date(todayRange.start),
+        new Date(todayRange.end),
+        timeZone
+      );
+
+      for (const occurrence of occurrences) {
+        const scheduledTime = occurrence.scheduledAt.toISOString();
+        const { data: logData } = await supabase
+          .from('adherence_logs')
+          .select('*')
+          .eq('medication_id', schedule.medication_id)
+          .eq('scheduled_time', scheduledTime)
+          .maybeSingle();
+
+        // Show actions that are still queued offline as if they were saved
+        const pending = pendingActions.find(
+          (entry) => entry.medicationId === medication.id && entry.scheduledTime === scheduledTime
+        );
+
+        reminders.push({
+          medication: { ...medication, dosage: getDosageOn(medication, occurrence.date) },
+          time: occurrence.time,
+          scheduledTime,
+          log: pending
+            ? {
+              id: logData?.id ?? pending.id,
+              medication_id: medication.id,
+              scheduled_time: scheduledTime,
+              taken_at: pending.status === 'taken' ? pending.clientRecordedAt : null,
+              status: pending.status,
+              snoozed_until: pending.snoozedUntil ?? null,
+              snooze_count: (logData?.snooze_count ?? 0) + (pending.status === 'snoozed' ? 1 : 0),
+            }
+            : logData,
+          pendingSync: Boolean(pending),
+        });
+      }
     }
 
     reminders.sort((a, b) => a.time.localeCompare(b.time));
@@ -97,22 +143,22 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
   const loadAdherenceStats = async () => {
     if (!user) return;
 
-    const today = new Date().toISOString().split('T')[0];
-    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-      .toISOString()
-      .split('T')[0];
+    const todayRange = getLocalDayRange(getTodayDateString(), getReminderTimeZone());
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
     const { data: todayLogs } = await supabase
       .from('adherence_logs')
       .select('status')
       .eq('user_id', user.id)
-      .gte('scheduled_time', `${today}T00:00:00`)
-      .lte('scheduled_time', `${today}T23:59:59`);
+      .eq('is_prn', false)
+      .gte('scheduled_time', todayRange.start)
+      .lt('scheduled_time', todayRange.end);
 
     const { data: weekLogs } = await supabase
       .from('adherence_logs')
       .select('status')
       .eq('user_id', user.id)
+      .eq('is_prn', false)
       .gte('scheduled_time', weekAgo);
 
     const todayTaken = todayLogs?.filter((log) => log.status === 'taken').length || 0;
@@ -132,26 +178,13 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
   const markAsTaken = async (reminder: TodayReminder) => {
     if (!user) return;
 
-    const today = new Date().toISOString().split('T')[0];
-    const scheduledDateTime = `${today}T${reminder.time}`;
-
-    if (reminder.log) {
-      await supabase
-        .from('adherence_logs')
-        .update({
-          status: 'taken',
-          taken_at: new Date().toISOString(),
-        })
-        .eq('id', reminder.log.id);
-    } else {
-      await supabase.from('adherence_logs').insert({
-        medication_id: reminder.medication.id,
-        user_id: user.id,
-        scheduled_time: scheduledDateTime,
-        taken_at: new Date().toISOString(),
-        status: 'taken',
-      });
-    }
+    await recordAdherenceStatus({
+      userId: user.id,
+      medicationId: reminder.medication.id,
+      reminderTime: reminder.time,
+      scheduledTime: reminder.scheduledTime,
+      status: 'taken',
+    });
 
     loadTodayReminders();
     loadAdherenceStats();
@@ -160,25 +193,13 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
   const markAsMissed = async (reminder: TodayReminder) => {
     if (!user) return;
 
-    const today = new Date().toISOString().split('T')[0];
-    const scheduledDateTime = `${today}T${reminder.time}`;
-
-    if (reminder.log) {
-      await supabase
-        .from('adherence_logs')
-        .update({
-          status: 'missed',
-          taken_at: null,
-        })
-        .eq('id', reminder.log.id);
-    } else {
-      await supabase.from('adherence_logs').insert({
-        medication_id: reminder.medication.id,
-        user_id: user.id,
-        scheduled_time: scheduledDateTime,
-        status: 'missed',
-      });
-    }
+    await recordAdherenceStatus({
+      userId: user.id,
+      medicationId: reminder.medication.id,
+      reminderTime: reminder.time,
+      scheduledTime: reminder.scheduledTime,
+      status: 'missed',
+    });
 
     loadTodayReminders();
     loadAdherenceStats();
@@ -225,10 +246,12 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
         ) : (
           todayReminders.map((reminder, index) => {
             const isPast =
-              reminder.time < new Date().toTimeString().split(' ')[0].slice(0, 5);
+              reminder.time.slice(0, 5) < getZonedDateParts(new Date(), getReminderTimeZone()).time;
             const isTaken = reminder.log?.status === 'taken';
             const isMissed = reminder.log?.status === 'missed';
             const isNotTakenAuto = reminder.log?.status === 'not_taken_auto';
+            const isSnoozed = reminder.log?.status === 'snoozed';
+            const snoozeCount = reminder.log?.snooze_count ?? 0;
 
             return (
               <div
@@ -271,7 +294,28 @@ export default function AdherenceTracker({ refreshTrigger }: AdherenceTrackerPro
                         Not Taken (Auto)
                       </span>
                     )}
-                    {!isTaken && !isMissed && !isNotTakenAuto && isPast && (
+                    {isSnoozed && reminder.log?.snoozed_until && (
+                      <span className="pill-tag bg-amber-100 text-amber-700">
+                        <AlarmClock size={16} />
+                        Snoozed until{' '}
+                        {new Date(reminder.log.snoozed_until).toLocaleTimeString('en-US', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </span>
+                    )}
+                    {reminder.pendingSync && (
+                      <span className="pill-tag bg-slate-100 text-slate-600">
+                        <CloudOff size={16} />
+                        Waiting to sync
+                      </span>
+                    )}
+                    {snoozeCount > 0 && (
+                      <span className="pill-tag bg-slate-100 text-slate-600">
+                        Snoozed {snoozeCount}x
+                      </span>
+                    )}
+                    {!isTaken && !isMissed && !isNotTakenAuto && !isSnoozed && isPast && (
                       <span className="pill-tag bg-amber-100 text-amber-700">
                         Running late
                       </span>
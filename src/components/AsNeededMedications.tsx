@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { getReminderTimeZone } from '../lib/reminderService';
+import { getPrnDoseStatus, loadRecentPrnDoses, logPrnDose, PrnMedication } from '../lib/prnDoses';
+import { getZonedDateParts } from '../lib/timezone';
+import { formatDosage, StructuredDosage } from '../lib/dosage';
+import { AlertCircle, CheckCircle, HandHeart, Loader2, Plus } from 'lucide-react';
+
+interface AsNeededMedication extends PrnMedication, StructuredDosage {
+  dosage: string;
+}
+
+interface AsNeededMedicationsProps {
+  refreshTrigger?: number;
+  onDoseLogged: () => void;
+}
+
+function formatTime(date: Date): string {
+  const timeZone = getReminderTimeZone();
+  const local = getZonedDateParts(date, timeZone);
+  const today = getZonedDateParts(new Date(), timeZone).date;
+  if (local.date === today) return local.time;
+  return `${local.date > today ? 'tomorrow' : 'yesterday'} ${local.time}`;
+}
+
+export default function AsNeededMedications({ refreshTrigger, onDoseLogged }: AsNeededMedicationsProps) {
+  const { user } = useAuth();
+  const [medications, setMedications] = useState<AsNeededMedication[]>([]);
+  const [recentDoses, setRecentDoses] = useState<Map<string, Date[]>>(new Map());
+  const [loggingId, setLoggingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ medicationId: string; type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  const loadMedications = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('medications')
+      .select(
+        'id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, min_interval_minutes, max_doses_per_day'
+      )
+      .eq('user_id', user.id)
+      .eq('active', true)
+      .eq('is_prn', true)
+      .order('medication_name');
+
+    if (error) {
+      console.error('Error loading as-needed medications:', error);
+      return;
+    }
+
+    setMedications(data ?? []);
+    try {
+      setRecentDoses(await loadRecentPrnDoses(user.id, (data ?? []).map((med) => med.id)));
+    } catch (loadError) {
+      console.error(loadError);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    void loadMedications();
+  }, [loadMedications, refreshTrigger]);
+
+  const handleLogDose = async (medication: AsNeededMedication) => {
+    if (!user) return;
+
+    setLoggingId(medication.id);
+    setMessage(null);
+
+    try {
+      const { logged, status } = await logPrnDose(user.id, medication);
+      if (logged) {
+        setMessage({ medicationId: medication.id, type: 'success', text: 'Dose logged.' });
+        onDoseLogged();
+        await loadMedications();
+      } else {
+        setMessage({
+          medicationId: medication.id,
+          type: 'error',
+          text: `${status.reason} Next dose allowed at ${status.nextAllowedAt ? formatTime(status.nextAllowedAt) : 'a later time'}.`,
+        });
+      }
+    } catch (error) {
+      setMessage({
+        medicationId: medication.id,
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Unable to log dose.',
+      });
+    }
+
+    setLoggingId(null);
+  };
+
+  if (medications.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="surface-card px-6 py-6 sm:px-8 sm:py-7">
+      <div className="section-title">
+        <HandHeart size={30} className="text-violet-600" />
+        <span>As needed</span>
+      </div>
+      <p className="section-subtitle mt-1">
+        Log a dose when you take it. MediBot keeps track of the spacing and daily limit.
+      </p>
+
+      <div className="mt-6 grid gap-4 md:grid-cols-2">
+        {medications.map((medication) => {
+          const status = getPrnDoseStatus(medication, recentDoses.get(medication.id) ?? []);
+          const medicationMessage = message?.medicationId === medication.id ? message : null;
+
+          return (
+            <div key={medication.id} className="rounded-2xl border border-slate-200 bg-white px-5 py-5">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-slate-900">{medication.medication_name}</h3>
+                  <p className="text-sm text-slate-600">{formatDosage(medication)}</p>
+                </div>
+                <span className="rounded-full bg-violet-50 px-3 py-1 text-xs font-semibold text-violet-700">
+                  {status.dosesInLast24h}
+                  {medication.max_doses_per_day ? ` of ${medication.max_doses_per_day}` : ''} in 24h
+                </span>
+              </div>
+
+              <p className="mt-3 text-sm text-slate-500">
+                {status.lastDoseAt ? `Last dose at ${formatTime(status.lastDoseAt)}.` : 'No doses in the last 24 hours.'}
+                {!status.allowed && status.nextAllowedAt && ` Next dose allowed at ${formatTime(status.nextAllowedAt)}.`}
+              </p>
+
+              <button
+                onClick={() => handleLogDose(medication)}
+                disabled={loggingId === medication.id}
+                className="action-primary mt-4 w-full justify-center bg-violet-600 hover:bg-violet-700 focus-visible:outline-violet-600 disabled:opacity-50"
+              >
+                {loggingId === medication.id ? <Loader2 size={18} className="animate-spin" /> : <Plus size={18} />}
+                Log a dose now
+              </button>
+
+              {medicationMessage && (
+                <div
+                  className={`mt-3 flex items-start gap-2 rounded-xl border px-3 py-2 text-sm ${medicationMessage.type === 'success'
+                    ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                    : 'border-rose-200 bg-rose-50 text-rose-700'
+                    }`}
+                >
+                  {medicationMessage.type === 'success' ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+                  <span>{medicationMessage.text}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
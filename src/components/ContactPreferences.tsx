@@ -1,15 +1,33 @@
-﻿import { useEffect, useState } from 'react';
+﻿import { useEffect, useMemo, useState } from 'react';
 import type { User } from '@supabase/supabase-js';
-import { CheckCircle, AlertCircle, Send, Zap } from 'lucide-react';
+import { CheckCircle, AlertCircle, Send, Zap, BellRing } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { setReminderTimeZone } from '../lib/reminderService';
+import { ReminderChannel, resetChannelVerification } from '../lib/notificationChannels';
+import { QuietHoursMode, QuietHoursWindow } from '../lib/quietHours';
+import { getBrowserTimeZone, getSupportedTimeZones, resolveTimeZone } from '../lib/timezone';
+import {
+  countPushSubscriptions,
+  disablePushNotifications,
+  enablePushNotifications,
+  getPushSubscription,
+  isPushConfigured,
+  isPushSupported,
+} from '../lib/pushNotifications';
 
 interface UserProfile {
   id: string;
   full_name: string;
-  preferred_channel: 'email' | 'whatsapp' | 'telegram';
+  preferred_channel: 'email' | 'whatsapp' | 'telegram' | 'push';
   whatsapp_number: string | null;
   telegram_chat_id: string | null;
   email: string | null;
+  timezone: string | null;
+  delivery_mode: 'all' | 'first_success';
+  quiet_hours: QuietHoursWindow[];
+  quiet_hours_mode: QuietHoursMode;
+  weekly_report: boolean;
+  monthly_report: boolean;
 }
 
 interface ContactFormState {
@@ -17,6 +35,7 @@ interface ContactFormState {
   email: string;
   whatsappNumber: string;
   telegramChatId: string;
+  timezone: string;
 }
 
 interface StatusMessage {
@@ -28,29 +47,40 @@ interface ContactPreferencesProps {
   user: User;
   profile: UserProfile;
   onProfileUpdate: (profile: UserProfile) => void;
+  onPushDevicesChange: (count: number) => void;
 }
 
 const channelHelpers: Record<UserProfile['preferred_channel'], string> = {
   email: 'Use the inbox you check daily; we send daily summaries and urgent follow-ups.',
   whatsapp: 'Enter the full international number (E.164), e.g. +15551234567.',
   telegram: 'Supply the chat ID that MediBot can message directly.',
+  push: 'Enable on each phone or computer that should ring, even with MediBot closed.',
 };
 
+const timezoneHelper =
+  'Reminders fire at your scheduled times in this timezone, including daylight saving changes.';
+
 export default function ContactPreferences({
   user,
   profile,
   onProfileUpdate,
+  onPushDevicesChange,
 }: ContactPreferencesProps) {
   const [formData, setFormData] = useState<ContactFormState>({
     fullName: profile.full_name ?? '',
     email: profile.email ?? '',
     whatsappNumber: profile.whatsapp_number ?? '',
     telegramChatId: profile.telegram_chat_id ?? '',
+    timezone: resolveTimeZone(profile.timezone ?? getBrowserTimeZone()),
   });
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<StatusMessage | null>(null);
   const [testStatus, setTestStatus] = useState<StatusMessage | null>(null);
   const [sendingTest, setSendingTest] = useState(false);
+  const timeZones = useMemo(() => getSupportedTimeZones(), []);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [updatingPush, setUpdatingPush] = useState(false);
+  const [pushStatus, setPushStatus] = useState<StatusMessage | null>(null);
   const [testMessage, setTestMessage] = useState(
     'This is a test notification from the MediBot reminder system.'
   );
@@ -61,9 +91,41 @@ export default function ContactPreferences({
       email: profile.email ?? '',
       whatsappNumber: profile.whatsapp_number ?? '',
       telegramChatId: profile.telegram_chat_id ?? '',
+      timezone: resolveTimeZone(profile.timezone ?? getBrowserTimeZone()),
     });
   }, [profile]);
 
+  useEffect(() => {
+    getPushSubscription()
+      .then((subscription) => setPushEnabled(Boolean(subscription)))
+      .catch((error) => console.error('Error reading push subscription:', error));
+  }, []);
+
+  const handleTogglePush = async () => {
+    setUpdatingPush(true);
+    setPushStatus(null);
+
+    try {
+      if (pushEnabled) {
+        await disablePushNotifications(user.id);
+        setPushEnabled(false);
+        setPushStatus({ type: 'success', message: 'Push notifications turned off on this device.' });
+      } else {
+        await enablePushNotifications(user.id);
+        setPushEnabled(true);
+        setPushStatus({ type: 'success', message: 'Push notifications enabled on this device.' });
+      }
+      onPushDevicesChange(await countPushSubscriptions(user.id));
+    } catch (error) {
+      setPushStatus({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unable to update push notifications.',
+      });
+    }
+
+    setUpdatingPush(false);
+  };
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     setSaving(true);
@@ -74,6 +136,7 @@ export default function ContactPreferences({
       email: formData.email.trim() || null,
       whatsapp_number: formData.whatsappNumber.trim() || null,
       telegram_chat_id: formData.telegramChatId.trim() || null,
+      timezone: formData.timezone,
       updated_at: new Date().toISOString(),
     };
 
@@ -90,10 +153,21 @@ export default function ContactPreferences({
         message: `Unable to save contact preferences: ${error.message}`,
       });
     } else if (data) {
+      // New contact details have to be verified again before reminders use them
+      const changedChannels = (
+        [
+          ['email', profile.email, data.email],
+          ['whatsapp', profile.whatsapp_number, data.whatsapp_number],
+          ['telegram', profile.telegram_chat_id, data.telegram_chat_id],
+        ] as [ReminderChannel, string | null, string | null][]
+      ).filter(([, before, after]) => before !== after);
+      await Promise.all(changedChannels.map(([channel]) => resetChannelVerification(user.id, channel)));
+
       onProfileUpdate({
         ...profile,
         ...data,
       });
+      setReminderTimeZone(data.timezone ?? formData.timezone);
       setStatus({
         type: 'success',
         message: 'Contact preferences saved successfully.',
@@ -235,6 +309,47 @@ export default function ContactPreferences({
           <p className="mt-2 text-xs text-slate-500">{channelHelpers.telegram}</p>
         </div>
 
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">
+            Timezone
+          </label>
+          <select
+            value={formData.timezone}
+            onChange={(event) =>
+              setFormData((current) => ({
+                ...current,
+                timezone: event.target.value,
+              }))
+            }
+            className="w-full rounded-xl border border-slate-200 px-4 py-3 text-base shadow-sm transition focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-xs text-slate-500">{timezoneHelper}</p>
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">
+            Push notifications on this device
+          </label>
+          <button
+            type="button"
+            onClick={handleTogglePush}
+            disabled={updatingPush || !isPushSupported() || !isPushConfigured()}
+            className="action-secondary w-full justify-center disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <BellRing size={18} />
+            {updatingPush ? 'Updating...' : pushEnabled ? 'Turn off push notifications' : 'Enable push notifications'}
+          </button>
+          <p className="mt-2 text-xs text-slate-500">
+            {isPushSupported() ? channelHelpers.push : 'This browser does not support push notifications.'}
+          </p>
+        </div>
+
         <div className="lg:col-span-2 flex flex-col gap-4 rounded-2xl border border-slate-200 bg-slate-50/70 px-5 py-5 md:flex-row md:items-start md:justify-between">
           <div className="w-full md:max-w-lg">
             <label className="mb-2 block text-sm font-semibold text-slate-700">
@@ -281,6 +396,14 @@ export default function ContactPreferences({
         />
       )}
 
+      {pushStatus && (
+        <StatusBanner
+          tone={pushStatus.type}
+          message={pushStatus.message}
+          className="mt-4"
+        />
+      )}
+
       {testStatus && (
         <StatusBanner
           tone={testStatus.type}
@@ -1,19 +1,29 @@
 import { ReactNode, useEffect, useMemo, useState } from 'react';
-import { AlertCircle, BellRing, ClipboardList, User } from 'lucide-react';
+import { AlertCircle, BellRing, ClipboardList, FileText, Package, User } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { setPageRefreshCallback } from '../lib/reminderService';
+import {
+  getReminderTimeZone,
+  getTodayDateString,
+  setPageRefreshCallback,
+} from '../lib/reminderService';
+import { getOccurrencesBetween } from '../lib/recurrence';
+import { estimateDaysRemaining } from '../lib/inventory';
+import { getBrowserTimeZone, getLocalDayRange } from '../lib/timezone';
 import MedicationManager from './MedicationManager';
 import AdherenceTracker from './AdherenceTracker';
+import AsNeededMedications from './AsNeededMedications';
 import ReminderModal from './ReminderModal';
+import VisitReportExport from './VisitReportExport';
 
 interface UserProfile {
   id: string;
   full_name: string;
-  preferred_channel: 'email' | 'whatsapp' | 'telegram';
+  preferred_channel: 'email' | 'whatsapp' | 'telegram' | 'push';
   whatsapp_number: string | null;
   telegram_chat_id: string | null;
   email: string | null;
+  timezone: string | null;
 }
 
 interface MedicationWithSchedule {
@@ -34,14 +44,17 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
   const [loading, setLoading] = useState(true);
   const [activeReminder, setActiveReminder] = useState<MedicationWithSchedule | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [showVisitReport, setShowVisitReport] = useState(false);
   const [insights, setInsights] = useState<{
     activeMedications: number;
     upcomingReminders: number;
     adherenceToday: number | null;
+    runsOutSoonest: { medicationName: string; daysRemaining: number } | null;
   }>({
     activeMedications: 0,
     upcomingReminders: 0,
     adherenceToday: null,
+    runsOutSoonest: null,
   });
 
   useEffect(() => {
@@ -82,6 +95,7 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
           full_name: user.email?.split('@')[0] || 'User',
           email: user.email,
           preferred_channel: 'email',
+          timezone: getBrowserTimeZone(),
         })
         .select()
         .single();
@@ -100,31 +114,51 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
 
     const { data: meds } = await supabase
       .from('medications')
-      .select('id')
+      .select('id, medication_name, stock_quantity, dose_quantity')
       .eq('user_id', user.id)
       .eq('active', true);
 
     const medicationIds = meds?.map((med) => med.id) || [];
 
     let upcomingReminders = 0;
+    let runsOutSoonest: { medicationName: string; daysRemaining: number } | null = null;
 
     if (medicationIds.length > 0) {
       const { data: schedules } = await supabase
         .from('medication_schedules')
-        .select('id')
+        .select('*')
         .in('medication_id', medicationIds)
         .eq('active', true);
 
-      upcomingReminders = schedules?.length ?? 0;
+      const now = new Date();
+      const dayAhead = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+      upcomingReminders = (schedules ?? []).reduce(
+        (count, schedule) =>
+          count + getOccurrencesBetween(schedule, now, dayAhead, getReminderTimeZone()).length,
+        0
+      );
+
+      for (const med of meds ?? []) {
+        const daysRemaining = estimateDaysRemaining(
+          med,
+          (schedules ?? []).filter((schedule) => schedule.medication_id === med.id),
+          getReminderTimeZone(),
+          now
+        );
+        if (daysRemaining !== null && (!runsOutSoonest || daysRemaining < runsOutSoonest.daysRemaining)) {
+          runsOutSoonest = { medicationName: med.medication_name, daysRemaining };
+        }
+      }
     }
 
-    const today = new Date().toISOString().split('T')[0];
+    const todayRange = getLocalDayRange(getTodayDateString(), getReminderTimeZone());
     const { data: todayLogs } = await supabase
       .from('adherence_logs')
       .select('status')
       .eq('user_id', user.id)
-      .gte('scheduled_time', `${today}T00:00:00`)
-      .lte('scheduled_time', `${today}T23:59:59`);
+      .eq('is_prn', false)
+      .gte('scheduled_time', todayRange.start)
+      .lt('scheduled_time', todayRange.end);
 
     const taken = todayLogs?.filter((log) => log.status === 'taken').length ?? 0;
     const total = todayLogs?.length ?? 0;
@@ -134,6 +168,7 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
       activeMedications: medicationIds.length,
       upcomingReminders,
       adherenceToday,
+      runsOutSoonest,
     });
   };
 
@@ -169,6 +204,7 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
     email: 'Email',
     whatsapp: 'WhatsApp',
     telegram: 'Telegram',
+    push: 'Push notifications',
   };
 
   const preferredChannelMissingDetails =
@@ -208,11 +244,18 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
                 <User size={16} />
                 Update preferences
               </button>
+              <button
+                onClick={() => setShowVisitReport(true)}
+                className="inline-flex items-center justify-center gap-2 rounded-xl border border-white/40 px-4 py-2 text-sm font-semibold text-white transition hover:bg-white/10"
+              >
+                <FileText size={16} />
+                Doctor visit PDF
+              </button>
             </div>
           </div>
         </div>
 
-        <div className="grid gap-6 bg-white px-6 py-6 sm:grid-cols-3 sm:px-10 sm:py-8">
+        <div className="grid gap-6 bg-white px-6 py-6 sm:grid-cols-2 sm:px-10 sm:py-8 lg:grid-cols-4">
           <InsightCard
             icon={<ClipboardList className="h-5 w-5 text-blue-600" />}
             label="Active medications"
@@ -235,6 +278,20 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
             }
             helper="Mark each dose to stay accountable."
           />
+          <InsightCard
+            icon={<Package className="h-5 w-5 text-amber-600" />}
+            label="Runs out soonest"
+            value={
+              insights.runsOutSoonest === null
+                ? '--'
+                : `${insights.runsOutSoonest.daysRemaining} day${insights.runsOutSoonest.daysRemaining === 1 ? '' : 's'}`
+            }
+            helper={
+              insights.runsOutSoonest === null
+                ? 'Add pill counts to your medications to track supply.'
+                : `${insights.runsOutSoonest.medicationName} at the current schedule.`
+            }
+          />
         </div>
       </section>
 
@@ -261,6 +318,11 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
         </div>
       )}
 
+      <AsNeededMedications
+        refreshTrigger={refreshTrigger}
+        onDoseLogged={() => setRefreshTrigger(prev => prev + 1)}
+      />
+
       <div className="grid gap-8 lg:grid-cols-2">
         <MedicationManager />
         <AdherenceTracker 
@@ -269,6 +331,8 @@ export default function Dashboard({ onNavigateToProfile }: DashboardProps) {
       </div>
 
       {/* Reminder Modal */}
+      {showVisitReport && <VisitReportExport onClose={() => setShowVisitReport(false)} />}
+
       {activeReminder && (
         <ReminderModal
           medication={activeReminder}
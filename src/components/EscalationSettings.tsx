@@ -0,0 +1,327 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { CheckCircle, AlertCircle, Siren } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  buildEscalationSteps,
+  DEFAULT_ESCALATION_POLICY,
+  EscalationChannel,
+  EscalationPolicy,
+  EscalationStep,
+} from '../lib/escalation';
+
+interface Medication {
+  id: string;
+  medication_name: string;
+}
+
+interface StatusMessage {
+  type: 'success' | 'error';
+  message: string;
+}
+
+interface EscalationSettingsProps {
+  user: User;
+  primaryChannel: EscalationChannel;
+}
+
+const channelLabels: Record<EscalationChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+  push: 'Push notifications',
+};
+
+const ALL_MEDICATIONS = 'all';
+
+const inputClassName =
+  'w-full rounded-xl border border-slate-200 px-4 py-3 text-base shadow-sm transition focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200';
+
+function describeStep(step: EscalationStep): string {
+  if (step.kind === 'emergency') {
+    return `After ${step.afterMinutes} min: email your emergency contacts`;
+  }
+  if (step.kind === 'secondary') {
+    return `After ${step.afterMinutes} min: switch to ${channelLabels[step.channel ?? 'email']}`;
+  }
+  return `After ${step.afterMinutes} min: remind again by ${channelLabels[step.channel ?? 'email']}`;
+}
+
+/**
+ * Form values for a scope: its saved policy, else (for a medication) the
+ * user's default, else the built-in default
+ */
+function getPolicyForScope(policies: EscalationPolicy[], medicationId: string | null): EscalationPolicy {
+  const base =
+    policies.find((policy) => policy.medication_id === medicationId) ??
+    (medicationId ? policies.find((policy) => policy.medication_id === null) : undefined) ??
+    DEFAULT_ESCALATION_POLICY;
+  return { ...base, medication_id: medicationId };
+}
+
+export default function EscalationSettings({ user, primaryChannel }: EscalationSettingsProps) {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [scope, setScope] = useState(ALL_MEDICATIONS);
+  const [formData, setFormData] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const medicationId = scope === ALL_MEDICATIONS ? null : scope;
+  const savedPolicy = policies.find((policy) => policy.medication_id === medicationId);
+
+  const loadData = useCallback(async (selectedMedicationId: string | null) => {
+    const [policiesResult, medicationsResult] = await Promise.all([
+      supabase.from('escalation_policies').select('*').eq('user_id', user.id),
+      supabase
+        .from('medications')
+        .select('id, medication_name')
+        .eq('user_id', user.id)
+        .eq('active', true)
+        .order('medication_name'),
+    ]);
+
+    if (policiesResult.error) {
+      console.error('Error loading escalation policies:', policiesResult.error);
+    } else {
+      setPolicies(policiesResult.data ?? []);
+      setFormData(getPolicyForScope(policiesResult.data ?? [], selectedMedicationId));
+    }
+
+    if (medicationsResult.error) {
+      console.error('Error loading medications:', medicationsResult.error);
+    } else {
+      setMedications(medicationsResult.data ?? []);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    loadData(null);
+  }, [loadData]);
+
+  const handleScopeChange = (nextScope: string) => {
+    setScope(nextScope);
+    setFormData(getPolicyForScope(policies, nextScope === ALL_MEDICATIONS ? null : nextScope));
+    setStatus(null);
+  };
+
+  const updateField = <K extends keyof EscalationPolicy>(field: K, value: EscalationPolicy[K]) => {
+    setFormData((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setStatus(null);
+
+    const values = {
+      user_id: user.id,
+      medication_id: medicationId,
+      enabled: formData.enabled,
+      repeat_after_minutes: Math.max(1, formData.repeat_after_minutes),
+      repeat_count: Math.min(5, Math.max(0, formData.repeat_count)),
+      secondary_channel: formData.secondary_channel,
+      secondary_after_minutes: Math.max(1, formData.secondary_after_minutes),
+      notify_emergency_contacts: formData.notify_emergency_contacts,
+      emergency_after_minutes: Math.max(1, formData.emergency_after_minutes),
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = savedPolicy?.id
+      ? await supabase.from('escalation_policies').update(values).eq('id', savedPolicy.id)
+      : await supabase.from('escalation_policies').insert(values);
+
+    if (error) {
+      console.error('Error saving escalation policy:', error);
+      setStatus({ type: 'error', message: 'Unable to save escalation settings. Please try again.' });
+    } else {
+      setStatus({ type: 'success', message: 'Escalation settings saved.' });
+      await loadData(medicationId);
+    }
+
+    setSaving(false);
+  };
+
+  const handleRemoveOverride = async () => {
+    if (!savedPolicy?.id) return;
+
+    const { error } = await supabase.from('escalation_policies').delete().eq('id', savedPolicy.id);
+
+    if (error) {
+      console.error('Error removing escalation policy:', error);
+      setStatus({ type: 'error', message: 'Unable to remove this override. Please try again.' });
+      return;
+    }
+
+    await loadData(medicationId);
+    setStatus({ type: 'success', message: 'This medication now follows your default escalation.' });
+  };
+
+  const steps = buildEscalationSteps(formData, primaryChannel);
+
+  return (
+    <section className="surface-card px-6 py-6 sm:px-8 sm:py-7">
+      <div className="flex items-center gap-3">
+        <span className="flex h-10 w-10 items-center justify-center rounded-full bg-rose-100 text-rose-600">
+          <Siren size={20} />
+        </span>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 sm:text-xl">Escalation when a reminder is ignored</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            Follow up on unanswered doses until you mark them taken or missed.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-5 lg:grid-cols-2">
+        <div className="lg:col-span-2">
+          <label className="mb-2 block text-sm font-semibold text-slate-700">Applies to</label>
+          <select value={scope} onChange={(event) => handleScopeChange(event.target.value)} className={inputClassName}>
+            <option value={ALL_MEDICATIONS}>All medications (default)</option>
+            {medications.map((medication) => (
+              <option key={medication.id} value={medication.id}>
+                {medication.medication_name}
+                {policies.some((policy) => policy.medication_id === medication.id) ? ' (custom)' : ''}
+              </option>
+            ))}
+          </select>
+          {medicationId && !savedPolicy && (
+            <p className="mt-2 text-xs text-slate-500">
+              Uses your default settings. Save to give this medication its own escalation.
+            </p>
+          )}
+        </div>
+
+        <label className="lg:col-span-2 flex items-center gap-3 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={formData.enabled}
+            onChange={(event) => updateField('enabled', event.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Escalate unanswered reminders
+        </label>
+
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">Remind again every (minutes)</label>
+          <input
+            type="number"
+            min={1}
+            value={formData.repeat_after_minutes}
+            onChange={(event) => updateField('repeat_after_minutes', Number(event.target.value))}
+            disabled={!formData.enabled}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">Number of repeat reminders</label>
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={formData.repeat_count}
+            onChange={(event) => updateField('repeat_count', Number(event.target.value))}
+            disabled={!formData.enabled}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">Then switch to</label>
+          <select
+            value={formData.secondary_channel ?? ''}
+            onChange={(event) =>
+              updateField('secondary_channel', (event.target.value || null) as EscalationChannel | null)
+            }
+            disabled={!formData.enabled}
+            className={inputClassName}
+          >
+            <option value="">Don't switch channel</option>
+            {(Object.keys(channelLabels) as EscalationChannel[])
+              .filter((channel) => channel !== primaryChannel)
+              .map((channel) => (
+                <option key={channel} value={channel}>
+                  {channelLabels[channel]}
+                </option>
+              ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">Switch after (minutes)</label>
+          <input
+            type="number"
+            min={1}
+            value={formData.secondary_after_minutes}
+            onChange={(event) => updateField('secondary_after_minutes', Number(event.target.value))}
+            disabled={!formData.enabled || !formData.secondary_channel}
+            className={inputClassName}
+          />
+        </div>
+
+        <label className="flex items-center gap-3 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            checked={formData.notify_emergency_contacts}
+            onChange={(event) => updateField('notify_emergency_contacts', event.target.checked)}
+            disabled={!formData.enabled}
+            className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Email my emergency contacts
+        </label>
+
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-700">Notify contacts after (minutes)</label>
+          <input
+            type="number"
+            min={1}
+            value={formData.emergency_after_minutes}
+            onChange={(event) => updateField('emergency_after_minutes', Number(event.target.value))}
+            disabled={!formData.enabled || !formData.notify_emergency_contacts}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="lg:col-span-2 rounded-2xl border border-slate-200 bg-slate-50/70 px-5 py-4 text-sm text-slate-600">
+          {steps.length === 0 ? (
+            <p>Only the scheduled reminder is sent.</p>
+          ) : (
+            <ol className="list-decimal space-y-1 pl-5">
+              {steps.map((step) => (
+                <li key={step.key}>{describeStep(step)}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 flex flex-col gap-3 sm:flex-row sm:justify-end">
+          {medicationId && savedPolicy && (
+            <button type="button" onClick={handleRemoveOverride} className="action-secondary sm:w-auto">
+              Use default settings
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="action-primary bg-blue-600 hover:bg-blue-700 focus-visible:outline-blue-600 sm:w-auto"
+          >
+            {saving ? 'Saving...' : 'Save escalation settings'}
+          </button>
+        </div>
+      </div>
+
+      {status && (
+        <div
+          className={`mt-6 flex items-start gap-3 rounded-2xl border px-4 py-4 text-sm ${status.type === 'success'
+            ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+            : 'border-rose-200 bg-rose-50 text-rose-700'
+            }`}
+        >
+          {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+          <span className="font-medium">{status.message}</span>
+        </div>
+      )}
+    </section>
+  );
+}
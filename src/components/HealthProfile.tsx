@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import VisitReportExport from './VisitReportExport';
+import { VisitAppointment } from '../lib/visitReport';
 import { Plus, Trash2, Calendar, FileText, UserPlus, HeartPulse } from 'lucide-react';
 
 export function BasicHealthInfo() {
@@ -94,6 +96,11 @@ export function FamilyMembersManager() {
         loadMembers();
     };
 
+    const toggleReports = async (id: string, receivesReports: boolean) => {
+        const { error } = await supabase.from('family_members').update({ receives_reports: receivesReports }).eq('id', id);
+        if (!error) loadMembers();
+    };
+
     return (
         <section className="surface-card px-6 py-6 sm:px-8 sm:py-7 mt-8">
             <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
@@ -106,7 +113,19 @@ export function FamilyMembersManager() {
                             <p className="font-semibold">{m.name} <span className="text-sm text-slate-500">({m.relationship})</span></p>
                             <p className="text-sm text-slate-600">{m.contact_number} | {m.email}</p>
                         </div>
-                        <button onClick={() => deleteMember(m.id)} className="text-red-500"><Trash2 size={16} /></button>
+                        <div className="flex items-center gap-4">
+                            <label className="flex items-center gap-2 text-sm text-slate-600" title={m.email ? undefined : 'Add an email to send reports'}>
+                                <input
+                                    type="checkbox"
+                                    checked={m.receives_reports ?? false}
+                                    disabled={!m.email}
+                                    onChange={e => toggleReports(m.id, e.target.checked)}
+                                    className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                                />
+                                Send reports
+                            </label>
+                            <button onClick={() => deleteMember(m.id)} className="text-red-500"><Trash2 size={16} /></button>
+                        </div>
                     </div>
                 ))}
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
@@ -125,6 +144,7 @@ export function DoctorAppointmentsManager() {
     const { user } = useAuth();
     const [appts, setAppts] = useState<any[]>([]);
     const [newAppt, setNewAppt] = useState({ doctor_name: '', specialty: '', appointment_date: '', notes: '' });
+    const [visitReportFor, setVisitReportFor] = useState<VisitAppointment | null>(null);
 
     useEffect(() => { if (user) loadAppts(); }, [user]);
 
@@ -149,10 +169,17 @@ export function DoctorAppointmentsManager() {
             </h2>
             <div className="space-y-4 mt-4">
                 {appts.map(a => (
-                    <div key={a.id} className="p-3 bg-slate-50 rounded-lg">
-                        <p className="font-semibold">{a.doctor_name} <span className="text-sm text-slate-500">({a.specialty})</span></p>
-                        <p className="text-sm text-blue-600">{new Date(a.appointment_date).toLocaleString()}</p>
-                        <p className="text-sm text-slate-600 mt-1">{a.notes}</p>
+                    <div key={a.id} className="flex items-start justify-between gap-3 p-3 bg-slate-50 rounded-lg">
+                        <div>
+                            <p className="font-semibold">{a.doctor_name} <span className="text-sm text-slate-500">({a.specialty})</span></p>
+                            <p className="text-sm text-blue-600">{new Date(a.appointment_date).toLocaleString()}</p>
+                            <p className="text-sm text-slate-600 mt-1">{a.notes}</p>
+                        </div>
+                        {new Date(a.appointment_date) >= new Date() && (
+                            <button onClick={() => setVisitReportFor(a)} className="action-secondary flex items-center gap-2 text-sm">
+                                <FileText size={16} /> Visit PDF
+                            </button>
+                        )}
                     </div>
                 ))}
                 <div className="grid grid-cols-1 gap-2">
@@ -163,6 +190,7 @@ export function DoctorAppointmentsManager() {
                     <button onClick={addAppt} className="action-secondary flex justify-center items-center gap-2"><Plus size={16} /> Add Appointment</button>
                 </div>
             </div>
+            {visitReportFor && <VisitReportExport appointment={visitReportFor} onClose={() => setVisitReportFor(null)} />}
         </section>
     );
 }
@@ -0,0 +1,57 @@
+import { AlertTriangle, HelpCircle } from 'lucide-react';
+import { InteractionSeverity, InteractionWarning } from '../lib/interactions';
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  major: 'bg-red-100 text-red-700',
+  moderate: 'bg-amber-100 text-amber-700',
+  minor: 'bg-slate-100 text-slate-600',
+};
+
+interface InteractionWarningsProps {
+  title: string;
+  warnings: InteractionWarning[] | null; // null when the check could not run
+}
+
+export default function InteractionWarnings({ title, warnings }: InteractionWarningsProps) {
+  if (warnings === null) {
+    return (
+      <div className="rounded-2xl border border-amber-200 bg-amber-50/70 px-4 py-4">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-amber-700">
+          <HelpCircle size={18} />
+          Interaction check unavailable
+        </h4>
+        <p className="mt-2 text-xs text-slate-600">
+          The interaction list could not be loaded, so clashes between medications are not shown. Check with your
+          doctor or pharmacist.
+        </p>
+      </div>
+    );
+  }
+
+  if (warnings.length === 0) return null;
+
+  const hasMajor = warnings.some((warning) => warning.severity === 'major');
+
+  return (
+    <div className={`rounded-2xl border px-4 py-4 ${hasMajor ? 'border-red-200 bg-red-50/70' : 'border-amber-200 bg-amber-50/70'}`}>
+      <h4 className={`flex items-center gap-2 text-sm font-semibold ${hasMajor ? 'text-red-700' : 'text-amber-700'}`}>
+        <AlertTriangle size={18} />
+        {title}
+      </h4>
+      <ul className="mt-3 space-y-2">
+        {warnings.map((warning, index) => (
+          <li key={index} className="text-sm text-slate-700">
+            <span className={`mr-2 rounded-full px-2 py-0.5 text-xs font-semibold uppercase ${SEVERITY_STYLES[warning.severity]}`}>
+              {warning.severity}
+            </span>
+            <span className="font-semibold">
+              {warning.medicationName} + {warning.otherMedicationName}
+            </span>
+            <span className="block text-xs text-slate-500 mt-1">{warning.description}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-3 text-xs text-slate-500">Check with your doctor or pharmacist before taking these together.</p>
+    </div>
+  );
+}
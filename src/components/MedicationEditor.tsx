@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { DOSE_FORMS, DOSE_UNITS, DoseForm, DoseUnit, formatDosage, StructuredDosage } from '../lib/dosage';
+import { describeRecurrence } from '../lib/recurrence';
+import { getTodayDateString } from '../lib/reminderService';
+import { EditableSchedule, MedicationDetails, saveMedicationEdit } from '../lib/medicationHistory';
+import { describeContraindication, findContraindications, loadContraindicationData } from '../lib/contraindications';
+
+interface EditableMedication extends MedicationDetails {
+  id: string;
+  current_version: number;
+  is_prn: boolean;
+  is_phased: boolean;
+}
+
+interface MedicationEditorProps {
+  medication: EditableMedication;
+  schedules: EditableSchedule[];
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+export default function MedicationEditor({ medication, schedules, onCancel, onSaved }: MedicationEditorProps) {
+  const { user } = useAuth();
+  const [form, setForm] = useState({
+    medication_name: medication.medication_name,
+    dose_strength: medication.dose_strength?.toString() ?? '',
+    dose_unit: medication.dose_unit ?? ('mg' as DoseUnit),
+    dose_quantity: medication.dose_quantity?.toString() ?? '',
+    dose_form: medication.dose_form ?? ('tablet' as DoseForm),
+    medication_type: medication.medication_type ?? 'Pill',
+    instructions: medication.instructions ?? '',
+    end_date: medication.end_date ?? '',
+    is_critical: medication.is_critical ?? false,
+    min_interval_hours: medication.min_interval_minutes ? String(medication.min_interval_minutes / 60) : '',
+    max_doses_per_day: medication.max_doses_per_day?.toString() ?? '',
+  });
+  const [times, setTimes] = useState<EditableSchedule[]>(
+    schedules.map((schedule) => ({ ...schedule, reminder_time: schedule.reminder_time.slice(0, 5) }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const addTime = () => {
+    // New times repeat like the existing ones
+    const template = times[0] ?? schedules[0];
+    setTimes([
+      ...times,
+      template
+        ? { ...template, id: undefined, reminder_time: '08:00' }
+        : { reminder_time: '08:00', frequency: 'daily', repeat_interval: 1, anchor_date: getTodayDateString() },
+    ]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!medication.is_prn && !medication.is_phased && times.length === 0) {
+      alert('Keep at least one reminder time');
+      return;
+    }
+
+    const strength = Number(form.dose_strength);
+    const quantity = Number(form.dose_quantity);
+    const dosage: StructuredDosage = medication.is_phased
+      ? {
+        dose_strength: medication.dose_strength,
+        dose_unit: medication.dose_unit,
+        dose_quantity: medication.dose_quantity,
+        dose_form: medication.dose_form,
+      }
+      : {
+        dose_strength: strength > 0 ? strength : null,
+        dose_unit: strength > 0 ? form.dose_unit : null,
+        dose_quantity: quantity > 0 ? quantity : null,
+        dose_form: quantity > 0 ? form.dose_form : null,
+      };
+
+    const updated: MedicationDetails = {
+      medication_name: form.medication_name.trim(),
+      ...dosage,
+      // Phased doses come from the phases; the stored text stays while the dose is unchanged
+      dosage: medication.is_phased || formatDosage(dosage) === formatDosage(medication)
+        ? medication.dosage
+        : formatDosage({ ...dosage, dosage: medication.dosage }),
+      medication_type: form.medication_type,
+      instructions: form.instructions,
+      end_date: form.end_date || null,
+      is_critical: !medication.is_prn && form.is_critical,
+      min_interval_minutes: medication.is_prn && Number(form.min_interval_hours) > 0
+        ? Math.round(Number(form.min_interval_hours) * 60)
+        : null,
+      max_doses_per_day: medication.is_prn && Number(form.max_doses_per_day) > 0
+        ? Math.round(Number(form.max_doses_per_day))
+        : null,
+    };
+
+    setSaving(true);
+
+    // A new name may be a different drug, so check it against the health profile again
+    let acknowledgedWarnings: string[] | null | undefined;
+    if (updated.medication_name.toLowerCase() !== medication.medication_name.trim().toLowerCase()) {
+      try {
+        const warnings = findContraindications(updated.medication_name, await loadContraindicationData(user.id));
+        if (
+          warnings.length > 0 &&
+          !confirm(`${updated.medication_name} conflicts with your health profile:\n\n${warnings.map((warning) => `• ${describeContraindication(warning)}`).join('\n')}\n\nI understand the risk and my doctor has prescribed it. Save anyway?`)
+        ) {
+          setSaving(false);
+          return;
+        }
+        acknowledgedWarnings = warnings.length > 0 ? warnings.map(describeContraindication) : null;
+      } catch (error) {
+        console.error('Error loading contraindication data:', error);
+        if (!confirm(`Your allergies and conditions could not be loaded, so ${updated.medication_name} was not checked against them. Save anyway?`)) {
+          setSaving(false);
+          return;
+        }
+      }
+    }
+
+    try {
+      await saveMedicationEdit(
+        medication,
+        updated,
+        schedules,
+        medication.is_phased ? schedules : times,
+        acknowledgedWarnings
+      );
+      onSaved();
+    } catch (error) {
+      console.error('Error updating medication:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update medication');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-1">Name</label>
+          <input
+            type="text"
+            required
+            value={form.medication_name}
+            onChange={(e) => setForm({ ...form, medication_name: e.target.value })}
+            className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-1">Type</label>
+          <select
+            value={form.medication_type}
+            onChange={(e) => setForm({ ...form, medication_type: e.target.value })}
+            className="form-select w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+          >
+            <option>Pill</option>
+            <option>Syrup</option>
+            <option>Injection</option>
+            <option>Inhaler</option>
+            <option>Drops</option>
+            <option>Other</option>
+          </select>
+        </div>
+      </div>
+
+      {medication.is_phased ? (
+        <p className="text-xs text-slate-500">Doses and times of a phased medication follow its phases.</p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1">Strength</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={form.dose_strength}
+                onChange={(e) => setForm({ ...form, dose_strength: e.target.value })}
+                className="form-input w-full min-w-0 rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+              />
+              <select
+                value={form.dose_unit}
+                onChange={(e) => setForm({ ...form, dose_unit: e.target.value as DoseUnit })}
+                className="form-select rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+              >
+                {DOSE_UNITS.map((unit) => <option key={unit}>{unit}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1">Per Intake</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={form.dose_quantity}
+                onChange={(e) => setForm({ ...form, dose_quantity: e.target.value })}
+                className="form-input w-full min-w-0 rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+              />
+              <select
+                value={form.dose_form}
+                onChange={(e) => setForm({ ...form, dose_form: e.target.value as DoseForm })}
+                className="form-select rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+              >
+                {DOSE_FORMS.map((doseForm) => <option key={doseForm}>{doseForm}</option>)}
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-1">Instructions</label>
+          <input
+            type="text"
+            value={form.instructions}
+            onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+            className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-1">End Date</label>
+          <input
+            type="date"
+            value={form.end_date}
+            onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+            className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+          />
+        </div>
+      </div>
+
+      {medication.is_prn ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1">Hours Between Doses</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={form.min_interval_hours}
+              onChange={(e) => setForm({ ...form, min_interval_hours: e.target.value })}
+              className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1">Max Doses per 24h</label>
+            <input
+              type="number"
+              min="0"
+              value={form.max_doses_per_day}
+              onChange={(e) => setForm({ ...form, max_doses_per_day: e.target.value })}
+              className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+            />
+          </div>
+        </div>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.is_critical}
+              onChange={(e) => setForm({ ...form, is_critical: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-300 text-blue-600"
+            />
+            Critical (reminds even during quiet hours)
+          </label>
+
+          {!medication.is_phased && (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-1">Reminder Times</label>
+              <div className="space-y-2">
+                {times.map((time, index) => (
+                  <div key={time.id ?? `new-${index}`} className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      required
+                      value={time.reminder_time}
+                      onChange={(e) => setTimes(times.map((entry, i) => (i === index ? { ...entry, reminder_time: e.target.value } : entry)))}
+                      className="form-input rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+                    />
+                    <span className="text-xs text-slate-500">{describeRecurrence(time)}</span>
+                    <button
+                      type="button"
+                      onClick={() => setTimes(times.filter((_, i) => i !== index))}
+                      className="ml-auto rounded-full p-1 text-slate-400 hover:bg-red-50 hover:text-red-600"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button type="button" onClick={addTime} className="mt-2 flex items-center gap-1 text-sm font-semibold text-blue-600">
+                <Plus size={16} /> Add time
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <button type="submit" disabled={saving} className="action-primary">
+          {saving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+          Save changes
+        </button>
+        <button type="button" onClick={onCancel} className="action-secondary">
+          <X size={18} />
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
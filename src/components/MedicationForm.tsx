@@ -3,31 +3,112 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { getMedicationSuggestions, MedicationSuggestion } from '../lib/gemini';
-import { Search, Plus, Save, X, Loader2, Sparkles } from 'lucide-react';
+import { searchFormulary, toMedicationSuggestion } from '../lib/formulary';
+import { buildRecurrenceRule, RecurrenceFormValue } from '../lib/recurrence';
+import { getTodayDateString } from '../lib/reminderService';
+import { PhaseFormValue, validatePhases } from '../lib/phases';
+import { DOSE_FORMS, DOSE_UNITS, DoseForm, DoseUnit, formatDosage, parseDosage, StructuredDosage } from '../lib/dosage';
+import { describeInteractions, DrugInteraction, findInteractions, loadDrugInteractions, NamedMedication } from '../lib/interactions';
+import RecurrenceEditor from './RecurrenceEditor';
+import PhaseEditor from './PhaseEditor';
+import {
+    ContraindicationData,
+    describeContraindication,
+    findContraindications,
+    loadContraindicationData
+} from '../lib/contraindications';
+import InteractionWarnings from './InteractionWarnings';
+import { Search, Plus, Save, X, Loader2, Sparkles, ShieldAlert, BookOpen } from 'lucide-react';
 
 export default function MedicationForm({ onClose, onSave }: { onClose: () => void; onSave: () => void }) {
     const { user } = useAuth();
     const [formData, setFormData] = useState({
         medication_name: '',
-        dosage: '',
+        dose_strength: '',
+        dose_unit: 'mg' as DoseUnit,
+        dose_quantity: '1',
+        dose_form: 'tablet' as DoseForm,
         medication_type: 'Pill',
         relevant_symptoms: '',
         user_description: '',
         reminder_time: '08:00',
         end_date: '',
-        instructions: ''
+        instructions: '',
+        is_critical: false,
+        is_prn: false,
+        min_interval_hours: '4',
+        max_doses_per_day: '4',
+        is_phased: false,
+        stock_quantity: '',
+        refill_threshold_days: '7'
     });
+    const [recurrence, setRecurrence] = useState<RecurrenceFormValue>({
+        pattern: 'daily',
+        interval: 2,
+        weekdays: [],
+        cycleOnDays: 21,
+        cycleOffDays: 7,
+        anchorDate: getTodayDateString(),
+    });
+    const [phases, setPhases] = useState<PhaseFormValue[]>([
+        { startDate: getTodayDateString(), endDate: '', dosage: '', times: ['08:00'] },
+    ]);
     const [suggestions, setSuggestions] = useState<MedicationSuggestion[]>([]);
+    const [suggestionSource, setSuggestionSource] = useState<'formulary' | 'ai'>('formulary');
     const [loadingSuggestions, setLoadingSuggestions] = useState(false);
     const [saving, setSaving] = useState(false);
+    const [activeMedications, setActiveMedications] = useState<NamedMedication[]>([]);
+    const [interactions, setInteractions] = useState<DrugInteraction[] | null>([]);
+    const [contraindicationData, setContraindicationData] = useState<ContraindicationData | null>(null);
+    const [contraindicationsUnavailable, setContraindicationsUnavailable] = useState(false);
+    const [warningsAcknowledged, setWarningsAcknowledged] = useState(false);
+
+    useEffect(() => {
+        if (!user) return;
+        const loadInteractionData = async () => {
+            const [{ data, error }, interactionData] = await Promise.all([
+                supabase.from('medications').select('id, medication_name').eq('user_id', user.id).eq('active', true),
+                loadDrugInteractions()
+            ]);
+            if (error) console.error('Error loading active medications:', error);
+            setActiveMedications(data ?? []);
+            setInteractions(error ? null : interactionData);
+        };
+        loadInteractionData();
+        loadContraindicationData(user.id)
+            .then(setContraindicationData)
+            .catch(error => {
+                console.error('Error loading contraindication data:', error);
+                setContraindicationsUnavailable(true);
+            });
+    }, [user]);
+
+    // null when the interaction data could not be loaded
+    const interactionWarnings = formData.medication_name.trim().length < 3
+        ? []
+        : interactions && findInteractions(formData.medication_name.trim(), activeMedications, interactions);
+    const contraindicationWarnings = contraindicationData && formData.medication_name.trim().length >= 3
+        ? findContraindications(formData.medication_name.trim(), contraindicationData)
+        : [];
+
+    // A different drug needs its own acknowledgement
+    useEffect(() => {
+        setWarningsAcknowledged(false);
+    }, [formData.medication_name]);
 
-    // Debounce search for AI suggestions
+    // Debounce search: the local formulary first, AI suggestions only when it has no match
     useEffect(() => {
         const timer = setTimeout(async () => {
             if (formData.medication_name.length >= 2) {
                 setLoadingSuggestions(true);
-                const results = await getMedicationSuggestions(formData.medication_name);
-                setSuggestions(results);
+                const matches = await searchFormulary(formData.medication_name);
+                if (matches.length > 0) {
+                    setSuggestions(matches.map(toMedicationSuggestion));
+                    setSuggestionSource('formulary');
+                } else {
+                    setSuggestions(await getMedicationSuggestions(formData.medication_name));
+                    setSuggestionSource('ai');
+                }
                 setLoadingSuggestions(false);
             } else {
                 setSuggestions([]);
@@ -38,10 +119,14 @@ export default function MedicationForm({ onClose, onSave }: { onClose: () => voi
     }, [formData.medication_name]);
 
     const handleSuggestionClick = (s: MedicationSuggestion) => {
+        const parsed = parseDosage(s.dosage);
         setFormData(prev => ({
             ...prev,
             medication_name: s.name,
-            dosage: s.dosage,
+            dose_strength: parsed.dose_strength?.toString() ?? prev.dose_strength,
+            dose_unit: parsed.dose_unit ?? prev.dose_unit,
+            dose_quantity: parsed.dose_quantity?.toString() ?? prev.dose_quantity,
+            dose_form: parsed.dose_form ?? prev.dose_form,
             medication_type: s.type,
             user_description: s.description
         }));
@@ -51,36 +136,109 @@ export default function MedicationForm({ onClose, onSave }: { onClose: () => voi
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!user) return;
+        const isPhased = !formData.is_prn && formData.is_phased;
+        if (!formData.is_prn && !isPhased && recurrence.pattern === 'weekdays' && recurrence.weekdays.length === 0) {
+            alert('Pick at least one weekday for this reminder');
+            return;
+        }
+        const phaseError = isPhased ? validatePhases(phases) : null;
+        if (phaseError) {
+            alert(phaseError);
+            return;
+        }
+        const strength = Number(formData.dose_strength);
+        const quantity = Number(formData.dose_quantity);
+        const dosage: StructuredDosage = isPhased
+            ? parseDosage(phases[0].dosage)
+            : {
+                dose_strength: strength > 0 ? strength : null,
+                dose_unit: strength > 0 ? formData.dose_unit : null,
+                dose_quantity: quantity > 0 ? quantity : null,
+                dose_form: quantity > 0 ? formData.dose_form : null
+            };
+        if (!isPhased && !dosage.dose_strength && !dosage.dose_quantity) {
+            alert('Enter a strength or an amount per intake');
+            return;
+        }
+        if (
+            contraindicationsUnavailable &&
+            !confirm('Your allergies and conditions could not be loaded, so this medication was not checked against them. Add it anyway?')
+        ) {
+            return;
+        }
+        if (contraindicationWarnings.length > 0 && !warningsAcknowledged) {
+            alert('This medication conflicts with your allergies or conditions. Confirm the warning to save it.');
+            return;
+        }
+        if (
+            interactionWarnings === null &&
+            !confirm('The interaction check is unavailable, so clashes with your other medications could not be checked. Add it anyway?')
+        ) {
+            return;
+        }
+        if (
+            interactionWarnings?.some(warning => warning.severity === 'major') &&
+            !confirm(`This medication interacts with what you already take:\n\n${describeInteractions(interactionWarnings)}\n\nAdd it anyway?`)
+        ) {
+            return;
+        }
         setSaving(true);
 
         try {
-            // 1. Create Medication
-            const { data: medData, error: medError } = await supabase
-                .from('medications')
-                .insert({
+            // Saved in one transaction (see add_medication), so a failed
+            // phase or schedule insert leaves no medication behind
+            const { error: saveError } = await supabase.rpc('add_medication', {
+                details: {
                     user_id: user.id,
                     medication_name: formData.medication_name,
-                    dosage: formData.dosage,
+                    dosage: isPhased ? phases[0].dosage : formatDosage(dosage),
+                    ...dosage,
                     medication_type: formData.medication_type,
                     instructions: formData.instructions,
                     relevant_symptoms: formData.relevant_symptoms.split(',').map(s => s.trim()).filter(Boolean),
                     user_description: formData.user_description,
-                    end_date: formData.end_date || null
-                })
-                .select()
-                .single();
-
-            if (medError) throw medError;
+                    end_date: formData.end_date || (isPhased && phases[phases.length - 1].endDate) || null,
+                    is_critical: !formData.is_prn && formData.is_critical,
+                    is_prn: formData.is_prn,
+                    min_interval_minutes: formData.is_prn && Number(formData.min_interval_hours) > 0
+                        ? Math.round(Number(formData.min_interval_hours) * 60)
+                        : null,
+                    max_doses_per_day: formData.is_prn && Number(formData.max_doses_per_day) > 0
+                        ? Math.round(Number(formData.max_doses_per_day))
+                        : null,
+                    stock_quantity: formData.stock_quantity === '' ? null : Math.max(0, Number(formData.stock_quantity)),
+                    stock_updated_at: formData.stock_quantity === '' ? null : new Date().toISOString(),
+                    refill_threshold_days: Math.max(0, Math.round(Number(formData.refill_threshold_days) || 0)),
+                    acknowledged_warnings: contraindicationWarnings.length > 0
+                        ? contraindicationWarnings.map(describeContraindication)
+                        : null,
+                    warnings_acknowledged_at: contraindicationWarnings.length > 0 ? new Date().toISOString() : null
+                },
+                added_phases: isPhased
+                    ? phases.map((phase, position) => ({
+                        position,
+                        start_date: phase.startDate,
+                        end_date: phase.endDate || null,
+                        dosage: phase.dosage.trim()
+                    }))
+                    : [],
+                // Each phase's times fire daily from its start to its end date;
+                // as-needed medications are logged on demand instead
+                added_schedules: isPhased
+                    ? phases.flatMap((phase, position) =>
+                        phase.times.filter(Boolean).map(time => ({
+                            phase_position: position,
+                            reminder_time: time,
+                            ...buildRecurrenceRule({ ...recurrence, pattern: 'daily', anchorDate: phase.startDate }),
+                            until_date: phase.endDate || null
+                        }))
+                    )
+                    : formData.is_prn
+                        ? []
+                        : [{ reminder_time: formData.reminder_time, ...buildRecurrenceRule(recurrence) }]
+            });
 
-            // 2. Create Schedule
-            const { error: schedError } = await supabase
-                .from('medication_schedules')
-                .insert({
-                    medication_id: medData.id,
-                    reminder_time: formData.reminder_time
-                });
-
-            if (schedError) throw schedError;
+            if (saveError) throw saveError;
 
             onSave();
             onClose();
@@ -124,7 +282,9 @@ export default function MedicationForm({ onClose, onSave }: { onClose: () => voi
                         {suggestions.length > 0 && (
                             <div className="absolute z-10 w-full mt-1 bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden">
                                 <div className="px-3 py-2 bg-blue-50 text-xs font-bold text-blue-600 flex items-center gap-1">
-                                    <Sparkles size={12} /> AI Suggestions
+                                    {suggestionSource === 'formulary'
+                                        ? <><BookOpen size={12} /> Formulary</>
+                                        : <><Sparkles size={12} /> AI Suggestions</>}
                                 </div>
                                 {suggestions.map((s, i) => (
                                     <button
@@ -134,52 +294,188 @@ export default function MedicationForm({ onClose, onSave }: { onClose: () => voi
                                         className="w-full text-left px-4 py-3 hover:bg-slate-50 border-b border-slate-50 last:border-0 transition"
                                     >
                                         <p className="font-semibold text-slate-900">{s.name}</p>
-                                        <p className="text-xs text-slate-500">{s.type} • {s.dosage}</p>
+                                        <p className="text-xs text-slate-500">{s.type} • {formatDosage({ ...parseDosage(s.dosage), dosage: s.dosage })}</p>
                                     </button>
                                 ))}
                             </div>
                         )}
                     </div>
 
-                    <div className="grid grid-cols-2 gap-4">
-                        <div>
-                            <label className="block text-sm font-semibold text-slate-700 mb-1">Dosage</label>
-                            <input
-                                type="text"
-                                required
-                                value={formData.dosage}
-                                onChange={e => setFormData({ ...formData, dosage: e.target.value })}
-                                className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
-                                placeholder="e.g. 500mg"
-                            />
+                    {contraindicationWarnings.length > 0 && (
+                        <div className="rounded-2xl border border-red-200 bg-red-50/70 px-4 py-4">
+                            <h4 className="flex items-center gap-2 text-sm font-semibold text-red-700">
+                                <ShieldAlert size={18} />
+                                Conflicts with your health profile
+                            </h4>
+                            <ul className="mt-3 space-y-2">
+                                {contraindicationWarnings.map((warning, i) => (
+                                    <li key={i} className="text-sm text-slate-700">
+                                        <span className="font-semibold">
+                                            {warning.kind === 'allergy' ? 'Allergy' : 'Condition'}: {warning.profileEntry}
+                                        </span>
+                                        <span className="block text-xs text-slate-500 mt-1">{warning.description}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                            <label className="mt-3 flex items-start gap-2 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={warningsAcknowledged}
+                                    onChange={e => setWarningsAcknowledged(e.target.checked)}
+                                    className="mt-0.5 h-4 w-4 rounded border-slate-300 text-red-600 focus:ring-red-500"
+                                />
+                                I understand the risk and my doctor has prescribed this medication.
+                            </label>
                         </div>
-                        <div>
-                            <label className="block text-sm font-semibold text-slate-700 mb-1">Type</label>
-                            <select
-                                value={formData.medication_type}
-                                onChange={e => setFormData({ ...formData, medication_type: e.target.value })}
-                                className="form-select w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
-                            >
-                                <option>Pill</option>
-                                <option>Syrup</option>
-                                <option>Injection</option>
-                                <option>Inhaler</option>
-                                <option>Drops</option>
-                                <option>Other</option>
-                            </select>
+                    )}
+
+                    {contraindicationsUnavailable && (
+                        <p className="flex items-center gap-2 rounded-2xl border border-amber-200 bg-amber-50/70 px-4 py-3 text-sm font-semibold text-amber-700">
+                            <ShieldAlert size={18} />
+                            Allergy and condition check unavailable
+                        </p>
+                    )}
+
+                    <InteractionWarnings title="Possible interactions with your medications" warnings={interactionWarnings} />
+
+                    {(formData.is_prn || !formData.is_phased) && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-1">Strength</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="any"
+                                        value={formData.dose_strength}
+                                        onChange={e => setFormData({ ...formData, dose_strength: e.target.value })}
+                                        className="form-input w-full min-w-0 rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                                        placeholder="e.g. 500"
+                                    />
+                                    <select
+                                        value={formData.dose_unit}
+                                        onChange={e => setFormData({ ...formData, dose_unit: e.target.value as DoseUnit })}
+                                        className="form-select rounded-xl border-slate-200 bg-slate-50 py-3 px-3"
+                                    >
+                                        {DOSE_UNITS.map(unit => <option key={unit}>{unit}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-1">Per Intake</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="any"
+                                        value={formData.dose_quantity}
+                                        onChange={e => setFormData({ ...formData, dose_quantity: e.target.value })}
+                                        className="form-input w-full min-w-0 rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                                    />
+                                    <select
+                                        value={formData.dose_form}
+                                        onChange={e => setFormData({ ...formData, dose_form: e.target.value as DoseForm })}
+                                        className="form-select rounded-xl border-slate-200 bg-slate-50 py-3 px-3"
+                                    >
+                                        {DOSE_FORMS.map(form => <option key={form}>{form}</option>)}
+                                    </select>
+                                </div>
+                            </div>
                         </div>
-                    </div>
+                    )}
 
                     <div>
-                        <label className="block text-sm font-semibold text-slate-700 mb-1">Reminder Time</label>
+                        <label className="block text-sm font-semibold text-slate-700 mb-1">Type</label>
+                        <select
+                            value={formData.medication_type}
+                            onChange={e => setFormData({ ...formData, medication_type: e.target.value })}
+                            className="form-select w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                        >
+                            <option>Pill</option>
+                            <option>Syrup</option>
+                            <option>Injection</option>
+                            <option>Inhaler</option>
+                            <option>Drops</option>
+                            <option>Other</option>
+                        </select>
+                    </div>
+
+                    <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
                         <input
-                            type="time"
-                            required
-                            value={formData.reminder_time}
-                            onChange={e => setFormData({ ...formData, reminder_time: e.target.value })}
-                            className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                            type="checkbox"
+                            checked={formData.is_prn}
+                            onChange={e => setFormData({ ...formData, is_prn: e.target.checked })}
+                            className="mt-1 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
                         />
-                    </div>
+                        <span>
+                            <span className="block text-sm font-semibold text-slate-700">Take as needed</span>
+                            <span className="block text-xs text-slate-500">No reminders; log each dose when you take it.</span>
+                        </span>
+                    </label>
+
+                    {formData.is_prn ? (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-1">Hours Between Doses</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={formData.min_interval_hours}
+                                    onChange={e => setFormData({ ...formData, min_interval_hours: e.target.value })}
+                                    className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                                    placeholder="No minimum"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-1">Max Doses per 24h</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={formData.max_doses_per_day}
+                                    onChange={e => setFormData({ ...formData, max_doses_per_day: e.target.value })}
+                                    className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                                    placeholder="No limit"
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.is_phased}
+                                    onChange={e => setFormData({ ...formData, is_phased: e.target.checked })}
+                                    className="mt-1 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span>
+                                    <span className="block text-sm font-semibold text-slate-700">Dose changes over time</span>
+                                    <span className="block text-xs text-slate-500">For tapers and titrations, e.g. 10mg for a week, then 20mg.</span>
+                                </span>
+                            </label>
+
+                            {formData.is_phased ? (
+                                <PhaseEditor value={phases} onChange={setPhases} />
+                            ) : (
+                                <>
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 mb-1">
+                                            {recurrence.pattern === 'every_n_hours' ? 'First Dose Time' : 'Reminder Time'}
+                                        </label>
+                                        <input
+                                            type="time"
+                                            required
+                                            value={formData.reminder_time}
+                                            onChange={e => setFormData({ ...formData, reminder_time: e.target.value })}
+                                            className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                                        />
+                                    </div>
+
+                                    <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+                                </>
+                            )}
+                        </>
+                    )}
 
                     <div>
                         <label className="block text-sm font-semibold text-slate-700 mb-1">End Date (Optional)</label>
@@ -191,6 +487,32 @@ export default function MedicationForm({ onClose, onSave }: { onClose: () => voi
                         />
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-1">On Hand</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={formData.stock_quantity}
+                                onChange={e => setFormData({ ...formData, stock_quantity: e.target.value })}
+                                className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                                placeholder="Not tracked"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 mb-1">Refill At (days)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={formData.refill_threshold_days}
+                                onChange={e => setFormData({ ...formData, refill_threshold_days: e.target.value })}
+                                disabled={formData.stock_quantity === ''}
+                                className="form-input w-full rounded-xl border-slate-200 bg-slate-50 py-3 px-4"
+                            />
+                        </div>
+                    </div>
+
                     <div>
                         <label className="block text-sm font-semibold text-slate-700 mb-1">Relevant Symptoms</label>
                         <input
@@ -213,6 +535,21 @@ export default function MedicationForm({ onClose, onSave }: { onClose: () => voi
                         />
                     </div>
 
+                    {!formData.is_prn && (
+                        <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
+                            <input
+                                type="checkbox"
+                                checked={formData.is_critical}
+                                onChange={e => setFormData({ ...formData, is_critical: e.target.checked })}
+                                className="mt-1 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>
+                                <span className="block text-sm font-semibold text-slate-700">Critical medication</span>
+                                <span className="block text-xs text-slate-500">Always remind me, even during quiet hours.</span>
+                            </span>
+                        </label>
+                    )}
+
                     <div className="pt-4">
                         <button
                             type="submit"
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatChangeValue, getChangeLabel, loadMedicationHistory, MedicationVersion } from '../lib/medicationHistory';
+
+interface MedicationHistoryProps {
+  medicationId: string;
+  createdAt: string;
+}
+
+interface VersionAdherence {
+  taken: number;
+  total: number;
+}
+
+export default function MedicationHistory({ medicationId, createdAt }: MedicationHistoryProps) {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<MedicationVersion[]>([]);
+  const [adherence, setAdherence] = useState<Record<number, VersionAdherence>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      const [history, { data: logs }] = await Promise.all([
+        loadMedicationHistory(medicationId),
+        supabase
+          .from('adherence_logs')
+          .select('medication_version, status')
+          .eq('medication_id', medicationId)
+          .eq('is_prn', false),
+      ]);
+
+      // Doses logged under each version of the regimen
+      const byVersion: Record<number, VersionAdherence> = {};
+      for (const log of logs ?? []) {
+        const entry = (byVersion[log.medication_version ?? 1] ??= { taken: 0, total: 0 });
+        entry.total += 1;
+        if (log.status === 'taken') entry.taken += 1;
+      }
+
+      setVersions(history);
+      setAdherence(byVersion);
+      setLoading(false);
+    };
+
+    loadHistory();
+  }, [medicationId]);
+
+  const describeAdherence = (version: number) => {
+    const entry = adherence[version];
+    return entry ? `${entry.taken} of ${entry.total} doses taken on this version` : 'No doses logged on this version';
+  };
+
+  if (loading) {
+    return (
+      <div className="mt-4 flex items-center gap-2 text-sm text-slate-500">
+        <Loader2 className="animate-spin" size={16} /> Loading history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50/70 px-4 py-4">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <History size={16} className="text-blue-600" />
+        Change history
+      </h4>
+      <ol className="mt-3 space-y-4">
+        {versions.map((version) => (
+          <li key={version.id} className="text-sm">
+            <p className="font-semibold text-slate-800">
+              Version {version.version}
+              <span className="ml-2 font-normal text-slate-500">
+                {new Date(version.changed_at).toLocaleString()} by{' '}
+                {version.changed_by === user?.id ? 'you' : version.user_profiles?.full_name ?? 'someone else'}
+              </span>
+            </p>
+            <ul className="mt-1 space-y-1 text-slate-600">
+              {version.changes.map((change) => (
+                <li key={change.field}>
+                  <span className="font-medium text-slate-700">{getChangeLabel(change.field)}:</span>{' '}
+                  <span className="text-red-600 line-through">{formatChangeValue(change.old)}</span>{' '}
+                  → <span className="text-emerald-700">{formatChangeValue(change.new)}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-1 text-xs text-slate-500">{describeAdherence(version.version)}</p>
+          </li>
+        ))}
+        <li className="text-sm">
+          <p className="font-semibold text-slate-800">
+            Version 1
+            <span className="ml-2 font-normal text-slate-500">added {new Date(createdAt).toLocaleString()}</span>
+          </p>
+          <p className="mt-1 text-xs text-slate-500">{describeAdherence(1)}</p>
+        </li>
+      </ol>
+    </div>
+  );
+}
@@ -1,10 +1,30 @@
 ﻿import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Plus, Pill, Clock, Trash2, Calendar } from 'lucide-react';
+import { Plus, Pill, Clock, Trash2, Calendar, CheckCircle, Package, RotateCcw, ShieldAlert, ScanLine, Pencil, History } from 'lucide-react';
 import MedicationForm from './MedicationForm';
+import InteractionWarnings from './InteractionWarnings';
+import PrescriptionImport from './PrescriptionImport';
+import MedicationEditor from './MedicationEditor';
+import MedicationHistory from './MedicationHistory';
+import { describeRecurrence, RecurringSchedule } from '../lib/recurrence';
+import { getDosageOn, getPhaseOn, MedicationPhase } from '../lib/phases';
+import { formatDosage, StructuredDosage } from '../lib/dosage';
+import { getReminderTimeZone, getTodayDateString } from '../lib/reminderService';
+import { estimateDaysRemaining, needsRefill } from '../lib/inventory';
+import {
+  checkInteractions,
+  describeInteractions,
+  DrugInteraction,
+  findAllInteractions,
+  loadDrugInteractions,
+} from '../lib/interactions';
 
-interface Medication {
+interface Phase extends MedicationPhase {
+  id: string;
+}
+
+interface Medication extends StructuredDosage {
   id: string;
   medication_name: string;
   dosage: string;
@@ -12,31 +32,67 @@ interface Medication {
   medication_type: string;
   end_date: string;
   active: boolean;
+  is_critical: boolean;
+  is_prn: boolean;
+  min_interval_minutes: number | null;
+  max_doses_per_day: number | null;
+  medication_phases: Phase[] | null;
+  stock_quantity: number | null;
+  refill_threshold_days: number;
+  acknowledged_warnings: string[] | null;
+  warnings_acknowledged_at: string | null;
+  current_version: number;
+  created_at: string;
 }
 
-interface Schedule {
+interface Schedule extends RecurringSchedule {
   id: string;
   medication_id: string;
+  phase_id: string | null;
   reminder_time: string;
   active: boolean;
 }
 
+interface CompletedCourse extends StructuredDosage {
+  id: string;
+  medication_name: string;
+  dosage: string;
+  end_date: string;
+  completed_at: string;
+  taken: number;
+  total: number;
+}
+
+// Dates such as end_date are local calendar days, so format them without a time zone shift
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' });
+}
+
 export default function MedicationManager() {
   const { user } = useAuth();
   const [medications, setMedications] = useState<Medication[]>([]);
   const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [completedCourses, setCompletedCourses] = useState<CompletedCourse[]>([]);
+  const [interactions, setInteractions] = useState<DrugInteraction[] | null>([]);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
 
   useEffect(() => {
     loadMedications();
   }, [user]);
 
+  useEffect(() => {
+    loadDrugInteractions().then(setInteractions);
+  }, []);
+
   const loadMedications = async () => {
     if (!user) return;
 
     const { data: medsData } = await supabase
       .from('medications')
-      .select('*')
+      .select('*, medication_phases(id, position, start_date, end_date, dosage)')
       .eq('user_id', user.id)
       .eq('active', true)
       .order('created_at', { ascending: false });
@@ -57,6 +113,91 @@ export default function MedicationManager() {
         setSchedules([]);
       }
     }
+
+    await loadCompletedCourses();
+  };
+
+  const loadCompletedCourses = async () => {
+    if (!user) return;
+
+    const { data: coursesData } = await supabase
+      .from('medications')
+      .select('id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, end_date, completed_at')
+      .eq('user_id', user.id)
+      .eq('active', false)
+      .not('completed_at', 'is', null)
+      .order('completed_at', { ascending: false });
+
+    if (!coursesData || coursesData.length === 0) {
+      setCompletedCourses([]);
+      return;
+    }
+
+    const { data: logsData } = await supabase
+      .from('adherence_logs')
+      .select('medication_id, status')
+      .in('medication_id', coursesData.map(course => course.id))
+      .eq('is_prn', false);
+
+    setCompletedCourses(
+      coursesData.map(course => {
+        const logs = (logsData ?? []).filter(log => log.medication_id === course.id);
+        return {
+          ...course,
+          taken: logs.filter(log => log.status === 'taken').length,
+          total: logs.length,
+        };
+      })
+    );
+  };
+
+  const updateStock = async (med: Medication) => {
+    const input = prompt(`How many units of ${med.medication_name} do you have now?`, med.stock_quantity?.toString() ?? '');
+    if (input === null) return;
+
+    const quantity = input.trim() === '' ? null : Number(input);
+    if (quantity !== null && (!Number.isFinite(quantity) || quantity < 0)) {
+      alert('Enter a number of units, or leave it empty to stop tracking stock');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('medications')
+      .update({ stock_quantity: quantity, stock_updated_at: new Date().toISOString() })
+      .eq('id', med.id);
+
+    if (error) {
+      console.error('Error updating stock:', error);
+      alert('Failed to update stock');
+      return;
+    }
+
+    loadMedications();
+  };
+
+  const reactivateCourse = async (course: CompletedCourse) => {
+    if (!user) return;
+
+    const warnings = await checkInteractions(user.id, course.medication_name, course.id);
+    const message = warnings === null
+      ? `The interaction check is unavailable, so ${course.medication_name} could not be checked against what you take now. Restart it anyway?`
+      : warnings.length > 0
+        ? `${course.medication_name} interacts with what you take now:\n\n${describeInteractions(warnings)}\n\nRestart it anyway?`
+        : `Restart ${course.medication_name}? Reminders resume on its schedule with no end date.`;
+    if (!confirm(message)) return;
+
+    const { error } = await supabase
+      .from('medications')
+      .update({ active: true, completed_at: null, end_date: null })
+      .eq('id', course.id);
+
+    if (error) {
+      console.error('Error restarting medication:', error);
+      alert('Failed to restart medication');
+      return;
+    }
+
+    loadMedications();
   };
 
   const deleteMedication = async (id: string) => {
@@ -77,14 +218,23 @@ export default function MedicationManager() {
             Track every prescription with dosing details and reminder times.
           </p>
         </div>
-        {!showAddForm && (
-          <button
-            onClick={() => setShowAddForm(true)}
-            className="action-primary"
-          >
-            <Plus size={18} />
-            Add medication
-          </button>
+        {!showAddForm && !showImport && (
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <button
+              onClick={() => setShowImport(true)}
+              className="action-secondary"
+            >
+              <ScanLine size={18} />
+              Import prescription
+            </button>
+            <button
+              onClick={() => setShowAddForm(true)}
+              className="action-primary"
+            >
+              <Plus size={18} />
+              Add medication
+            </button>
+          </div>
         )}
       </div>
 
@@ -98,6 +248,18 @@ export default function MedicationManager() {
         />
       )}
 
+      {showImport && (
+        <PrescriptionImport
+          onClose={() => setShowImport(false)}
+          onSave={loadMedications}
+        />
+      )}
+
+      <InteractionWarnings
+        title="Interactions between your medications"
+        warnings={interactions && findAllInteractions(medications, interactions)}
+      />
+
       <div className="space-y-4 sm:space-y-5">
         {medications.length === 0 ? (
           <div className="rounded-2xl border border-dashed border-slate-300 bg-slate-50/80 px-6 py-12 text-center text-slate-500">
@@ -110,7 +272,33 @@ export default function MedicationManager() {
         ) : (
           <div className="divide-y divide-slate-200 rounded-2xl border border-slate-200 bg-white">
             {medications.map((med) => {
-              const medSchedules = schedules.filter((s) => s.medication_id === med.id);
+              const phases = [...(med.medication_phases ?? [])].sort((a, b) => a.position - b.position);
+              const currentPhase = getPhaseOn(phases, getTodayDateString());
+              // Phased medications list only the dose times of the phase they are in
+              const medSchedules = schedules.filter(
+                (s) => s.medication_id === med.id && (!s.phase_id || s.phase_id === currentPhase?.id)
+              );
+              const daysRemaining = estimateDaysRemaining(
+                med,
+                schedules.filter((s) => s.medication_id === med.id),
+                getReminderTimeZone()
+              );
+
+              if (editingId === med.id) {
+                return (
+                  <div key={med.id} className="px-6 py-6">
+                    <MedicationEditor
+                      medication={{ ...med, is_phased: phases.length > 0 }}
+                      schedules={schedules.filter((s) => s.medication_id === med.id)}
+                      onCancel={() => setEditingId(null)}
+                      onSaved={() => {
+                        setEditingId(null);
+                        loadMedications();
+                      }}
+                    />
+                  </div>
+                );
+              }
 
               return (
                 <div key={med.id} className="flex flex-col gap-4 px-6 py-6 md:flex-row md:items-start md:justify-between">
@@ -120,14 +308,24 @@ export default function MedicationManager() {
                         {med.medication_name}
                       </h3>
                       {med.medication_type && <span className="text-xs font-semibold bg-blue-50 text-blue-600 px-2 py-1 rounded-full">{med.medication_type}</span>}
+                      {med.is_prn && <span className="text-xs font-semibold bg-violet-50 text-violet-600 px-2 py-1 rounded-full">As needed</span>}
                     </div>
-                    {med.end_date && <p className="text-xs text-red-500 flex items-center gap-1 mt-1"><Calendar size={12} /> Ends: {new Date(med.end_date).toLocaleDateString()}</p>}
+                    {med.end_date && <p className="text-xs text-red-500 flex items-center gap-1 mt-1"><Calendar size={12} /> Ends: {formatDay(med.end_date)}</p>}
 
                     <dl className="mt-4 flex flex-wrap gap-6 text-sm text-slate-600">
                       <div>
                         <dt className="font-semibold text-slate-700">Dosage</dt>
-                        <dd className="mt-1 text-base text-slate-800">{med.dosage}</dd>
+                        <dd className="mt-1 text-base text-slate-800">{getDosageOn(med, getTodayDateString())}</dd>
                       </div>
+                      {med.stock_quantity !== null && (
+                        <div>
+                          <dt className="font-semibold text-slate-700">Supply</dt>
+                          <dd className={`mt-1 text-base ${needsRefill(med, daysRemaining) ? 'font-semibold text-amber-600' : 'text-slate-800'}`}>
+                            {med.stock_quantity} left
+                            {daysRemaining !== null && ` · about ${daysRemaining} day${daysRemaining === 1 ? '' : 's'}`}
+                          </dd>
+                        </div>
+                      )}
                       {med.instructions && (
                         <div className="max-w-sm">
                           <dt className="font-semibold text-slate-700">Instructions</dt>
@@ -135,6 +333,41 @@ export default function MedicationManager() {
                         </div>
                       )}
                     </dl>
+                    {phases.length > 0 && (
+                      <ol className="mt-4 space-y-1 text-sm text-slate-600">
+                        {phases.map((phase, index) => (
+                          <li key={phase.id} className={phase.id === currentPhase?.id ? 'font-semibold text-blue-700' : ''}>
+                            Phase {index + 1}: {phase.dosage}, {formatDay(phase.start_date)}
+                            {phase.end_date ? ` to ${formatDay(phase.end_date)}` : ' onwards'}
+                            {phase.id === currentPhase?.id && ' (current)'}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    {med.is_prn && (med.min_interval_minutes || med.max_doses_per_day) && (
+                      <p className="mt-4 text-sm text-violet-700">
+                        {[
+                          med.min_interval_minutes && `At least ${med.min_interval_minutes / 60} h between doses`,
+                          med.max_doses_per_day && `max ${med.max_doses_per_day} per 24h`,
+                        ]
+                          .filter(Boolean)
+                          .join(', ')}
+                      </p>
+                    )}
+                    {med.acknowledged_warnings && med.acknowledged_warnings.length > 0 && (
+                      <div className="mt-4 text-sm text-red-700">
+                        <p className="flex items-center gap-1 font-semibold">
+                          <ShieldAlert size={16} />
+                          Warnings acknowledged
+                          {med.warnings_acknowledged_at && ` on ${new Date(med.warnings_acknowledged_at).toLocaleDateString()}`}
+                        </p>
+                        <ul className="mt-1 list-disc pl-6 text-xs text-red-600">
+                          {med.acknowledged_warnings.map((warning, index) => (
+                            <li key={index}>{warning}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     {medSchedules.length > 0 && (
                       <div className="mt-4 flex flex-wrap items-center gap-2">
                         <Clock size={18} className="text-blue-500" />
@@ -144,13 +377,38 @@ export default function MedicationManager() {
                             className="rounded-full bg-blue-50 px-3 py-1 text-sm font-medium text-blue-700"
                           >
                             {schedule.reminder_time.slice(0, 5)}
+                            <span className="ml-2 text-xs font-normal text-blue-500">
+                              {describeRecurrence(schedule)}
+                            </span>
                           </span>
                         ))}
                       </div>
                     )}
+                    {historyId === med.id && <MedicationHistory medicationId={med.id} createdAt={med.created_at} />}
                   </div>
 
-                  <div className="flex gap-2 md:flex-col">
+                  <div className="flex flex-wrap gap-2 md:flex-col">
+                    <button
+                      onClick={() => setEditingId(med.id)}
+                      className="action-secondary w-full md:w-40"
+                    >
+                      <Pencil size={18} />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setHistoryId(historyId === med.id ? null : med.id)}
+                      className="action-secondary w-full md:w-40"
+                    >
+                      <History size={18} />
+                      {historyId === med.id ? 'Hide history' : 'History'}
+                    </button>
+                    <button
+                      onClick={() => updateStock(med)}
+                      className="action-secondary w-full md:w-40"
+                    >
+                      <Package size={18} />
+                      Update stock
+                    </button>
                     <button
                       onClick={() => deleteMedication(med.id)}
                       className="action-secondary w-full border-red-200 bg-red-50 text-red-600 hover:border-red-300 hover:text-red-700 md:w-40"
@@ -165,6 +423,43 @@ export default function MedicationManager() {
           </div>
         )}
       </div>
+
+      {completedCourses.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-800">
+            <CheckCircle size={22} className="text-emerald-600" />
+            Completed courses
+          </h3>
+          <div className="divide-y divide-slate-200 rounded-2xl border border-slate-200 bg-slate-50/70">
+            {completedCourses.map((course) => (
+              <div key={course.id} className="flex flex-col gap-2 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <p className="font-semibold text-slate-800">
+                    {course.medication_name} <span className="font-normal text-slate-500">({formatDosage(course)})</span>
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Ended {formatDay(course.end_date)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <p className="text-sm text-slate-600">
+                    {course.total > 0
+                      ? `${Math.round((course.taken / course.total) * 100)}% adherence · ${course.taken} of ${course.total} doses taken`
+                      : 'No doses recorded'}
+                  </p>
+                  <button
+                    onClick={() => reactivateCourse(course)}
+                    className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-700"
+                  >
+                    <RotateCcw size={16} />
+                    Restart
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,129 @@
+import { Layers, Plus, Trash2, X } from 'lucide-react';
+import { PhaseFormValue } from '../lib/phases';
+import { addDays } from '../lib/timezone';
+
+interface PhaseEditorProps {
+    value: PhaseFormValue[];
+    onChange: (value: PhaseFormValue[]) => void;
+}
+
+export default function PhaseEditor({ value, onChange }: PhaseEditorProps) {
+    const updatePhase = (index: number, changes: Partial<PhaseFormValue>) => {
+        onChange(value.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+    };
+
+    const addPhase = () => {
+        const previous = value[value.length - 1];
+        // The new phase picks up the day after the previous one ends
+        const startDate = previous.endDate ? addDays(previous.endDate, 1) : addDays(previous.startDate, 7);
+        onChange([
+            ...value.slice(0, -1),
+            { ...previous, endDate: previous.endDate || addDays(startDate, -1) },
+            { startDate, endDate: '', dosage: '', times: [...previous.times] },
+        ]);
+    };
+
+    return (
+        <div className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Layers size={16} className="text-blue-600" /> Phases
+            </label>
+            <p className="text-xs text-slate-500">
+                Reminders show the dose for the phase you are in and move on to the next phase by themselves.
+            </p>
+
+            {value.map((phase, index) => (
+                <div key={index} className="space-y-3 rounded-xl border border-slate-200 bg-white p-3">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-slate-700">Phase {index + 1}</span>
+                        {value.length > 1 && (
+                            <button
+                                type="button"
+                                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                                aria-label={`Remove phase ${index + 1}`}
+                                className="rounded-lg p-1 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        )}
+                    </div>
+
+                    <input
+                        type="text"
+                        required
+                        value={phase.dosage}
+                        onChange={e => updatePhase(index, { dosage: e.target.value })}
+                        className="form-input w-full rounded-xl border-slate-200 bg-white py-2 px-3"
+                        placeholder="Dose, e.g. 10mg"
+                    />
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">From</label>
+                            <input
+                                type="date"
+                                required
+                                value={phase.startDate}
+                                onChange={e => updatePhase(index, { startDate: e.target.value })}
+                                className="form-input w-full rounded-xl border-slate-200 bg-white py-2 px-3"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-600 mb-1">
+                                {index === value.length - 1 ? 'Until (optional)' : 'Until'}
+                            </label>
+                            <input
+                                type="date"
+                                required={index < value.length - 1}
+                                value={phase.endDate}
+                                onChange={e => updatePhase(index, { endDate: e.target.value })}
+                                className="form-input w-full rounded-xl border-slate-200 bg-white py-2 px-3"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        {phase.times.map((time, timeIndex) => (
+                            <div key={timeIndex} className="flex items-center gap-1">
+                                <input
+                                    type="time"
+                                    required
+                                    value={time}
+                                    onChange={e => updatePhase(index, {
+                                        times: phase.times.map((t, i) => (i === timeIndex ? e.target.value : t)),
+                                    })}
+                                    className="form-input rounded-xl border-slate-200 bg-white py-2 px-3"
+                                />
+                                {phase.times.length > 1 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => updatePhase(index, { times: phase.times.filter((_, i) => i !== timeIndex) })}
+                                        aria-label="Remove time"
+                                        className="rounded-lg p-1 text-slate-400 transition hover:text-rose-600"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            onClick={() => updatePhase(index, { times: [...phase.times, '20:00'] })}
+                            className="text-xs font-semibold text-blue-600 hover:text-blue-700"
+                        >
+                            + Add time
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={addPhase}
+                className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-700"
+            >
+                <Plus size={16} /> Add phase
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Camera, Loader2, Save, ScanLine, ShieldAlert, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { readPrescriptionImage } from '../lib/gemini';
+import { PrescriptionItem, savePrescriptionItems } from '../lib/prescriptionImport';
+import { describeRecurrence } from '../lib/recurrence';
+import {
+  ContraindicationData,
+  describeContraindication,
+  findContraindications,
+  loadContraindicationData,
+} from '../lib/contraindications';
+import {
+  describeInteractions,
+  DrugInteraction,
+  findAllInteractions,
+  findInteractions,
+  InteractionWarning,
+  loadDrugInteractions,
+  NamedMedication,
+} from '../lib/interactions';
+import InteractionWarnings from './InteractionWarnings';
+
+interface ReviewRow extends PrescriptionItem {
+  include: boolean;
+  timesText: string; // comma separated HH:MM, edited as text
+}
+
+interface PrescriptionImportProps {
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Every day, every other day, once a week
+const REPEAT_OPTIONS = [1, 2, 7];
+
+export default function PrescriptionImport({ onClose, onSave }: PrescriptionImportProps) {
+  const { user } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [contraindicationData, setContraindicationData] = useState<ContraindicationData | null>(null);
+  const [contraindicationsUnavailable, setContraindicationsUnavailable] = useState(false);
+  const [activeMedications, setActiveMedications] = useState<NamedMedication[]>([]);
+  const [interactions, setInteractions] = useState<DrugInteraction[] | null>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadInteractionData = async () => {
+      const [{ data, error }, interactionData] = await Promise.all([
+        supabase.from('medications').select('id, medication_name').eq('user_id', user.id).eq('active', true),
+        loadDrugInteractions(),
+      ]);
+      if (error) console.error('Error loading active medications:', error);
+      setActiveMedications(data ?? []);
+      setInteractions(error ? null : interactionData);
+    };
+    loadInteractionData();
+
+    loadContraindicationData(user.id)
+      .then(setContraindicationData)
+      .catch((err) => {
+        console.error('Error loading contraindication data:', err);
+        setContraindicationsUnavailable(true);
+      });
+  }, [user]);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const readImage = async () => {
+    if (!file) return;
+    setReading(true);
+    setError(null);
+    try {
+      const items = await readPrescriptionImage(file);
+      if (items.length === 0) {
+        setError('No medications could be read from this photo. Try a sharper, well-lit picture.');
+      }
+      setRows(items.map((item) => ({ ...item, include: true, timesText: item.times.join(', ') })));
+    } catch (err) {
+      console.error('Error reading prescription:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the prescription');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows((prev) => prev && prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const getWarnings = (row: ReviewRow) =>
+    contraindicationData && row.medication_name.trim() ? findContraindications(row.medication_name.trim(), contraindicationData) : [];
+
+  // Imported rows count as medications too, so two new ones that clash are caught
+  const asNamed = (list: ReviewRow[]): NamedMedication[] =>
+    list
+      .filter((row) => row.include && row.medication_name.trim())
+      .map((row, index) => ({ id: `import-${index}`, medication_name: row.medication_name.trim() }));
+
+  const getInteractionWarnings = (row: ReviewRow): InteractionWarning[] => {
+    if (!interactions || !rows || !row.medication_name.trim()) return [];
+    const others = [...activeMedications, ...asNamed(rows.filter((other) => other !== row))];
+    return findInteractions(row.medication_name.trim(), others, interactions);
+  };
+
+  // Each clashing pair once: new against current medications, then new against new
+  const imported = rows ? asNamed(rows) : [];
+  const allInteractionWarnings = interactions && [
+    ...imported.flatMap((item) => findInteractions(item.medication_name, activeMedications, interactions)),
+    ...findAllInteractions(imported, interactions),
+  ];
+
+  const saveRows = async () => {
+    if (!user || !rows) return;
+
+    const selected = rows.filter((row) => row.include && row.medication_name.trim());
+    if (selected.length === 0) {
+      alert('Select at least one medication to add');
+      return;
+    }
+
+    const items: PrescriptionItem[] = [];
+    for (const row of selected) {
+      const times = row.timesText.split(',').map((time) => time.trim()).filter(Boolean);
+      if (!row.as_needed && (times.length === 0 || times.some((time) => !TIME_PATTERN.test(time)))) {
+        alert(`Enter reminder times for ${row.medication_name} as HH:MM, separated by commas`);
+        return;
+      }
+      if (!row.as_needed && row.repeat_every_days === null) {
+        alert(`Choose how often ${row.medication_name} repeats`);
+        return;
+      }
+      items.push({ ...row, medication_name: row.medication_name.trim(), times: row.as_needed ? [] : times });
+    }
+
+    if (
+      allInteractionWarnings === null &&
+      !confirm('The interaction check is unavailable, so these medications were not checked against each other or what you already take. Save anyway?')
+    ) {
+      return;
+    }
+    const majorInteractions = (allInteractionWarnings ?? []).filter((warning) => warning.severity === 'major');
+    if (
+      majorInteractions.length > 0 &&
+      !confirm(`Some of these medications interact:\n\n${describeInteractions(majorInteractions)}\n\nAdd them anyway?`)
+    ) {
+      return;
+    }
+
+    const warnings = items.map((item) =>
+      contraindicationData ? findContraindications(item.medication_name, contraindicationData) : []
+    );
+    const conflicts = warnings.flatMap((list, index) =>
+      list.map((warning) => `• ${items[index].medication_name}: ${describeContraindication(warning)}`)
+    );
+    if (
+      contraindicationsUnavailable &&
+      !confirm('Your allergies and conditions could not be loaded, so these medications were not checked against them. Save anyway?')
+    ) {
+      return;
+    }
+    if (
+      conflicts.length > 0 &&
+      !confirm(`Some medications conflict with your health profile:\n\n${conflicts.join('\n')}\n\nI understand the risk and my doctor has prescribed them. Save anyway?`)
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await savePrescriptionItems(
+        user.id,
+        items,
+        warnings.map((list) => (list.length > 0 ? list.map(describeContraindication) : null))
+      );
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error('Error saving imported medications:', err);
+      alert('Failed to save medications');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-4xl rounded-3xl bg-white p-6 md:p-8 shadow-2xl overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <ScanLine className="text-blue-600" /> Import Prescription
+          </h2>
+          <button onClick={onClose} className="rounded-full p-2 hover:bg-slate-100 transition">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        {!rows && (
+          <div className="space-y-4">
+            <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-slate-300 bg-slate-50 px-6 py-10 text-center text-slate-500 hover:border-blue-400">
+              {previewUrl ? (
+                <img src={previewUrl} alt="Prescription" className="max-h-64 rounded-xl object-contain" />
+              ) : (
+                <>
+                  <Camera size={40} className="text-slate-400" />
+                  <span className="font-semibold text-slate-600">Upload or take a photo</span>
+                  <span className="text-xs">A prescription or pharmacy label, flat and well lit</span>
+                </>
+              )}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button onClick={readImage} disabled={!file || reading} className="action-primary w-full justify-center">
+              {reading ? <Loader2 className="animate-spin" size={18} /> : <ScanLine size={18} />}
+              {reading ? 'Reading prescription...' : 'Read prescription'}
+            </button>
+          </div>
+        )}
+
+        {rows && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-500">
+              Check what was read and correct anything that is wrong. Times are reminders (HH:MM, comma separated) on each day the medication repeats.
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {contraindicationsUnavailable && (
+              <p className="flex items-center gap-2 text-sm font-semibold text-amber-700">
+                <ShieldAlert size={16} />
+                Allergy and condition check unavailable
+              </p>
+            )}
+            <InteractionWarnings title="Possible interactions" warnings={allInteractionWarnings} />
+            <div className="overflow-x-auto rounded-2xl border border-slate-200">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-xs font-semibold uppercase text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2">Add</th>
+                    <th className="px-3 py-2">Medication</th>
+                    <th className="px-3 py-2">Dosage</th>
+                    <th className="px-3 py-2">Times</th>
+                    <th className="px-3 py-2">Repeats</th>
+                    <th className="px-3 py-2">Days</th>
+                    <th className="px-3 py-2">Instructions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {rows.map((row, index) => {
+                    const warnings = getWarnings(row);
+                    const interactionWarnings = row.include ? getInteractionWarnings(row) : [];
+                    return (
+                      <tr key={index} className={row.include ? '' : 'opacity-50'}>
+                        <td className="px-3 py-2 align-top">
+                          <input
+                            type="checkbox"
+                            checked={row.include}
+                            onChange={(e) => updateRow(index, { include: e.target.checked })}
+                            className="mt-2 h-4 w-4 rounded border-slate-300 text-blue-600"
+                          />
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <input
+                            type="text"
+                            value={row.medication_name}
+                            onChange={(e) => updateRow(index, { medication_name: e.target.value })}
+                            className="form-input w-40 rounded-lg border-slate-200 py-1.5 px-2"
+                          />
+                          {warnings.length > 0 && (
+                            <p className="mt-1 flex items-center gap-1 text-xs text-red-600">
+                              <ShieldAlert size={12} />
+                              {warnings.map((warning) => warning.profileEntry).join(', ')}
+                            </p>
+                          )}
+                          {interactionWarnings.length > 0 && (
+                            <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                              <AlertTriangle size={12} />
+                              {interactionWarnings.map((warning) => `${warning.otherMedicationName} (${warning.severity})`).join(', ')}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <input
+                            type="text"
+                            value={row.dosage}
+                            onChange={(e) => updateRow(index, { dosage: e.target.value })}
+                            className="form-input w-36 rounded-lg border-slate-200 py-1.5 px-2"
+                          />
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <input
+                            type="text"
+                            value={row.as_needed ? '' : row.timesText}
+                            disabled={row.as_needed}
+                            placeholder={row.as_needed ? 'As needed' : '08:00, 20:00'}
+                            onChange={(e) => updateRow(index, { timesText: e.target.value })}
+                            className="form-input w-32 rounded-lg border-slate-200 py-1.5 px-2"
+                          />
+                          <label className="mt-1 flex items-center gap-1 text-xs text-slate-500">
+                            <input
+                              type="checkbox"
+                              checked={row.as_needed}
+                              onChange={(e) => updateRow(index, { as_needed: e.target.checked })}
+                              className="h-3 w-3 rounded border-slate-300"
+                            />
+                            As needed
+                          </label>
+                          {row.frequency && <p className="mt-1 text-xs text-slate-400">"{row.frequency}"</p>}
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <select
+                            value={row.repeat_every_days ?? ''}
+                            disabled={row.as_needed}
+                            onChange={(e) => updateRow(index, { repeat_every_days: e.target.value ? Number(e.target.value) : null })}
+                            className="form-select w-36 rounded-lg border-slate-200 py-1.5 px-2"
+                          >
+                            {row.repeat_every_days === null && <option value="">Choose...</option>}
+                            {[...new Set([...REPEAT_OPTIONS, row.repeat_every_days ?? 1])].sort((a, b) => a - b).map((days) => (
+                              <option key={days} value={days}>
+                                {days === 7 ? 'Once a week' : describeRecurrence({ reminder_time: '', repeat_interval: days })}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <input
+                            type="number"
+                            min="1"
+                            value={row.duration_days ?? ''}
+                            onChange={(e) => updateRow(index, { duration_days: Number(e.target.value) > 0 ? Math.round(Number(e.target.value)) : null })}
+                            className="form-input w-20 rounded-lg border-slate-200 py-1.5 px-2"
+                          />
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <input
+                            type="text"
+                            value={row.instructions}
+                            onChange={(e) => updateRow(index, { instructions: e.target.value })}
+                            className="form-input w-40 rounded-lg border-slate-200 py-1.5 px-2"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+              <button onClick={() => setRows(null)} className="action-secondary">
+                <Camera size={18} />
+                Use another photo
+              </button>
+              <button onClick={saveRows} disabled={saving} className="action-primary">
+                {saving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+                Add {rows.filter((row) => row.include).length} medication{rows.filter((row) => row.include).length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
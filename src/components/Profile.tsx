@@ -3,27 +3,110 @@
 import { ReactNode, useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { MessageCircle, Send, Mail, AlertCircle, ArrowLeft } from 'lucide-react';
+import { getBrowserTimeZone } from '../lib/timezone';
+import { countPushSubscriptions } from '../lib/pushNotifications';
+import {
+  DeliveryMode,
+  loadNotificationChannels,
+  NotificationChannel,
+  ReminderChannel,
+  saveNotificationChannels,
+  verifyNotificationChannel,
+} from '../lib/notificationChannels';
+import { QuietHoursMode, QuietHoursWindow } from '../lib/quietHours';
+import {
+  MessageCircle,
+  Send,
+  Mail,
+  AlertCircle,
+  ArrowLeft,
+  BellRing,
+  ArrowUp,
+  ArrowDown,
+  ShieldCheck,
+} from 'lucide-react';
 import ContactPreferences from './ContactPreferences';
+import EscalationSettings from './EscalationSettings';
+import QuietHoursSettings from './QuietHoursSettings';
+import ReportSettings from './ReportSettings';
 import { BasicHealthInfo, FamilyMembersManager, DoctorAppointmentsManager } from './HealthProfile';
 
 interface UserProfile {
   id: string;
   full_name: string;
-  preferred_channel: 'email' | 'whatsapp' | 'telegram';
+  preferred_channel: 'email' | 'whatsapp' | 'telegram' | 'push';
   whatsapp_number: string | null;
   telegram_chat_id: string | null;
   email: string | null;
+  timezone: string | null;
+  delivery_mode: DeliveryMode;
+  quiet_hours: QuietHoursWindow[];
+  quiet_hours_mode: QuietHoursMode;
+  weekly_report: boolean;
+  monthly_report: boolean;
 }
 
 interface ProfileProps {
   onBackToDashboard: () => void;
 }
 
+const ALL_CHANNELS: ReminderChannel[] = ['email', 'push', 'whatsapp', 'telegram'];
+
+const channelDetails: Record<ReminderChannel, { label: string; description: string; icon: ReactNode }> = {
+  whatsapp: {
+    label: 'WhatsApp',
+    description: 'Instant reminders and check-ins through your saved mobile number.',
+    icon: <MessageCircle size={24} />,
+  },
+  telegram: {
+    label: 'Telegram',
+    description: 'Secure reminders via the MediBot Telegram assistant.',
+    icon: <Send size={24} />,
+  },
+  email: {
+    label: 'Email',
+    description: 'Detailed summaries and daily reminders straight to your inbox.',
+    icon: <Mail size={24} />,
+  },
+  push: {
+    label: 'Push',
+    description: 'Browser notifications with Taken and Snooze buttons, even when MediBot is closed.',
+    icon: <BellRing size={24} />,
+  },
+};
+
+/**
+ * Saved channels in their order, followed by the ones never turned on.
+ * Users who never saved any start with their preferred channel on.
+ */
+function withAllChannels(
+  saved: NotificationChannel[],
+  preferredChannel: ReminderChannel = 'email'
+): NotificationChannel[] {
+  const missing = ALL_CHANNELS.filter((channel) => !saved.some((row) => row.channel === channel));
+  if (saved.length === 0) {
+    missing.sort((a, b) => Number(b === preferredChannel) - Number(a === preferredChannel));
+  }
+
+  return [
+    ...saved,
+    ...missing.map((channel) => ({
+      channel,
+      position: saved.length,
+      enabled: saved.length === 0 && channel === preferredChannel,
+      verified_at: null,
+      last_error: null,
+    })),
+  ];
+}
+
 export default function Profile({ onBackToDashboard }: ProfileProps) {
   const { user } = useAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pushDeviceCount, setPushDeviceCount] = useState(0);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [verifyingChannel, setVerifyingChannel] = useState<ReminderChannel | null>(null);
   const [channelMessage, setChannelMessage] = useState<{
     type: 'error' | 'success';
     text: string;
@@ -36,6 +119,9 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
   const loadProfile = async () => {
     if (!user) return;
 
+    setPushDeviceCount(await countPushSubscriptions(user.id));
+    const savedChannels = await loadNotificationChannels(user.id);
+
     const { data, error } = await supabase
       .from('user_profiles')
       .select('*')
@@ -46,6 +132,7 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
       console.error('Error loading profile:', error);
     } else if (data) {
       setProfile(data);
+      setChannels(withAllChannels(savedChannels, data.preferred_channel));
       setChannelMessage(null);
     } else {
       const { data: newProfile } = await supabase
@@ -55,12 +142,14 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
           full_name: user.email?.split('@')[0] || 'User',
           email: user.email,
           preferred_channel: 'email',
+          timezone: getBrowserTimeZone(),
         })
         .select()
         .single();
 
       if (newProfile) {
         setProfile(newProfile);
+        setChannels(withAllChannels(savedChannels, newProfile.preferred_channel));
         setChannelMessage(null);
       }
     }
@@ -68,7 +157,12 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
     setLoading(false);
   };
 
-  const hasContactForChannel = (channel: UserProfile['preferred_channel']) => {
+  const refreshChannels = async () => {
+    if (!user) return;
+    setChannels(withAllChannels(await loadNotificationChannels(user.id), profile?.preferred_channel));
+  };
+
+  const hasContactForChannel = (channel: ReminderChannel) => {
     if (!profile) return false;
 
     if (channel === 'email') {
@@ -80,34 +174,112 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
     if (channel === 'telegram') {
       return Boolean(profile.telegram_chat_id);
     }
+    if (channel === 'push') {
+      return pushDeviceCount > 0;
+    }
     return false;
   };
 
-  const updateChannel = async (channel: UserProfile['preferred_channel']) => {
+  const persistChannels = async (nextChannels: NotificationChannel[], successText: string) => {
     if (!user || !profile) return;
 
-    if (!hasContactForChannel(channel)) {
+    try {
+      await saveNotificationChannels(user.id, nextChannels);
+      setChannels(nextChannels);
+      const primary = nextChannels.find((channel) => channel.enabled);
+      if (primary) {
+        setProfile({ ...profile, preferred_channel: primary.channel });
+      }
+      setChannelMessage({ type: 'success', text: successText });
+    } catch (error) {
+      setChannelMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Unable to update reminder channels.',
+      });
+    }
+  };
+
+  const toggleChannel = async (channel: ReminderChannel) => {
+    const current = channels.find((row) => row.channel === channel);
+    if (!current) return;
+
+    if (!current.enabled && !hasContactForChannel(channel)) {
       setChannelMessage({
         type: 'error',
-        text: `Add valid ${channel} contact details before selecting it as your preferred reminder channel.`,
+        text:
+          channel === 'push'
+            ? 'Enable push notifications on at least one device before adding push as a reminder channel.'
+            : `Add valid ${channel} contact details before adding it as a reminder channel.`,
       });
       return;
     }
 
+    if (current.enabled && channels.filter((row) => row.enabled).length === 1) {
+      setChannelMessage({ type: 'error', text: 'Keep at least one reminder channel turned on.' });
+      return;
+    }
+
+    await persistChannels(
+      channels.map((row) => (row.channel === channel ? { ...row, enabled: !row.enabled } : row)),
+      current.enabled ? `Reminders will no longer be sent by ${channel}.` : `Reminders will also be sent by ${channel}.`
+    );
+  };
+
+  const moveChannel = async (channel: ReminderChannel, direction: -1 | 1) => {
+    const index = channels.findIndex((row) => row.channel === channel);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= channels.length) return;
+
+    const nextChannels = [...channels];
+    [nextChannels[index], nextChannels[target]] = [nextChannels[target], nextChannels[index]];
+    await persistChannels(nextChannels, 'Channel order updated.');
+  };
+
+  const verifyChannel = async (channel: ReminderChannel) => {
+    if (!user) return;
+
+    setVerifyingChannel(channel);
+    try {
+      // The function records verification on the stored row, so make sure it exists
+      await saveNotificationChannels(user.id, channels);
+    } catch (error) {
+      console.error('Error saving reminder channels:', error);
+    }
+    const result = await verifyNotificationChannel(user.id, channel);
+    await refreshChannels();
+    setChannelMessage(
+      result.success
+        ? { type: 'success', text: `Test reminder delivered by ${channel}. This channel is now verified.` }
+        : { type: 'error', text: `Could not verify ${channel}: ${result.error}` }
+    );
+    setVerifyingChannel(null);
+  };
+
+  const updateDeliveryMode = async (deliveryMode: DeliveryMode) => {
+    if (!user || !profile) return;
+
     const { error } = await supabase
       .from('user_profiles')
-      .update({ preferred_channel: channel })
+      .update({ delivery_mode: deliveryMode })
       .eq('id', user.id);
 
-    if (!error) {
-      setProfile({ ...profile, preferred_channel: channel });
-      setChannelMessage({
-        type: 'success',
-        text: `Reminder channel updated to ${channel}.`,
-      });
+    if (error) {
+      setChannelMessage({ type: 'error', text: `Unable to update delivery mode: ${error.message}` });
+      return;
     }
+
+    setProfile({ ...profile, delivery_mode: deliveryMode });
+    setChannelMessage({
+      type: 'success',
+      text:
+        deliveryMode === 'all'
+          ? 'Reminders will be sent to every verified channel.'
+          : 'Reminders will stop at the first channel that delivers.',
+    });
   };
 
+  const enabledChannels = channels.filter((channel) => channel.enabled);
+
   if (loading) {
     return (
       <div className="flex min-h-[320px] items-center justify-center">
@@ -143,7 +315,7 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
             Back to dashboard
           </button>
         </div>
-        <div className="mt-6 grid gap-4 rounded-2xl border border-slate-200 bg-slate-50/60 px-5 py-5 sm:grid-cols-2">
+        <div className="mt-6 grid gap-4 rounded-2xl border border-slate-200 bg-slate-50/60 px-5 py-5 sm:grid-cols-3">
           <div>
             <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
               Account email
@@ -152,10 +324,20 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
           </div>
           <div>
             <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-              Preferred reminder channel
+              Reminder channels
             </p>
             <p className="mt-1 text-base font-semibold text-slate-900">
-              {profile ? profile.preferred_channel : 'Not set'}
+              {enabledChannels.length > 0
+                ? enabledChannels.map((channel) => channelDetails[channel.channel].label).join(', ')
+                : profile?.preferred_channel ?? 'Not set'}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Timezone
+            </p>
+            <p className="mt-1 text-base font-semibold text-slate-900">
+              {profile?.timezone ?? 'Not set'}
             </p>
           </div>
         </div>
@@ -164,30 +346,42 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
       <section className="surface-card px-6 py-6 sm:px-8 sm:py-7">
         <h2 className="text-lg font-semibold text-slate-900 sm:text-xl">Reminder delivery</h2>
         <p className="mt-1 text-sm text-slate-600">
-          Choose the primary channel for day-to-day reminders. You can switch anytime.
+          Turn on every channel you want reminders on and put them in order. Each channel starts
+          receiving reminders once a test message reaches you.
         </p>
 
-        <div className="mt-6 grid gap-4 lg:grid-cols-3">
-          <ChannelCard
-            label="WhatsApp"
-            description="Instant reminders and check-ins through your saved mobile number."
-            icon={<MessageCircle size={24} />}
-            active={profile?.preferred_channel === 'whatsapp'}
-            onClick={() => updateChannel('whatsapp')}
-          />
-          <ChannelCard
-            label="Telegram"
-            description="Secure reminders via the MediBot Telegram assistant."
-            icon={<Send size={24} />}
-            active={profile?.preferred_channel === 'telegram'}
-            onClick={() => updateChannel('telegram')}
+        <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {channels.map((channel, index) => (
+            <ChannelCard
+              key={channel.channel}
+              {...channelDetails[channel.channel]}
+              order={channel.enabled ? enabledChannels.indexOf(channel) + 1 : null}
+              active={channel.enabled}
+              verified={Boolean(channel.verified_at)}
+              lastError={channel.last_error}
+              verifying={verifyingChannel === channel.channel}
+              canMoveUp={index > 0}
+              canMoveDown={index < channels.length - 1}
+              onClick={() => toggleChannel(channel.channel)}
+              onVerify={() => verifyChannel(channel.channel)}
+              onMoveUp={() => moveChannel(channel.channel, -1)}
+              onMoveDown={() => moveChannel(channel.channel, 1)}
+            />
+          ))}
+        </div>
+
+        <div className="mt-6 grid gap-3 sm:grid-cols-2">
+          <DeliveryModeOption
+            title="Send to all channels"
+            description="Every reminder goes out on each verified channel."
+            active={(profile?.delivery_mode ?? 'all') === 'all'}
+            onClick={() => updateDeliveryMode('all')}
           />
-          <ChannelCard
-            label="Email"
-            description="Detailed summaries and daily reminders straight to your inbox."
-            icon={<Mail size={24} />}
-            active={profile?.preferred_channel === 'email'}
-            onClick={() => updateChannel('email')}
+          <DeliveryModeOption
+            title="Stop at the first that works"
+            description="Channels are tried in order until one delivers."
+            active={profile?.delivery_mode === 'first_success'}
+            onClick={() => updateDeliveryMode('first_success')}
           />
         </div>
 
@@ -208,10 +402,38 @@ export default function Profile({ onBackToDashboard }: ProfileProps) {
         <ContactPreferences
           user={user}
           profile={profile}
-          onProfileUpdate={setProfile}
+          onProfileUpdate={(nextProfile) => {
+            setProfile(nextProfile);
+            void refreshChannels();
+          }}
+          onPushDevicesChange={setPushDeviceCount}
+        />
+      )}
+
+      {profile && (
+        <QuietHoursSettings
+          user={user}
+          quietHours={profile.quiet_hours}
+          mode={profile.quiet_hours_mode}
+          onSaved={(quietHours, mode) =>
+            setProfile({ ...profile, quiet_hours: quietHours, quiet_hours_mode: mode })
+          }
         />
       )}
 
+      {profile && (
+        <ReportSettings
+          user={user}
+          weeklyReport={profile.weekly_report}
+          monthlyReport={profile.monthly_report}
+          onSaved={(weeklyReport, monthlyReport) =>
+            setProfile({ ...profile, weekly_report: weeklyReport, monthly_report: monthlyReport })
+          }
+        />
+      )}
+
+      {profile && <EscalationSettings user={user} primaryChannel={profile.preferred_channel} />}
+
       <BasicHealthInfo />
       <FamilyMembersManager />
       <DoctorAppointmentsManager />
@@ -223,28 +445,122 @@ interface ChannelCardProps {
   label: string;
   description: string;
   icon: ReactNode;
+  order: number | null;
   active: boolean;
+  verified: boolean;
+  lastError: string | null;
+  verifying: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
   onClick: () => void;
+  onVerify: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
 }
 
-function ChannelCard({ label, description, icon, active, onClick }: ChannelCardProps) {
+function ChannelCard({
+  label,
+  description,
+  icon,
+  order,
+  active,
+  verified,
+  lastError,
+  verifying,
+  canMoveUp,
+  canMoveDown,
+  onClick,
+  onVerify,
+  onMoveUp,
+  onMoveDown,
+}: ChannelCardProps) {
   return (
-    <button
-      onClick={onClick}
-      className={`rounded-2xl border px-5 py-5 text-left transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500 ${active
+    <div
+      className={`flex flex-col rounded-2xl border transition ${active
         ? 'border-blue-500 bg-blue-50 shadow-sm'
         : 'border-slate-200 bg-white hover:border-blue-200 hover:bg-blue-50/60'
         }`}
     >
-      <div className="flex items-center gap-3">
-        <span className="flex h-11 w-11 items-center justify-center rounded-full bg-blue-100 text-blue-600">
-          {icon}
-        </span>
-        <span className="text-base font-semibold text-slate-900">{label}</span>
+      <button
+        onClick={onClick}
+        aria-pressed={active}
+        className="flex-1 rounded-2xl px-5 py-5 text-left focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500"
+      >
+        <div className="flex items-center gap-3">
+          <span className="flex h-11 w-11 items-center justify-center rounded-full bg-blue-100 text-blue-600">
+            {icon}
+          </span>
+          <span className="text-base font-semibold text-slate-900">{label}</span>
+          {order !== null && (
+            <span className="ml-auto rounded-full bg-blue-600 px-2 py-0.5 text-xs font-semibold text-white">
+              #{order}
+            </span>
+          )}
+        </div>
+        <p className="mt-3 text-sm text-slate-600">{description}</p>
+      </button>
+
+      <div className="flex items-center gap-2 border-t border-slate-200/70 px-5 py-3">
+        {verified ? (
+          <span className="inline-flex items-center gap-1 rounded-full bg-emerald-100 px-2 py-1 text-xs font-semibold text-emerald-700">
+            <ShieldCheck size={12} />
+            Verified
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={onVerify}
+            disabled={verifying}
+            title={lastError ?? undefined}
+            className="rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-700 hover:bg-amber-200 disabled:opacity-50"
+          >
+            {verifying ? 'Sending test...' : 'Verify'}
+          </button>
+        )}
+        <div className="ml-auto flex gap-1">
+          <button
+            type="button"
+            onClick={onMoveUp}
+            disabled={!canMoveUp}
+            aria-label={`Move ${label} up`}
+            className="rounded-lg p-1 text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          >
+            <ArrowUp size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={onMoveDown}
+            disabled={!canMoveDown}
+            aria-label={`Move ${label} down`}
+            className="rounded-lg p-1 text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+          >
+            <ArrowDown size={16} />
+          </button>
+        </div>
       </div>
-      <p className="mt-3 text-sm text-slate-600">{description}</p>
-    </button>
+    </div>
   );
 }
 
+interface DeliveryModeOptionProps {
+  title: string;
+  description: string;
+  active: boolean;
+  onClick: () => void;
+}
 
+function DeliveryModeOption({ title, description, active, onClick }: DeliveryModeOptionProps) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      className={`rounded-2xl border px-5 py-4 text-left transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500 ${active
+        ? 'border-blue-500 bg-blue-50 shadow-sm'
+        : 'border-slate-200 bg-white hover:border-blue-200 hover:bg-blue-50/60'
+        }`}
+    >
+      <span className="text-sm font-semibold text-slate-900">{title}</span>
+      <p className="mt-1 text-sm text-slate-600">{description}</p>
+    </button>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { CheckCircle, AlertCircle, Moon, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { setReminderQuietHours } from '../lib/reminderService';
+import { normalizeQuietHours, QuietHoursMode, QuietHoursWindow } from '../lib/quietHours';
+
+interface StatusMessage {
+  type: 'success' | 'error';
+  message: string;
+}
+
+interface QuietHoursSettingsProps {
+  user: User;
+  quietHours: QuietHoursWindow[];
+  mode: QuietHoursMode;
+  onSaved: (quietHours: QuietHoursWindow[], mode: QuietHoursMode) => void;
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-slate-200 px-4 py-3 text-base shadow-sm transition focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200';
+
+export default function QuietHoursSettings({ user, quietHours, mode, onSaved }: QuietHoursSettingsProps) {
+  const [windows, setWindows] = useState<QuietHoursWindow[]>(normalizeQuietHours(quietHours));
+  const [quietMode, setQuietMode] = useState<QuietHoursMode>(mode);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const updateWindow = (index: number, field: keyof QuietHoursWindow, value: string) => {
+    setWindows((current) => current.map((period, i) => (i === index ? { ...period, [field]: value } : period)));
+  };
+
+  const handleSave = async () => {
+    const validWindows = normalizeQuietHours(windows);
+    if (validWindows.length !== windows.length) {
+      setStatus({ type: 'error', message: 'Each quiet period needs a start and an end time that differ.' });
+      return;
+    }
+
+    setSaving(true);
+    setStatus(null);
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ quiet_hours: validWindows, quiet_hours_mode: quietMode, updated_at: new Date().toISOString() })
+      .eq('id', user.id);
+
+    if (error) {
+      setStatus({ type: 'error', message: `Unable to save quiet hours: ${error.message}` });
+    } else {
+      setReminderQuietHours(validWindows);
+      onSaved(validWindows, quietMode);
+      setStatus({ type: 'success', message: 'Quiet hours saved.' });
+    }
+
+    setSaving(false);
+  };
+
+  return (
+    <section className="surface-card px-6 py-6 sm:px-8 sm:py-7">
+      <div className="flex items-center gap-3">
+        <span className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-100 text-indigo-600">
+          <Moon size={20} />
+        </span>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 sm:text-xl">Quiet hours</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            No reminder messages during these times, and browser notifications arrive without sound or
+            vibration. Medications marked critical always come through.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-3">
+        {windows.length === 0 && <p className="text-sm text-slate-500">No quiet hours set.</p>}
+        {windows.map((period, index) => (
+          <div key={index} className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="mb-2 block text-sm font-semibold text-slate-700">From</label>
+              <input
+                type="time"
+                value={period.start}
+                onChange={(event) => updateWindow(index, 'start', event.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="mb-2 block text-sm font-semibold text-slate-700">Until</label>
+              <input
+                type="time"
+                value={period.end}
+                onChange={(event) => updateWindow(index, 'end', event.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setWindows((current) => current.filter((_, i) => i !== index))}
+              aria-label="Remove quiet period"
+              className="rounded-xl p-3 text-slate-500 transition hover:bg-rose-50 hover:text-rose-600"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setWindows((current) => [...current, { start: '22:00', end: '07:00' }])}
+          className="action-secondary"
+        >
+          <Plus size={16} />
+          Add quiet period
+        </button>
+      </div>
+
+      <div className="mt-6 grid gap-3 sm:grid-cols-2">
+        {(
+          [
+            ['silence', 'Stay silent', 'Non-critical reminders during quiet hours are not sent.'],
+            ['digest', 'Send a digest', 'Get one summary of what came up once quiet hours end.'],
+          ] as [QuietHoursMode, string, string][]
+        ).map(([value, title, description]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setQuietMode(value)}
+            aria-pressed={quietMode === value}
+            className={`rounded-2xl border px-5 py-4 text-left transition ${quietMode === value
+              ? 'border-blue-500 bg-blue-50 shadow-sm'
+              : 'border-slate-200 bg-white hover:border-blue-200 hover:bg-blue-50/60'
+              }`}
+          >
+            <span className="text-sm font-semibold text-slate-900">{title}</span>
+            <p className="mt-1 text-sm text-slate-600">{description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6 flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="action-primary bg-blue-600 hover:bg-blue-700 focus-visible:outline-blue-600 sm:w-auto"
+        >
+          {saving ? 'Saving...' : 'Save quiet hours'}
+        </button>
+      </div>
+
+      {status && (
+        <div
+          className={`mt-6 flex items-start gap-3 rounded-2xl border px-4 py-4 text-sm ${status.type === 'success'
+            ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+            : 'border-rose-200 bg-rose-50 text-rose-700'
+            }`}
+        >
+          {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+          <span className="font-medium">{status.message}</span>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,114 @@
+import { Repeat } from 'lucide-react';
+import { RecurrenceFormValue, RepeatPattern, WEEKDAY_LABELS } from '../lib/recurrence';
+
+interface RecurrenceEditorProps {
+    value: RecurrenceFormValue;
+    onChange: (value: RecurrenceFormValue) => void;
+}
+
+const PATTERN_OPTIONS: { value: RepeatPattern; label: string }[] = [
+    { value: 'daily', label: 'Every day' },
+    { value: 'weekdays', label: 'On specific weekdays' },
+    { value: 'every_n_days', label: 'Every few days' },
+    { value: 'every_n_hours', label: 'Every few hours' },
+    { value: 'cycle', label: 'On/off cycle (e.g. 21 on, 7 off)' },
+];
+
+export default function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+    const update = (changes: Partial<RecurrenceFormValue>) => onChange({ ...value, ...changes });
+
+    const toggleWeekday = (day: number) => {
+        update({
+            weekdays: value.weekdays.includes(day)
+                ? value.weekdays.filter(d => d !== day)
+                : [...value.weekdays, day],
+        });
+    };
+
+    return (
+        <div className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Repeat size={16} className="text-blue-600" /> Repeat
+            </label>
+            <select
+                value={value.pattern}
+                onChange={e => update({ pattern: e.target.value as RepeatPattern })}
+                className="form-select w-full rounded-xl border-slate-200 bg-white py-3 px-4"
+            >
+                {PATTERN_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+
+            {value.pattern === 'weekdays' && (
+                <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                        <button
+                            key={label}
+                            type="button"
+                            onClick={() => toggleWeekday(day)}
+                            className={`rounded-full px-3 py-1 text-sm font-semibold transition ${value.weekdays.includes(day)
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-white text-slate-600 border border-slate-200 hover:border-blue-300'
+                                }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {(value.pattern === 'every_n_days' || value.pattern === 'every_n_hours') && (
+                <div className="flex items-center gap-3 text-sm text-slate-700">
+                    <span>Every</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={value.pattern === 'every_n_hours' ? 24 : 365}
+                        required
+                        value={value.interval}
+                        onChange={e => update({ interval: parseInt(e.target.value) || 1 })}
+                        className="form-input w-24 rounded-xl border-slate-200 bg-white py-2 px-3"
+                    />
+                    <span>{value.pattern === 'every_n_hours' ? 'hours' : 'days'}</span>
+                </div>
+            )}
+
+            {value.pattern === 'cycle' && (
+                <div className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+                    <input
+                        type="number"
+                        min={1}
+                        required
+                        value={value.cycleOnDays}
+                        onChange={e => update({ cycleOnDays: parseInt(e.target.value) || 1 })}
+                        className="form-input w-20 rounded-xl border-slate-200 bg-white py-2 px-3"
+                    />
+                    <span>days on, then</span>
+                    <input
+                        type="number"
+                        min={1}
+                        required
+                        value={value.cycleOffDays}
+                        onChange={e => update({ cycleOffDays: parseInt(e.target.value) || 1 })}
+                        className="form-input w-20 rounded-xl border-slate-200 bg-white py-2 px-3"
+                    />
+                    <span>days off</span>
+                </div>
+            )}
+
+            <div>
+                <label className="block text-xs font-semibold text-slate-600 mb-1">
+                    {value.pattern === 'every_n_hours' ? 'First dose on' : 'Starting on'}
+                </label>
+                <input
+                    type="date"
+                    required
+                    value={value.anchorDate}
+                    onChange={e => update({ anchorDate: e.target.value })}
+                    className="form-input w-full rounded-xl border-slate-200 bg-white py-2 px-3"
+                />
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,15 @@
-﻿import { X, CheckCircle, Clock, AlertCircle } from 'lucide-react';
+﻿import { X, CheckCircle, Clock, AlertCircle, AlarmClock } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useState, useEffect } from 'react';
 import {
-  AUTO_NOT_TAKEN_TIMEOUT_MS,
-  clearAutoMarkTimeout,
+  SNOOZE_OPTIONS_MINUTES,
+  AdherenceStatus,
+  getReminderTimeZone,
+  getTodayDateString,
   recordAdherenceStatus,
+  snoozeReminder,
 } from '../lib/reminderService';
+import { getZonedDateParts } from '../lib/timezone';
 
 interface MedicationWithSchedule {
   id: string;
@@ -13,6 +17,7 @@ interface MedicationWithSchedule {
   dosage: string;
   instructions?: string;
   reminder_time: string;
+  scheduled_time?: string;
 }
 
 interface ReminderModalProps {
@@ -22,7 +27,13 @@ interface ReminderModalProps {
   onMissed: () => void;
 }
 
-const REMINDER_TIMEOUT_MS = AUTO_NOT_TAKEN_TIMEOUT_MS; // 5 minutes in milliseconds
+interface OverdueRemindersModalProps {
+  reminders: MedicationWithSchedule[];
+  onClose: () => void;
+  onResolved: (reminder: MedicationWithSchedule) => void;
+}
+
+const REMINDER_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes in milliseconds
 
 export default function ReminderModal({
   medication,
@@ -36,7 +47,9 @@ export default function ReminderModal({
   const [isAutoClosing, setIsAutoClosing] = useState(false);
 
   /**
-   * 5-minute timeout: Auto-mark as "not taken" if no response
+   * 5-minute timeout: close the reminder if there is no response. The dose
+   * stays unanswered and is recorded as not taken by the server once the
+   * grace window has passed.
    */
   useEffect(() => {
     // Timer countdown
@@ -44,7 +57,6 @@ export default function ReminderModal({
       setTimeRemaining((prev) => {
         if (prev <= 1) {
           clearInterval(countdownInterval);
-          // Auto-close and mark as not taken
           setIsAutoClosing(true);
           return 0;
         }
@@ -55,19 +67,13 @@ export default function ReminderModal({
     return () => clearInterval(countdownInterval);
   }, []);
 
-  /**
-   * Auto-mark as not taken when 5 minutes elapse
-   */
   useEffect(() => {
     if (isAutoClosing && !isLoading) {
-      void handleAutoMarkAsMissed();
+      onClose();
     }
   }, [isAutoClosing, isLoading]);
 
-  /**
-   * Auto-mark medication as not taken
-   */
-  const handleAutoMarkAsMissed = async () => {
+  const handleMarkAsTaken = async () => {
     if (!user) return;
     setIsLoading(true);
 
@@ -76,56 +82,52 @@ export default function ReminderModal({
         userId: user.id,
         medicationId: medication.id,
         reminderTime: medication.reminder_time,
-        status: 'not_taken_auto',
-        skipIfCompleted: true,
+        scheduledTime: medication.scheduled_time,
+        status: 'taken',
       });
-      onMissed();
+      onTaken();
       onClose();
     } catch (error) {
-      console.error('Error auto-marking medication as not taken:', error);
-      onClose();
+      console.error('Error marking medication as taken:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleMarkAsTaken = async () => {
+  const handleMarkAsMissed = async () => {
     if (!user) return;
     setIsLoading(true);
 
     try {
-      clearAutoMarkTimeout(user.id, medication.id, medication.reminder_time);
       await recordAdherenceStatus({
         userId: user.id,
         medicationId: medication.id,
         reminderTime: medication.reminder_time,
-        status: 'taken',
+        scheduledTime: medication.scheduled_time,
+        status: 'missed',
       });
-      onTaken();
+      onMissed();
       onClose();
     } catch (error) {
-      console.error('Error marking medication as taken:', error);
+      console.error('Error marking medication as missed:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleMarkAsMissed = async () => {
+  const handleSnooze = async (snoozeMinutes: number) => {
     if (!user) return;
     setIsLoading(true);
 
     try {
-      clearAutoMarkTimeout(user.id, medication.id, medication.reminder_time);
-      await recordAdherenceStatus({
+      await snoozeReminder({
         userId: user.id,
-        medicationId: medication.id,
-        reminderTime: medication.reminder_time,
-        status: 'missed',
+        medication,
+        minutes: snoozeMinutes,
       });
-      onMissed();
       onClose();
     } catch (error) {
-      console.error('Error marking medication as missed:', error);
+      console.error('Error snoozing medication reminder:', error);
     } finally {
       setIsLoading(false);
     }
@@ -170,7 +172,7 @@ export default function ReminderModal({
           <div className="mb-6 flex items-center justify-center gap-2 rounded-lg bg-blue-50 px-4 py-2">
             <Clock className="h-4 w-4 text-blue-600" />
             <span className="text-sm font-semibold text-blue-600">
-              {isAutoClosing ? 'Auto-marking as not taken...' : `Respond in: ${timerDisplay}`}
+              {isAutoClosing ? 'Closing reminder...' : `Respond in: ${timerDisplay}`}
             </span>
           </div>
 
@@ -202,6 +204,21 @@ export default function ReminderModal({
             </button>
           </div>
 
+          {/* Snooze Options */}
+          <div className="mt-3 flex w-full items-center justify-center gap-2">
+            <AlarmClock className="h-4 w-4 text-gray-400" />
+            {SNOOZE_OPTIONS_MINUTES.map((snoozeMinutes) => (
+              <button
+                key={snoozeMinutes}
+                onClick={() => handleSnooze(snoozeMinutes)}
+                disabled={isLoading || isAutoClosing}
+                className="rounded-full border border-gray-200 px-3 py-1 text-xs font-semibold text-gray-600 transition hover:border-blue-300 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Snooze {snoozeMinutes} min
+              </button>
+            ))}
+          </div>
+
           {/* Info Message */}
           <p className="mt-4 text-xs text-gray-400">
             Your response will be recorded
@@ -211,3 +228,138 @@ export default function ReminderModal({
     </div>
   );
 }
+
+function getOverdueKey(reminder: MedicationWithSchedule): string {
+  return `${reminder.id}:${reminder.scheduled_time ?? reminder.reminder_time}`;
+}
+
+/**
+ * Batch version of the reminder modal for doses that came due while the app
+ * was closed or asleep
+ */
+export function OverdueRemindersModal({ reminders, onClose, onResolved }: OverdueRemindersModalProps) {
+  const { user } = useAuth();
+  const [pendingKeys, setPendingKeys] = useState<Set<string>>(new Set());
+  const timeZone = getReminderTimeZone();
+  const today = getTodayDateString();
+
+  const formatScheduledAt = (reminder: MedicationWithSchedule) => {
+    if (!reminder.scheduled_time) return reminder.reminder_time;
+    const local = getZonedDateParts(new Date(reminder.scheduled_time), timeZone);
+    return local.date === today ? local.time : `${local.date} ${local.time}`;
+  };
+
+  const recordStatus = async (batch: MedicationWithSchedule[], status: AdherenceStatus) => {
+    if (!user || batch.length === 0) return;
+    const keys = batch.map(getOverdueKey);
+    setPendingKeys((prev) => new Set([...prev, ...keys]));
+
+    for (const reminder of batch) {
+      try {
+        await recordAdherenceStatus({
+          userId: user.id,
+          medicationId: reminder.id,
+          reminderTime: reminder.reminder_time,
+          scheduledTime: reminder.scheduled_time,
+          status,
+          skipIfCompleted: true,
+        });
+        onResolved(reminder);
+      } catch (error) {
+        console.error(`Error marking overdue medication as ${status}:`, error);
+      }
+    }
+
+    setPendingKeys((prev) => {
+      const next = new Set(prev);
+      keys.forEach((key) => next.delete(key));
+      return next;
+    });
+  };
+
+  const isBusy = pendingKeys.size > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/30 backdrop-blur-sm">
+      <div className="relative w-full max-w-md rounded-2xl bg-white shadow-lg animate-in fade-in zoom-in-95 duration-300 mx-4">
+        <button
+          onClick={onClose}
+          disabled={isBusy}
+          className="absolute right-4 top-4 rounded-full p-2 text-gray-400 transition hover:bg-gray-100 hover:text-gray-600 disabled:opacity-50 z-10"
+          aria-label="Close overdue reminders"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <div className="flex flex-col px-6 py-8 sm:px-8">
+          <div className="mb-4 flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-amber-50">
+              <AlertCircle className="h-6 w-6 text-amber-500" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">
+                You have {reminders.length} overdue {reminders.length === 1 ? 'dose' : 'doses'}
+              </h2>
+              <p className="text-sm text-gray-500">Did you take these while the app was closed?</p>
+            </div>
+          </div>
+
+          <ul className="mb-6 max-h-72 space-y-2 overflow-y-auto">
+            {reminders.map((reminder) => {
+              const key = getOverdueKey(reminder);
+              const isPending = pendingKeys.has(key);
+              return (
+                <li
+                  key={key}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-gray-200 px-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-gray-900">{reminder.medication_name}</p>
+                    <p className="flex items-center gap-1 text-xs text-gray-500">
+                      <Clock className="h-3 w-3" />
+                      {formatScheduledAt(reminder)} - {reminder.dosage}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => recordStatus([reminder], 'taken')}
+                      disabled={isPending}
+                      className="rounded-lg bg-emerald-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Taken
+                    </button>
+                    <button
+                      onClick={() => recordStatus([reminder], 'missed')}
+                      disabled={isPending}
+                      className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-semibold text-gray-700 transition hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Missed
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex w-full flex-col gap-3 sm:flex-row">
+            <button
+              onClick={() => recordStatus(reminders, 'taken')}
+              disabled={isBusy}
+              className="flex-1 rounded-lg bg-emerald-500 hover:bg-emerald-600 px-6 py-3 font-semibold text-white text-sm transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <CheckCircle className="h-5 w-5" />
+              Mark all taken
+            </button>
+            <button
+              onClick={() => recordStatus(reminders, 'missed')}
+              disabled={isBusy}
+              className="flex-1 rounded-lg bg-white border border-gray-300 hover:bg-gray-50 px-6 py-3 font-semibold text-gray-700 text-sm transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Mark all missed
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
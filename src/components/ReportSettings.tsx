@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { CheckCircle, AlertCircle, FileBarChart } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface StatusMessage {
+  type: 'success' | 'error';
+  message: string;
+}
+
+interface ReportSettingsProps {
+  user: User;
+  weeklyReport: boolean;
+  monthlyReport: boolean;
+  onSaved: (weeklyReport: boolean, monthlyReport: boolean) => void;
+}
+
+export default function ReportSettings({ user, weeklyReport, monthlyReport, onSaved }: ReportSettingsProps) {
+  const [weekly, setWeekly] = useState(weeklyReport);
+  const [monthly, setMonthly] = useState(monthlyReport);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setStatus(null);
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ weekly_report: weekly, monthly_report: monthly, updated_at: new Date().toISOString() })
+      .eq('id', user.id);
+
+    if (error) {
+      setStatus({ type: 'error', message: `Unable to save report settings: ${error.message}` });
+    } else {
+      onSaved(weekly, monthly);
+      setStatus({ type: 'success', message: 'Report settings saved.' });
+    }
+
+    setSaving(false);
+  };
+
+  return (
+    <section className="surface-card px-6 py-6 sm:px-8 sm:py-7">
+      <div className="flex items-center gap-3">
+        <span className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-100 text-emerald-600">
+          <FileBarChart size={20} />
+        </span>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 sm:text-xl">Adherence reports</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            An email summary of your adherence, missed doses, streaks and upcoming appointments. Family members
+            marked "Send reports" below get a copy.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-3 sm:grid-cols-2">
+        {(
+          [
+            ['Weekly report', 'Every Monday morning, covering the week before.', weekly, setWeekly],
+            ['Monthly report', 'On the 1st of each month, covering the month before.', monthly, setMonthly],
+          ] as [string, string, boolean, (value: boolean) => void][]
+        ).map(([title, description, enabled, setEnabled]) => (
+          <button
+            key={title}
+            type="button"
+            onClick={() => setEnabled(!enabled)}
+            aria-pressed={enabled}
+            className={`rounded-2xl border px-5 py-4 text-left transition ${enabled
+              ? 'border-blue-500 bg-blue-50 shadow-sm'
+              : 'border-slate-200 bg-white hover:border-blue-200 hover:bg-blue-50/60'
+              }`}
+          >
+            <span className="text-sm font-semibold text-slate-900">{title}</span>
+            <p className="mt-1 text-sm text-slate-600">{description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6 flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="action-primary bg-blue-600 hover:bg-blue-700 focus-visible:outline-blue-600 sm:w-auto"
+        >
+          {saving ? 'Saving...' : 'Save report settings'}
+        </button>
+      </div>
+
+      {status && (
+        <div
+          className={`mt-6 flex items-start gap-3 rounded-2xl border px-4 py-4 text-sm ${status.type === 'success'
+            ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+            : 'border-rose-200 bg-rose-50 text-rose-700'
+            }`}
+        >
+          {status.type === 'success' ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+          <span className="font-medium">{status.message}</span>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, Loader2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getAdherenceRate } from '../lib/adherenceAnalytics';
+import { getReminderTimeZone, getTodayDateString } from '../lib/reminderService';
+import { addDays, getZonedDateParts } from '../lib/timezone';
+import {
+  buildVisitReportPdf,
+  loadVisitReportData,
+  saveMissedDoseNote,
+  VisitAppointment,
+  VisitReportData,
+} from '../lib/visitReport';
+
+interface VisitReportExportProps {
+  appointment?: VisitAppointment | null;
+  onClose: () => void;
+}
+
+const RANGE_PRESETS = [30, 90, 180];
+
+export default function VisitReportExport({ appointment, onClose }: VisitReportExportProps) {
+  const { user } = useAuth();
+  const today = getTodayDateString();
+  const [from, setFrom] = useState(addDays(today, -(RANGE_PRESETS[0] - 1)));
+  const [to, setTo] = useState(today);
+  const [data, setData] = useState<VisitReportData | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const rangeInvalid = !from || !to || from > to;
+
+  useEffect(() => {
+    if (!user || rangeInvalid) {
+      setLoading(false);
+      return;
+    }
+
+    // Only the latest range may fill the form; earlier loads can finish later
+    let ignore = false;
+
+    const loadReport = async () => {
+      setLoading(true);
+      const report = await loadVisitReportData(user.id, from, to);
+      if (ignore) return;
+
+      setData(report);
+      setNotes(Object.fromEntries((report?.missedDoses ?? []).map((dose) => [dose.id, dose.notes ?? ''])));
+      setLoading(false);
+    };
+
+    loadReport();
+    return () => {
+      ignore = true;
+    };
+  }, [user, from, to, rangeInvalid]);
+
+  const saveNote = async (logId: string) => {
+    const dose = data?.missedDoses.find((entry) => entry.id === logId);
+    if (!dose || (dose.notes ?? '') === notes[logId]) return;
+
+    try {
+      await saveMissedDoseNote(logId, notes[logId]);
+      setData((current) => current && {
+        ...current,
+        missedDoses: current.missedDoses.map((entry) =>
+          entry.id === logId ? { ...entry, notes: notes[logId].trim() || null } : entry
+        ),
+      });
+    } catch (error) {
+      console.error('Error saving missed dose note:', error);
+      alert('Failed to save the note');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!data || rangeInvalid) return;
+
+    // Notes typed but not yet blurred still go into the PDF
+    const report = {
+      ...data,
+      missedDoses: data.missedDoses.map((dose) => ({ ...dose, notes: notes[dose.id]?.trim() || null })),
+    };
+    buildVisitReportPdf(report, appointment).save(`medibot-visit-summary-${to}.pdf`);
+  };
+
+  const timeZone = getReminderTimeZone();
+  const overall = data ? getAdherenceRate(data.logs) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-2xl rounded-3xl bg-white p-6 md:p-8 shadow-2xl overflow-y-auto max-h-[90vh]">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <FileText className="text-blue-600" /> Doctor Visit PDF
+          </h2>
+          <button onClick={onClose} className="rounded-full p-2 hover:bg-slate-100 transition">
+            <X size={24} className="text-slate-500" />
+          </button>
+        </div>
+
+        {appointment && (
+          <p className="mb-4 rounded-2xl bg-blue-50 px-4 py-3 text-sm text-blue-800">
+            For your visit with {appointment.doctor_name} on {new Date(appointment.appointment_date).toLocaleString()}
+          </p>
+        )}
+
+        <div className="space-y-3">
+          <label className="block text-sm font-semibold text-slate-700">Adherence range</label>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="form-input rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+            />
+            <span className="text-sm text-slate-500">to</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              max={today}
+              onChange={(e) => setTo(e.target.value)}
+              className="form-input rounded-xl border-slate-200 bg-slate-50 py-2 px-3"
+            />
+            {RANGE_PRESETS.map((days) => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => {
+                  setFrom(addDays(today, -(days - 1)));
+                  setTo(today);
+                }}
+                className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100"
+              >
+                Last {days} days
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {rangeInvalid ? (
+          <p className="mt-6 text-sm text-red-600">Choose a start and an end date, with the start on or before the end.</p>
+        ) : loading ? (
+          <div className="mt-6 flex items-center gap-2 text-sm text-slate-500">
+            <Loader2 className="animate-spin" size={16} /> Loading your records...
+          </div>
+        ) : !data ? (
+          <p className="mt-6 text-sm text-red-600">Could not load your records. Try again later.</p>
+        ) : (
+          <div className="mt-6 space-y-5">
+            <p className="text-sm text-slate-600">
+              The PDF lists your health profile, {data.medications.length} active medication
+              {data.medications.length === 1 ? '' : 's'} with their schedules, and{' '}
+              {overall?.rate === null ? 'no recorded doses' : `${overall?.rate}% adherence (${overall?.taken} of ${overall?.total} doses)`}{' '}
+              in this range.
+            </p>
+
+            <div>
+              <h3 className="text-sm font-semibold text-slate-700">Recent missed doses</h3>
+              {data.missedDoses.length === 0 ? (
+                <p className="mt-2 text-sm text-slate-500">No missed doses in this range.</p>
+              ) : (
+                <>
+                  <p className="mt-1 text-xs text-slate-500">Add a note on why a dose was missed so your doctor sees it.</p>
+                  <ul className="mt-3 space-y-3">
+                    {data.missedDoses.map((dose) => {
+                      const { date, time } = getZonedDateParts(new Date(dose.scheduled_time), timeZone);
+                      return (
+                        <li key={dose.id} className="rounded-2xl border border-slate-200 px-4 py-3">
+                          <p className="text-sm font-semibold text-slate-800">
+                            {dose.medications?.medication_name ?? 'Unknown medication'}
+                            <span className="ml-2 font-normal text-slate-500">
+                              {date} {time} · {dose.status === 'missed' ? 'marked missed' : 'not answered'}
+                            </span>
+                          </p>
+                          <input
+                            type="text"
+                            value={notes[dose.id] ?? ''}
+                            placeholder="e.g. felt nauseous, ran out, was travelling"
+                            onChange={(e) => setNotes({ ...notes, [dose.id]: e.target.value })}
+                            onBlur={() => saveNote(dose.id)}
+                            className="form-input mt-2 w-full rounded-xl border-slate-200 bg-slate-50 py-2 px-3 text-sm"
+                          />
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-8 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="action-secondary">
+            Cancel
+          </button>
+          <button type="button" onClick={handleDownload} disabled={loading || !data || rangeInvalid} className="action-primary">
+            <Download size={18} />
+            Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { getBrowserTimeZone } from '../lib/timezone';
 
 interface AuthContextType {
   user: User | null;
@@ -67,6 +68,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             full_name: fullName,
             email: email,
             preferred_channel: 'email',
+            timezone: getBrowserTimeZone(),
           });
 
         if (profileError) return { error: profileError };
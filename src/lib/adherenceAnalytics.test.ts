@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AnalyticsLog,
+  getAdherenceRate,
+  getLogsForDays,
+  getMostMissedSlot,
+  getStreaks,
+  loadAnalyticsLogs,
+  summarizeDays,
+  summarizeTimeSlots,
+} from './adherenceAnalytics';
+
+// Stand-in for adherence_logs, served a page at a time like PostgREST
+const db = vi.hoisted(() => ({ rows: [] as { medication_id: string; scheduled_time: string; status: string }[] }));
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        gte: () => query,
+        lt: () => query,
+        order: () => query,
+        range: async (from: number, to: number) => ({ data: db.rows.slice(from, to + 1), error: null }),
+      };
+      return query;
+    },
+  },
+}));
+
+function log(scheduledTime: string, status: string): AnalyticsLog {
+  return { medication_id: 'med-1', scheduled_time: scheduledTime, status };
+}
+
+describe('getAdherenceRate', () => {
+  it('counts only answered doses', () => {
+    const logs = [
+      log('2025-06-01T08:00:00Z', 'taken'),
+      log('2025-06-01T20:00:00Z', 'missed'),
+      log('2025-06-02T08:00:00Z', 'not_taken_auto'),
+      log('2025-06-02T20:00:00Z', 'snoozed'),
+    ];
+    expect(getAdherenceRate(logs)).toEqual({ taken: 1, total: 3, rate: 33 });
+    expect(getAdherenceRate([log('2025-06-01T08:00:00Z', 'snoozed')])).toEqual({ taken: 0, total: 0, rate: null });
+  });
+});
+
+describe('days', () => {
+  it('keeps the doses of the last local days, today included', () => {
+    // 03:00 UTC on 2 June is still 1 June in New York
+    const logs = [log('2025-05-31T12:00:00Z', 'taken'), log('2025-06-01T12:00:00Z', 'taken'), log('2025-06-02T03:00:00Z', 'taken')];
+    const now = new Date('2025-06-02T14:00:00Z');
+    expect(getLogsForDays(logs, 2, 'America/New_York', now)).toEqual(logs.slice(1));
+    expect(getLogsForDays(logs, 1, 'America/New_York', now)).toEqual([]);
+  });
+
+  it('summarises answered doses per local day, oldest first', () => {
+    const logs = [
+      log('2025-06-02T08:00:00Z', 'not_taken_auto'),
+      log('2025-06-01T08:00:00Z', 'taken'),
+      log('2025-06-01T20:00:00Z', 'missed'),
+      log('2025-06-02T20:00:00Z', 'snoozed'),
+    ];
+    expect(summarizeDays(logs, 'UTC')).toEqual([
+      { date: '2025-06-01', taken: 1, missed: 1, auto: 0 },
+      { date: '2025-06-02', taken: 0, missed: 0, auto: 1 },
+    ]);
+  });
+
+  it('counts streaks over days with every dose taken, skipping days with nothing due', () => {
+    const logs = [
+      log('2025-06-01T08:00:00Z', 'taken'),
+      log('2025-06-02T08:00:00Z', 'taken'),
+      log('2025-06-03T08:00:00Z', 'taken'),
+      log('2025-06-04T08:00:00Z', 'missed'),
+      log('2025-06-05T08:00:00Z', 'taken'),
+      log('2025-06-08T08:00:00Z', 'taken'),
+    ];
+    expect(getStreaks(logs, 'UTC')).toEqual({ current: 2, best: 3 });
+    expect(getStreaks([], 'UTC')).toEqual({ current: 0, best: 0 });
+  });
+});
+
+describe('time slots', () => {
+  it('groups doses by the local time they were due, night spanning midnight', () => {
+    const logs = [
+      log('2025-06-01T12:00:00Z', 'taken'), // 08:00 in New York
+      log('2025-06-02T02:00:00Z', 'missed'), // 22:00
+      log('2025-06-02T07:00:00Z', 'not_taken_auto'), // 03:00
+      log('2025-06-02T19:00:00Z', 'taken'), // 15:00
+    ];
+    const slots = summarizeTimeSlots(logs, 'America/New_York');
+
+    expect(slots.map(({ slot, taken, total, missed }) => ({ slot, taken, total, missed }))).toEqual([
+      { slot: 'morning', taken: 1, total: 1, missed: 0 },
+      { slot: 'afternoon', taken: 1, total: 1, missed: 0 },
+      { slot: 'evening', taken: 0, total: 0, missed: 0 },
+      { slot: 'night', taken: 0, total: 2, missed: 2 },
+    ]);
+    expect(getMostMissedSlot(slots)?.slot).toBe('night');
+    expect(getMostMissedSlot(summarizeTimeSlots([log('2025-06-01T12:00:00Z', 'taken')], 'UTC'))).toBeNull();
+  });
+});
+
+describe('loadAnalyticsLogs', () => {
+  it('reads every page', async () => {
+    db.rows = Array.from({ length: 1001 }, (_, index) => log(new Date(Date.UTC(2025, 0, 1) + index * 60000).toISOString(), 'taken'));
+    const logs = await loadAnalyticsLogs('user-1', new Date('2025-01-01T00:00:00Z'));
+    expect(logs).toHaveLength(1001);
+    expect(logs[1000]).toEqual(db.rows[1000]);
+  });
+});
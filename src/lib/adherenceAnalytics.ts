@@ -0,0 +1,172 @@
+/**
+ * Adherence statistics computed from adherence_logs: rates, streaks, a
+ * per-day summary for the calendar heatmap and a time-of-day breakdown.
+ * Days and time slots are local to the user's reminder timezone.
+ */
+import { supabase } from './supabase';
+import { addDays, getZonedDateParts } from './timezone';
+
+export interface AnalyticsLog {
+  medication_id: string;
+  scheduled_time: string;
+  status: string;
+}
+
+export interface AdherenceRate {
+  taken: number;
+  total: number; // answered doses: taken, missed or auto-finalized
+  rate: number | null; // 0-100, null without answered doses
+}
+
+export interface Streaks {
+  current: number; // days in a row, up to today, with every dose taken
+  best: number;
+}
+
+export interface DaySummary {
+  date: string; // YYYY-MM-DD
+  taken: number;
+  missed: number; // marked missed by the user
+  auto: number; // finalized as not taken by the server
+}
+
+export type TimeSlot = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface SlotSummary extends AdherenceRate {
+  slot: TimeSlot;
+  label: string;
+  missed: number;
+}
+
+export const TIME_SLOTS: { slot: TimeSlot; label: string; from: number; to: number }[] = [
+  { slot: 'morning', label: 'Morning (5-12)', from: 5, to: 12 },
+  { slot: 'afternoon', label: 'Afternoon (12-17)', from: 12, to: 17 },
+  { slot: 'evening', label: 'Evening (17-21)', from: 17, to: 21 },
+  { slot: 'night', label: 'Night (21-5)', from: 21, to: 5 },
+];
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Snoozed doses are still open, so they do not count either way
+const ANSWERED_STATUSES = ['taken', 'missed', 'not_taken_auto'];
+
+function isAnswered(log: AnalyticsLog): boolean {
+  return ANSWERED_STATUSES.includes(log.status);
+}
+
+export function getAdherenceRate(logs: AnalyticsLog[]): AdherenceRate {
+  const answered = logs.filter(isAnswered);
+  const taken = answered.filter((log) => log.status === 'taken').length;
+  return {
+    taken,
+    total: answered.length,
+    rate: answered.length > 0 ? Math.round((taken / answered.length) * 100) : null,
+  };
+}
+
+/**
+ * Logs of doses due on the last `days` local days, today included
+ */
+export function getLogsForDays(logs: AnalyticsLog[], days: number, timeZone: string, now: Date = new Date()): AnalyticsLog[] {
+  const firstDate = addDays(getZonedDateParts(now, timeZone).date, -(days - 1));
+  return logs.filter((log) => getZonedDateParts(new Date(log.scheduled_time), timeZone).date >= firstDate);
+}
+
+/**
+ * Answered doses per local day, oldest first
+ */
+export function summarizeDays(logs: AnalyticsLog[], timeZone: string): DaySummary[] {
+  const days = new Map<string, DaySummary>();
+
+  for (const log of logs.filter(isAnswered)) {
+    const date = getZonedDateParts(new Date(log.scheduled_time), timeZone).date;
+    const day = days.get(date) ?? { date, taken: 0, missed: 0, auto: 0 };
+    if (log.status === 'taken') day.taken += 1;
+    else if (log.status === 'missed') day.missed += 1;
+    else day.auto += 1;
+    days.set(date, day);
+  }
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Runs of days on which every answered dose was taken. Days without any
+ * answered dose (nothing due, e.g. on a weekly schedule) neither extend
+ * nor break a streak.
+ */
+export function getStreaks(logs: AnalyticsLog[], timeZone: string): Streaks {
+  let best = 0;
+  let run = 0;
+
+  for (const day of summarizeDays(logs, timeZone)) {
+    run = day.missed + day.auto === 0 ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+
+  return { current: run, best };
+}
+
+function getSlot(time: string): TimeSlot {
+  const hour = Number(time.slice(0, 2));
+  const slot = TIME_SLOTS.find(({ from, to }) => (from < to ? hour >= from && hour < to : hour >= from || hour < to));
+  return slot?.slot ?? 'night';
+}
+
+/**
+ * Adherence per time of day, by the local time each dose was due
+ */
+export function summarizeTimeSlots(logs: AnalyticsLog[], timeZone: string): SlotSummary[] {
+  return TIME_SLOTS.map(({ slot, label }) => {
+    const slotLogs = logs.filter(
+      (log) => getSlot(getZonedDateParts(new Date(log.scheduled_time), timeZone).time) === slot
+    );
+    const rate = getAdherenceRate(slotLogs);
+    return { slot, label, ...rate, missed: rate.total - rate.taken };
+  });
+}
+
+/**
+ * The slot with the most missed doses, if any dose was missed at all
+ */
+export function getMostMissedSlot(slots: SlotSummary[]): SlotSummary | null {
+  return slots.reduce<SlotSummary | null>(
+    (worst, slot) => (slot.missed > 0 && (!worst || slot.missed > worst.missed) ? slot : worst),
+    null
+  );
+}
+
+/**
+ * Scheduled-dose logs (as-needed doses left out) due since a given instant,
+ * and before `until` when given. Throws rather than returning part of them.
+ */
+export async function loadAnalyticsLogs(userId: string, since: Date, until?: Date): Promise<AnalyticsLog[]> {
+  const logs: AnalyticsLog[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('adherence_logs')
+      .select('medication_id, scheduled_time, status')
+      .eq('user_id', userId)
+      .eq('is_prn', false)
+      .gte('scheduled_time', since.toISOString());
+
+    if (until) {
+      query = query.lt('scheduled_time', until.toISOString());
+    }
+
+    // id breaks ties between doses due at the same time, so no row falls between pages
+    const { data, error } = await query
+      .order('scheduled_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    logs.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return logs;
+}
@@ -0,0 +1,152 @@
+/**
+ * IndexedDB-backed outbox for adherence actions.
+ * Every Taken/Missed/Snooze/auto action is stored here first and removed once it has
+ * been written to adherence_logs, so taps made on a flaky connection survive
+ * reloads and are replayed when the browser comes back online.
+ */
+
+export interface AdherenceOutboxEntry {
+  id: string; // one entry per dose; a newer action for the same dose replaces it
+  userId: string;
+  medicationId: string;
+  reminderTime: string;
+  scheduledTime: string; // UTC timestamp of the dose, as stored in adherence_logs
+  status: 'taken' | 'missed' | 'snoozed' | 'not_taken_auto';
+  snoozedUntil?: string; // when a snoozed dose is due again
+  skipIfCompleted: boolean;
+  clientRecordedAt: string; // when the user (or auto-mark) decided, not when it synced
+  attempts: number;
+}
+
+const DB_NAME = 'medibot-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'adherence-outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+export function getOutboxEntryId(userId: string, medicationId: string, scheduledTime: string): string {
+  return `${userId}:${medicationId}:${new Date(scheduledTime).toISOString()}`;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('userId', 'userId', { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry later, e.g. after private browsing blocked the first open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to outbox changes (entries added, synced or dropped)
+ */
+export function onAdherenceOutboxChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getAdherenceOutboxEntry(id: string): Promise<AdherenceOutboxEntry | undefined> {
+  return runTransaction<AdherenceOutboxEntry | undefined>('readonly', (store) => store.get(id));
+}
+
+export async function putAdherenceOutboxEntry(entry: AdherenceOutboxEntry): Promise<void> {
+  await runTransaction('readwrite', (store) => store.put(entry));
+  notifyListeners();
+}
+
+/**
+ * Replace (or, with `next` null, delete) a stored entry only while it still
+ * holds the same action. Read and write share one transaction, so a newer
+ * tap queued for the dose in the meantime is never lost. Returns false when
+ * the entry was superseded.
+ */
+async function replaceIfUnchanged(
+  entry: AdherenceOutboxEntry,
+  next: AdherenceOutboxEntry | null
+): Promise<boolean> {
+  const db = await openDatabase();
+  const replaced = await new Promise<boolean>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(entry.id);
+    let matched = false;
+    request.onsuccess = () => {
+      const current = request.result as AdherenceOutboxEntry | undefined;
+      matched = current?.clientRecordedAt === entry.clientRecordedAt;
+      if (!matched) return;
+      if (next) store.put(next);
+      else store.delete(entry.id);
+    };
+    transaction.oncomplete = () => resolve(matched);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  if (replaced) notifyListeners();
+  return replaced;
+}
+
+/**
+ * Drop a synced (or abandoned) action, unless a newer one replaced it
+ */
+export function removeAdherenceOutboxEntry(entry: AdherenceOutboxEntry): Promise<boolean> {
+  return replaceIfUnchanged(entry, null);
+}
+
+/**
+ * Count a failed attempt on an action, unless a newer one replaced it
+ */
+export function recordAdherenceOutboxAttempt(entry: AdherenceOutboxEntry): Promise<boolean> {
+  return replaceIfUnchanged(entry, { ...entry, attempts: entry.attempts + 1 });
+}
+
+/**
+ * Actions still waiting to be written, oldest first
+ */
+export async function getPendingAdherenceActions(userId: string): Promise<AdherenceOutboxEntry[]> {
+  try {
+    const entries = await runTransaction<AdherenceOutboxEntry[]>('readonly', (store) =>
+      store.index('userId').getAll(userId)
+    );
+    return entries.sort((a, b) => a.clientRecordedAt.localeCompare(b.clientRecordedAt));
+  } catch (error) {
+    console.error('Error reading adherence outbox:', error);
+    return [];
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ContraindicationData,
+  describeContraindication,
+  findContraindications,
+  getDrugIdentities,
+} from './contraindications';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+// A slice of the reference data seeded by the contraindications migration
+const reference: Omit<ContraindicationData, 'profile'> = {
+  classes: [
+    { drug_name: 'amoxicillin', class_name: 'penicillin' },
+    { drug_name: 'cephalexin', class_name: 'cephalosporin' },
+    { drug_name: 'ibuprofen', class_name: 'nsaid' },
+  ],
+  rules: [
+    {
+      subject: 'cephalosporin',
+      kind: 'allergy',
+      term: 'penicillin',
+      description: 'Some people allergic to penicillin also react to cephalosporins.',
+    },
+    { subject: 'nsaid', kind: 'condition', term: 'kidney', description: 'NSAIDs can worsen kidney function.' },
+    { subject: 'nsaid', kind: 'condition', term: 'asthma', description: 'NSAIDs can trigger asthma attacks in some people.' },
+  ],
+};
+
+function withProfile(allergies: string[], medical_conditions: string[] = []): ContraindicationData {
+  return { ...reference, profile: { allergies, medical_conditions } };
+}
+
+describe('getDrugIdentities', () => {
+  it('lists the generic names the medication mentions and their classes', () => {
+    expect(getDrugIdentities('Amoxicillin 500mg', reference.classes)).toEqual(['amoxicillin', 'penicillin']);
+    expect(getDrugIdentities('Vitamin D', reference.classes)).toEqual([]);
+  });
+});
+
+describe('findContraindications', () => {
+  it('warns about an allergy to the drug class', () => {
+    expect(findContraindications('Amoxicillin 500mg', withProfile(['Penicillin']))).toEqual([
+      {
+        kind: 'allergy',
+        profileEntry: 'Penicillin',
+        subject: 'penicillin',
+        description: 'You listed an allergy to Penicillin.',
+      },
+    ]);
+  });
+
+  it('warns about an allergy to a drug missing from the reference data', () => {
+    expect(findContraindications('Vitamin D', withProfile(['vitamin d']))).toMatchObject([
+      { kind: 'allergy', subject: 'vitamin d' },
+    ]);
+  });
+
+  it('warns about cross-reactions between classes', () => {
+    expect(findContraindications('Cephalexin', withProfile(['penicillin (rash)']))).toEqual([
+      {
+        kind: 'allergy',
+        profileEntry: 'penicillin (rash)',
+        subject: 'cephalosporin',
+        description: 'Some people allergic to penicillin also react to cephalosporins.',
+      },
+    ]);
+  });
+
+  it('warns about each condition the drug class can worsen', () => {
+    const warnings = findContraindications('Ibuprofen', withProfile([], ['Chronic kidney disease', 'Asthma', 'Migraine']));
+    expect(warnings.map(describeContraindication)).toEqual([
+      'Condition (Chronic kidney disease) conflicts with nsaid: NSAIDs can worsen kidney function.',
+      'Condition (Asthma) conflicts with nsaid: NSAIDs can trigger asthma attacks in some people.',
+    ]);
+  });
+
+  it('finds nothing for an unrelated profile', () => {
+    expect(findContraindications('Paracetamol', withProfile(['penicillin'], ['asthma']))).toEqual([]);
+  });
+});
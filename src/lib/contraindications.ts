@@ -0,0 +1,128 @@
+import { supabase } from './supabase';
+import { mentionsDrug } from './interactions';
+
+/**
+ * Allergy and condition checks for a medication against the user's health
+ * profile (user_profiles.allergies / medical_conditions), using the
+ * drug_classes and drug_contraindications reference tables.
+ */
+
+export type ContraindicationKind = 'allergy' | 'condition';
+
+export interface DrugClass {
+  drug_name: string;
+  class_name: string;
+}
+
+export interface Contraindication {
+  subject: string; // drug or class name
+  kind: ContraindicationKind;
+  term: string; // looked for in the profile entry
+  description: string;
+}
+
+export interface HealthProfileEntries {
+  allergies: string[];
+  medical_conditions: string[];
+}
+
+export interface ContraindicationWarning {
+  kind: ContraindicationKind;
+  profileEntry: string; // the allergy or condition as the user wrote it
+  subject: string; // the drug or class it conflicts with
+  description: string;
+}
+
+export interface ContraindicationData {
+  profile: HealthProfileEntries;
+  classes: DrugClass[];
+  rules: Contraindication[];
+}
+
+/**
+ * Generic names the medication name mentions, followed by their classes
+ */
+export function getDrugIdentities(medicationName: string, classes: DrugClass[]): string[] {
+  const drugs = classes.filter((entry) => mentionsDrug(medicationName, entry.drug_name));
+  return [...new Set([...drugs.map((entry) => entry.drug_name), ...drugs.map((entry) => entry.class_name)])];
+}
+
+/**
+ * Profile allergies and conditions that conflict with a medication
+ */
+export function findContraindications(medicationName: string, data: ContraindicationData): ContraindicationWarning[] {
+  const identities = getDrugIdentities(medicationName, data.classes);
+  const warnings: ContraindicationWarning[] = [];
+
+  for (const allergy of data.profile.allergies) {
+    // An allergy to the drug itself or to its class, e.g. penicillin -> amoxicillin
+    const direct = [...identities, medicationName.toLowerCase()].find(
+      (identity) => mentionsDrug(allergy, identity) || mentionsDrug(identity, allergy)
+    );
+    if (direct) {
+      warnings.push({
+        kind: 'allergy',
+        profileEntry: allergy,
+        subject: direct,
+        description: `You listed an allergy to ${allergy}.`,
+      });
+      continue;
+    }
+
+    const crossReaction = data.rules.find(
+      (rule) => rule.kind === 'allergy' && identities.includes(rule.subject) && allergy.toLowerCase().includes(rule.term)
+    );
+    if (crossReaction) {
+      warnings.push({
+        kind: 'allergy',
+        profileEntry: allergy,
+        subject: crossReaction.subject,
+        description: crossReaction.description,
+      });
+    }
+  }
+
+  for (const condition of data.profile.medical_conditions) {
+    const rule = data.rules.find(
+      (entry) => entry.kind === 'condition' && identities.includes(entry.subject) && condition.toLowerCase().includes(entry.term)
+    );
+    if (rule) {
+      warnings.push({ kind: 'condition', profileEntry: condition, subject: rule.subject, description: rule.description });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * The user's allergies and conditions with the reference tables. Throws
+ * when any of them fails to load, so a failed load never reads as "no
+ * conflicts".
+ */
+export async function loadContraindicationData(userId: string): Promise<ContraindicationData> {
+  const [profileResult, classesResult, rulesResult] = await Promise.all([
+    supabase.from('user_profiles').select('allergies, medical_conditions').eq('id', userId).maybeSingle(),
+    supabase.from('drug_classes').select('drug_name, class_name'),
+    supabase.from('drug_contraindications').select('subject, kind, term, description'),
+  ]);
+
+  const error = profileResult.error || classesResult.error || rulesResult.error;
+  if (error) throw error;
+
+  return {
+    profile: {
+      allergies: profileResult.data?.allergies ?? [],
+      medical_conditions: profileResult.data?.medical_conditions ?? [],
+    },
+    classes: classesResult.data ?? [],
+    rules: rulesResult.data ?? [],
+  };
+}
+
+/**
+ * One line per warning, as shown to the user and stored on acknowledgement
+ */
+export function describeContraindication(warning: ContraindicationWarning): string {
+  const label = warning.kind === 'allergy' ? 'Allergy' : 'Condition';
+  return `${label} (${warning.profileEntry}) conflicts with ${warning.subject}: ${warning.description}`;
+}
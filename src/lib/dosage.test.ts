@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import * as browser from './dosage';
+import * as cronJob from '../../supabase/functions/send-reminders/dosage.ts';
+import { parseDosage } from './dosage';
+
+describe('parseDosage', () => {
+  it('reads strength and quantity in either order', () => {
+    expect(parseDosage('2 tablets of 250 mg')).toEqual({
+      dose_strength: 250,
+      dose_unit: 'mg',
+      dose_quantity: 2,
+      dose_form: 'tablet',
+    });
+    expect(parseDosage('500mg, one capsule')).toEqual({
+      dose_strength: 500,
+      dose_unit: 'mg',
+      dose_quantity: 1,
+      dose_form: 'capsule',
+    });
+  });
+
+  it('normalises units, forms and number spellings', () => {
+    expect(parseDosage('50 µg')).toMatchObject({ dose_strength: 50, dose_unit: 'mcg' });
+    expect(parseDosage('1000 iu')).toMatchObject({ dose_strength: 1000, dose_unit: 'IU' });
+    expect(parseDosage('10 Units')).toMatchObject({ dose_strength: 10, dose_unit: 'units' });
+    expect(parseDosage('0,5 mg')).toMatchObject({ dose_strength: 0.5 });
+    expect(parseDosage('½ tab')).toMatchObject({ dose_quantity: 0.5, dose_form: 'tablet' });
+    expect(parseDosage('two puffs')).toMatchObject({ dose_quantity: 2, dose_form: 'puff' });
+    expect(parseDosage('1 patch')).toMatchObject({ dose_quantity: 1, dose_form: 'patch' });
+  });
+
+  it('leaves out what the text does not say', () => {
+    expect(parseDosage('5 ml')).toEqual({ dose_strength: null, dose_unit: null, dose_quantity: 5, dose_form: 'ml' });
+    expect(parseDosage('as directed')).toEqual({
+      dose_strength: null,
+      dose_unit: null,
+      dose_quantity: null,
+      dose_form: null,
+    });
+  });
+
+  it('does not read units out of longer words', () => {
+    expect(parseDosage('2 grams')).toMatchObject({ dose_strength: null, dose_unit: null });
+    expect(parseDosage('3 tablespoons')).toMatchObject({ dose_quantity: null, dose_form: null });
+  });
+});
+
+// Both copies must render the reminder text and the app the same way
+describe.each([
+  ['browser', browser],
+  ['cron job', cronJob],
+])('formatDosage (%s)', (_copy, { formatDosage }) => {
+  it('combines the count and the strength', () => {
+    expect(
+      formatDosage({ dose_strength: 500, dose_unit: 'mg', dose_quantity: 2, dose_form: 'tablet', dosage: '500mg' })
+    ).toBe('2 tablets of 500 mg');
+    expect(formatDosage({ dose_quantity: 1, dose_form: 'patch', dose_strength: 1, dose_unit: '%' })).toBe(
+      '1 patch of 1%'
+    );
+  });
+
+  it('shows whichever half is stored', () => {
+    expect(formatDosage({ dose_strength: 20, dose_unit: 'mcg' })).toBe('20 mcg');
+    expect(formatDosage({ dose_quantity: 5, dose_form: 'ml' })).toBe('5 ml');
+    expect(formatDosage({ dose_quantity: 2, dose_form: 'patch' })).toBe('2 patches');
+  });
+
+  it('falls back to the free text', () => {
+    expect(formatDosage({ dose_strength: 500, dose_unit: null, dosage: 'as directed' })).toBe('as directed');
+    expect(formatDosage({})).toBe('');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Structured dosage stored on medications: strength + unit of the active
+ * ingredient per item, and how many items (or ml) make one intake.
+ * Formatting mirrors supabase/functions/send-reminders/dosage.ts so the app
+ * and the reminder text read the same.
+ */
+
+export type DoseUnit = 'mg' | 'mcg' | 'g' | 'IU' | 'units' | '%';
+
+export type DoseForm = 'tablet' | 'capsule' | 'ml' | 'puff' | 'drop' | 'patch' | 'injection' | 'sachet';
+
+export interface StructuredDosage {
+  dose_strength: number | null; // e.g. 500 (mg per tablet)
+  dose_unit: DoseUnit | null;
+  dose_quantity: number | null; // items (or ml) per intake, e.g. 2
+  dose_form: DoseForm | null;
+}
+
+export const DOSE_UNITS: DoseUnit[] = ['mg', 'mcg', 'g', 'IU', 'units', '%'];
+
+export const DOSE_FORMS: DoseForm[] = ['tablet', 'capsule', 'ml', 'puff', 'drop', 'patch', 'injection', 'sachet'];
+
+const STRENGTH_PATTERN = /(\d+(?:[.,]\d+)?)\s*(mcg|µg|mg|g|iu|units?|%)(?![a-z])/i;
+const QUANTITY_PATTERN =
+  /(\d+(?:[.,]\d+)?|½|half|one|two|three|four)\s*(tablets?|tabs?|capsules?|caps?|ml|puffs?|drops?|patch(?:es)?|injections?|sachets?)(?![a-z])/i;
+const WORD_NUMBERS: Record<string, number> = { '½': 0.5, half: 0.5, one: 1, two: 2, three: 3, four: 4 };
+
+function toNumber(value: string): number {
+  return WORD_NUMBERS[value.toLowerCase()] ?? Number(value.replace(',', '.'));
+}
+
+function toDoseUnit(unit: string): DoseUnit {
+  const lower = unit.toLowerCase();
+  if (lower === 'µg') return 'mcg';
+  if (lower === 'iu') return 'IU';
+  if (lower.startsWith('unit')) return 'units';
+  return lower as DoseUnit;
+}
+
+function toDoseForm(form: string): DoseForm {
+  const lower = form.toLowerCase();
+  if (lower.startsWith('tab')) return 'tablet';
+  if (lower.startsWith('cap')) return 'capsule';
+  if (lower.startsWith('patch')) return 'patch';
+  return lower.replace(/s$/, '') as DoseForm;
+}
+
+/**
+ * Read a free-text dosage such as "500mg", "2 tablets of 250 mg" or "5 ml"
+ */
+export function parseDosage(text: string): StructuredDosage {
+  const strength = text.match(STRENGTH_PATTERN);
+  const quantity = text.match(QUANTITY_PATTERN);
+
+  return {
+    dose_strength: strength ? toNumber(strength[1]) : null,
+    dose_unit: strength ? toDoseUnit(strength[2]) : null,
+    dose_quantity: quantity ? toNumber(quantity[1]) : null,
+    dose_form: quantity ? toDoseForm(quantity[2]) : null,
+  };
+}
+
+function formatCount(quantity: number, form: DoseForm): string {
+  if (form === 'ml') return `${quantity} ml`;
+  const plural = form === 'patch' ? 'patches' : `${form}s`;
+  return `${quantity} ${quantity === 1 ? form : plural}`;
+}
+
+/**
+ * Render a dosage the same way everywhere, e.g. "2 tablets of 500 mg".
+ * Falls back to the free text when nothing structured is stored.
+ */
+export function formatDosage(dosage: Partial<StructuredDosage> & { dosage?: string | null }): string {
+  const strength =
+    dosage.dose_strength != null && dosage.dose_unit
+      ? `${dosage.dose_strength}${dosage.dose_unit === '%' ? '' : ' '}${dosage.dose_unit}`
+      : null;
+  const count = dosage.dose_quantity != null && dosage.dose_form ? formatCount(dosage.dose_quantity, dosage.dose_form) : null;
+
+  if (strength && count) {
+    return `${count} of ${strength}`;
+  }
+  return strength ?? count ?? dosage.dosage ?? '';
+}
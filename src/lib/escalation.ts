@@ -0,0 +1,77 @@
+/**
+ * Escalation ladder for unacknowledged reminders.
+ * Mirrors supabase/functions/send-reminders/escalation.ts so the settings
+ * preview matches what the cron job sends.
+ */
+
+export type EscalationChannel = 'email' | 'whatsapp' | 'telegram' | 'push';
+
+export interface EscalationPolicy {
+  id?: string;
+  user_id?: string;
+  medication_id: string | null;
+  enabled: boolean;
+  repeat_after_minutes: number;
+  repeat_count: number;
+  secondary_channel: EscalationChannel | null;
+  secondary_after_minutes: number;
+  notify_emergency_contacts: boolean;
+  emergency_after_minutes: number;
+}
+
+export type EscalationStepKind = 'repeat' | 'secondary' | 'emergency';
+
+export interface EscalationStep {
+  key: string; // stored in reminder_logs.escalation_step, e.g. 'repeat-10'
+  kind: EscalationStepKind;
+  afterMinutes: number; // counted from the scheduled dose time
+  channel: EscalationChannel | null; // null for emergency contacts (email)
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  medication_id: null,
+  enabled: true,
+  repeat_after_minutes: 10,
+  repeat_count: 1,
+  secondary_channel: null,
+  secondary_after_minutes: 20,
+  notify_emergency_contacts: false,
+  emergency_after_minutes: 30,
+};
+
+/**
+ * Expand a policy into its steps, in the order they fire
+ */
+export function buildEscalationSteps(
+  policy: EscalationPolicy,
+  primaryChannel: EscalationChannel
+): EscalationStep[] {
+  if (!policy.enabled) return [];
+
+  const steps: EscalationStep[] = [];
+
+  for (let repeat = 1; repeat <= policy.repeat_count; repeat += 1) {
+    const afterMinutes = policy.repeat_after_minutes * repeat;
+    steps.push({ key: `repeat-${afterMinutes}`, kind: 'repeat', afterMinutes, channel: primaryChannel });
+  }
+
+  if (policy.secondary_channel && policy.secondary_channel !== primaryChannel) {
+    steps.push({
+      key: `secondary-${policy.secondary_after_minutes}`,
+      kind: 'secondary',
+      afterMinutes: policy.secondary_after_minutes,
+      channel: policy.secondary_channel,
+    });
+  }
+
+  if (policy.notify_emergency_contacts) {
+    steps.push({
+      key: `emergency-${policy.emergency_after_minutes}`,
+      kind: 'emergency',
+      afterMinutes: policy.emergency_after_minutes,
+      channel: null,
+    });
+  }
+
+  return steps.sort((a, b) => a.afterMinutes - b.afterMinutes);
+}
@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import { MedicationSuggestion } from './gemini';
+
+/**
+ * Local formulary in medication_info, searched through the search_formulary
+ * RPC (full-text plus trigram matching, so small typos still find a drug).
+ */
+
+export interface FormularyEntry {
+  drug_name: string;
+  brand_names: string[];
+  strengths: string[];
+  forms: string[];
+  classes: string[];
+  common_dosage: string;
+  side_effects: string;
+  description: string;
+}
+
+// Formulary forms onto the medication types offered in MedicationForm
+const FORM_TYPES: Record<string, string> = {
+  tablet: 'Pill',
+  capsule: 'Pill',
+  syrup: 'Syrup',
+  ml: 'Syrup',
+  injection: 'Injection',
+  puff: 'Inhaler',
+  drop: 'Drops',
+};
+
+export async function searchFormulary(query: string, maxResults = 5): Promise<FormularyEntry[]> {
+  if (query.trim().length < 2) return [];
+
+  const { data, error } = await supabase.rpc('search_formulary', {
+    search_query: query,
+    max_results: maxResults,
+  });
+
+  if (error) {
+    console.error('Error searching formulary:', error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+/**
+ * A formulary entry in the shape of an autocomplete suggestion
+ */
+export function toMedicationSuggestion(entry: FormularyEntry): MedicationSuggestion {
+  const brands = entry.brand_names.length > 0 ? ` (${entry.brand_names.slice(0, 2).join(', ')})` : '';
+
+  return {
+    name: entry.drug_name,
+    dosage: entry.strengths[0] ?? entry.common_dosage,
+    type: FORM_TYPES[entry.forms[0]] ?? 'Other',
+    description: `${entry.description}${brands}`,
+  };
+}
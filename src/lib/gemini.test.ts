@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { PrescriptionModel, readPrescriptionImage } from './gemini';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+// Node has no FileReader; read the file the way the browser would
+class NodeFileReader {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(file: File) {
+    file.arrayBuffer().then((buffer) => {
+      this.result = `data:${file.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('FileReader', NodeFileReader);
+});
+
+const photo = new File(['fake image bytes'], 'prescription.png', { type: 'image/png' });
+
+function mockModel(answer: string) {
+  return vi.fn<PrescriptionModel>(async () => answer);
+}
+
+describe('readPrescriptionImage', () => {
+  it('sends the photo as base64 without the data URL prefix', async () => {
+    const model = mockModel('[]');
+    await readPrescriptionImage(photo, model);
+    expect(model).toHaveBeenCalledWith(
+      { mimeType: 'image/png', data: Buffer.from('fake image bytes').toString('base64') },
+      expect.stringContaining('medication_name')
+    );
+  });
+
+  it('reads an unfenced array answer', async () => {
+    const items = await readPrescriptionImage(
+      photo,
+      mockModel('[{"medication_name": "Lisinopril", "dosage": "10 mg", "frequency": "once daily", "times": ["09:00"]}]')
+    );
+    expect(items).toEqual([
+      {
+        medication_name: 'Lisinopril',
+        dosage: '10 mg',
+        frequency: 'once daily',
+        times: ['09:00'],
+        repeat_every_days: 1,
+        as_needed: false,
+        duration_days: null,
+        instructions: '',
+      },
+    ]);
+  });
+
+  it('reads a fenced { medications } answer with PRN, weekly and invalid times', async () => {
+    const answer = [
+      '```json',
+      JSON.stringify({
+        medications: [
+          { medication_name: 'Paracetamol', dosage: '500 mg', frequency: 'as needed for fever', times: ['08:00'] },
+          { medication_name: 'Methotrexate', dosage: '15 mg', frequency: 'once a week', times: [], duration_days: 28 },
+          { medication_name: 'Omeprazole', dosage: '20 mg', frequency: 'BID', times: ['morning', '7pm'] },
+        ],
+      }),
+      '```',
+    ].join('\n');
+
+    const [prn, weekly, invalidTimes] = await readPrescriptionImage(photo, mockModel(answer));
+    expect(prn).toMatchObject({ as_needed: true, times: [] });
+    expect(weekly).toMatchObject({ times: ['08:00'], repeat_every_days: 7, duration_days: 28 });
+    expect(invalidTimes).toMatchObject({ times: ['08:00', '20:00'], repeat_every_days: 1 });
+  });
+
+  it('fails on an answer that is not JSON', async () => {
+    await expect(readPrescriptionImage(photo, mockModel('I could not read this image.'))).rejects.toThrow();
+  });
+});
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI } from '@google/genai';
 import { supabase } from './supabase';
+import { parsePrescriptionResponse, PrescriptionItem } from './prescriptionImport';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -177,3 +178,60 @@ export const queryMedicationWithAI = async (
     return "I'm having trouble connecting to the AI right now. Please try again later.";
   }
 };
+
+export interface PrescriptionImage {
+  mimeType: string;
+  data: string; // base64, without the data: URL prefix
+}
+
+// Sends the image and prompt to a model and returns its text answer
+export type PrescriptionModel = (image: PrescriptionImage, prompt: string) => Promise<string>;
+
+const PRESCRIPTION_PROMPT = `Read this prescription or pharmacy label and list every medication on it.
+Return strictly a JSON array with objects having fields:
+medication_name (as written), dosage (strength and amount per intake, e.g. "500 mg, 1 tablet"),
+frequency (as written, e.g. "twice daily"), times (reminder times as "HH:MM" in 24h format, [] if unclear),
+as_needed (true for PRN / as needed), duration_days (number of days, or null), instructions (e.g. "after food", or "").
+Leave out anything you cannot read instead of guessing. Do not include markdown formatting.`;
+
+const generateFromImage: PrescriptionModel = async (image, prompt) => {
+  const result = await ai.models.generateContent({
+    model: MODEL_NAME,
+    contents: [
+      {
+        role: 'user',
+        parts: [{ inlineData: image }, { text: prompt }]
+      }
+    ],
+    config: { responseMimeType: 'application/json' }
+  });
+
+  return result.text || result.candidates?.[0]?.content?.parts?.[0]?.text || '';
+};
+
+const fileToPrescriptionImage = (file: File): Promise<PrescriptionImage> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({ mimeType: file.type || 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Extract the medications on a prescription photo for review.
+ * Pass `model` to use a mocked response instead of calling Gemini.
+ */
+export const readPrescriptionImage = async (
+  file: File,
+  model: PrescriptionModel = generateFromImage
+): Promise<PrescriptionItem[]> => {
+  if (model === generateFromImage && !API_KEY) {
+    throw new Error('Prescription import needs the AI service (missing VITE_GEMINI_API_KEY).');
+  }
+
+  const image = await fileToPrescriptionImage(file);
+  return parsePrescriptionResponse(await model(image, PRESCRIPTION_PROMPT));
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { describeInteractions, DrugInteraction, findAllInteractions, findInteractions, mentionsDrug } from './interactions';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const interactions: DrugInteraction[] = [
+  { drug_a: 'ibuprofen', drug_b: 'aspirin', severity: 'moderate', description: 'Less protection from aspirin.' },
+  { drug_a: 'warfarin', drug_b: 'aspirin', severity: 'major', description: 'Higher risk of bleeding.' },
+  { drug_a: 'simvastatin', drug_b: 'grapefruit', severity: 'minor', description: 'Higher statin levels.' },
+];
+
+describe('mentionsDrug', () => {
+  it('finds the drug as a whole word in a free-text name', () => {
+    expect(mentionsDrug('Warfarin 5mg', 'warfarin')).toBe(true);
+    expect(mentionsDrug('Low-dose ASPIRIN', 'aspirin')).toBe(true);
+    expect(mentionsDrug('Paracetamol', 'aspirin')).toBe(false);
+    expect(mentionsDrug('Superaspirin', 'aspirin')).toBe(false);
+  });
+});
+
+describe('findInteractions', () => {
+  it('matches either side of an interaction, most severe first', () => {
+    const others = [
+      { id: 'med-2', medication_name: 'Ibuprofen 400mg' },
+      { id: 'med-3', medication_name: 'Warfarin' },
+      { id: 'med-4', medication_name: 'Vitamin D' },
+    ];
+    expect(findInteractions('Aspirin 100 mg', others, interactions)).toEqual([
+      {
+        medicationName: 'Aspirin 100 mg',
+        otherMedicationName: 'Warfarin',
+        severity: 'major',
+        description: 'Higher risk of bleeding.',
+      },
+      {
+        medicationName: 'Aspirin 100 mg',
+        otherMedicationName: 'Ibuprofen 400mg',
+        severity: 'moderate',
+        description: 'Less protection from aspirin.',
+      },
+    ]);
+  });
+
+  it('finds nothing without a clashing pair', () => {
+    expect(findInteractions('Aspirin', [{ id: 'med-2', medication_name: 'Aspirin' }], interactions)).toEqual([]);
+    expect(findInteractions('Aspirin', [], interactions)).toEqual([]);
+  });
+});
+
+describe('findAllInteractions', () => {
+  it('reports each clashing pair once', () => {
+    const medications = [
+      { id: 'med-1', medication_name: 'Ibuprofen' },
+      { id: 'med-2', medication_name: 'Aspirin' },
+      { id: 'med-3', medication_name: 'Warfarin' },
+    ];
+    const warnings = findAllInteractions(medications, interactions);
+    expect(warnings.map((warning) => [warning.medicationName, warning.otherMedicationName, warning.severity])).toEqual([
+      ['Aspirin', 'Warfarin', 'major'],
+      ['Ibuprofen', 'Aspirin', 'moderate'],
+    ]);
+    expect(describeInteractions(warnings)).toBe(
+      '• MAJOR: Aspirin + Warfarin. Higher risk of bleeding.\n• MODERATE: Ibuprofen + Aspirin. Less protection from aspirin.'
+    );
+  });
+});
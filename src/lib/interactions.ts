@@ -0,0 +1,132 @@
+import { supabase } from './supabase';
+
+/**
+ * Drug-drug interaction checks against the drug_interactions reference table.
+ * Matching is done locally on medication names, so it works without Gemini.
+ */
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+
+export interface DrugInteraction {
+  drug_a: string;
+  drug_b: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface NamedMedication {
+  id: string;
+  medication_name: string;
+}
+
+export interface InteractionWarning {
+  medicationName: string;
+  otherMedicationName: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a free-text medication name, e.g. "Warfarin 5mg", refers to a drug
+ */
+export function mentionsDrug(medicationName: string, drug: string): boolean {
+  return new RegExp(`(^|[^a-z])${escapeRegExp(drug)}($|[^a-z])`, 'i').test(medicationName);
+}
+
+/**
+ * Interactions between one medication and each of the others, most severe first
+ */
+export function findInteractions(
+  medicationName: string,
+  others: NamedMedication[],
+  interactions: DrugInteraction[]
+): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+
+  for (const other of others) {
+    for (const interaction of interactions) {
+      const clashes =
+        (mentionsDrug(medicationName, interaction.drug_a) && mentionsDrug(other.medication_name, interaction.drug_b)) ||
+        (mentionsDrug(medicationName, interaction.drug_b) && mentionsDrug(other.medication_name, interaction.drug_a));
+
+      if (clashes) {
+        warnings.push({
+          medicationName,
+          otherMedicationName: other.medication_name,
+          severity: interaction.severity,
+          description: interaction.description,
+        });
+      }
+    }
+  }
+
+  return warnings.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+}
+
+/**
+ * Every clashing pair within a list of medications, each pair once
+ */
+export function findAllInteractions(medications: NamedMedication[], interactions: DrugInteraction[]): InteractionWarning[] {
+  return medications
+    .flatMap((medication, index) => findInteractions(medication.medication_name, medications.slice(index + 1), interactions))
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+}
+
+/**
+ * The interaction reference table; null when it could not be loaded, so
+ * callers can say the check is unavailable instead of reporting no clashes
+ */
+export async function loadDrugInteractions(): Promise<DrugInteraction[] | null> {
+  const { data, error } = await supabase.from('drug_interactions').select('drug_a, drug_b, severity, description');
+
+  if (error) {
+    console.error('Error loading drug interactions:', error);
+    return null;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Warnings for taking a medication alongside the user's active medications.
+ * `excludeId` leaves out the medication itself when it is already stored.
+ * Null when the check could not run.
+ */
+export async function checkInteractions(
+  userId: string,
+  medicationName: string,
+  excludeId?: string
+): Promise<InteractionWarning[] | null> {
+  const [{ data: activeMeds, error }, interactions] = await Promise.all([
+    supabase.from('medications').select('id, medication_name').eq('user_id', userId).eq('active', true),
+    loadDrugInteractions(),
+  ]);
+
+  if (error) {
+    console.error('Error loading active medications:', error);
+    return null;
+  }
+
+  if (!interactions) return null;
+
+  return findInteractions(
+    medicationName,
+    (activeMeds ?? []).filter((med) => med.id !== excludeId),
+    interactions
+  );
+}
+
+/**
+ * Text for a confirm() prompt listing the warnings
+ */
+export function describeInteractions(warnings: InteractionWarning[]): string {
+  return warnings
+    .map((warning) => `• ${warning.severity.toUpperCase()}: ${warning.medicationName} + ${warning.otherMedicationName}. ${warning.description}`)
+    .join('\n');
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as browser from './inventory';
+import * as cronJob from '../../supabase/functions/send-reminders/inventory.ts';
+import { adjustStock } from './inventory';
+
+const rpc = vi.hoisted(() => vi.fn(async () => ({ error: null })));
+
+vi.mock('./supabase', () => ({ supabase: { rpc } }));
+
+const now = new Date('2025-06-01T00:00:00Z');
+const twiceDaily = [
+  { reminder_time: '08:00', anchor_date: '2025-06-01' },
+  { reminder_time: '20:00', anchor_date: '2025-06-01' },
+];
+
+// Both copies must agree on how long the supply lasts
+describe.each([
+  ['browser', browser],
+  ['cron job', cronJob],
+])('inventory forecast (%s)', (_copy, { estimateDaysRemaining, getDosesPerDay, needsRefill }) => {
+  it('averages the upcoming doses of every schedule', () => {
+    expect(getDosesPerDay(twiceDaily, 'UTC', now)).toBe(2);
+    expect(getDosesPerDay([{ reminder_time: '08:00', repeat_interval: 2, anchor_date: '2025-06-01' }], 'UTC', now)).toBe(0.5);
+  });
+
+  it('counts whole days of stock at the dose quantity', () => {
+    expect(estimateDaysRemaining({ stock_quantity: 30, dose_quantity: 2 }, twiceDaily, 'UTC', now)).toBe(7);
+    expect(estimateDaysRemaining({ stock_quantity: 30, dose_quantity: null }, twiceDaily, 'UTC', now)).toBe(15);
+  });
+
+  it('has no estimate without tracked stock or upcoming doses', () => {
+    expect(estimateDaysRemaining({ stock_quantity: null, dose_quantity: 1 }, twiceDaily, 'UTC', now)).toBeNull();
+    expect(estimateDaysRemaining({ stock_quantity: 30, dose_quantity: 1 }, [], 'UTC', now)).toBeNull();
+    const finished = [{ reminder_time: '08:00', anchor_date: '2025-05-01', until_date: '2025-05-31' }];
+    expect(estimateDaysRemaining({ stock_quantity: 30, dose_quantity: 1 }, finished, 'UTC', now)).toBeNull();
+  });
+
+  it('asks for a refill at the threshold or when too little is left for a dose', () => {
+    expect(needsRefill({ stock_quantity: 30, dose_quantity: 1 }, 8)).toBe(false);
+    expect(needsRefill({ stock_quantity: 30, dose_quantity: 1 }, 7)).toBe(true);
+    expect(needsRefill({ stock_quantity: 30, dose_quantity: 1, refill_threshold_days: 3 }, 7)).toBe(false);
+    expect(needsRefill({ stock_quantity: 1, dose_quantity: 2 }, null)).toBe(true);
+    expect(needsRefill({ stock_quantity: null, dose_quantity: 1 }, 0)).toBe(false);
+  });
+});
+
+describe('adjustStock', () => {
+  it('adjusts the stock in one database call', async () => {
+    await adjustStock('med-1', -2);
+    expect(rpc).toHaveBeenCalledWith('adjust_medication_stock', { medication_id: 'med-1', doses: -2 });
+  });
+});
@@ -0,0 +1,160 @@
+import { supabase } from './supabase';
+import { StructuredDosage } from './dosage';
+import { describeRecurrence, normalizeRecurrence, RecurringSchedule } from './recurrence';
+
+/**
+ * Editing medications in place, with every edit recorded in
+ * medication_versions (old and new values, who and when).
+ * adherence_logs.medication_version is set by a database trigger, so logs
+ * keep pointing at the version that applied when the dose was due.
+ */
+
+export interface MedicationDetails extends StructuredDosage {
+  medication_name: string;
+  dosage: string;
+  medication_type: string;
+  instructions: string;
+  end_date: string | null;
+  is_critical: boolean;
+  min_interval_minutes: number | null;
+  max_doses_per_day: number | null;
+}
+
+export interface EditableSchedule extends RecurringSchedule {
+  id?: string; // missing for times added in the editor
+  reminder_time: string;
+}
+
+export interface MedicationChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+export interface MedicationVersion {
+  id: string;
+  version: number;
+  changes: MedicationChange[];
+  changed_by: string | null;
+  changed_at: string;
+  user_profiles: { full_name: string | null } | null;
+}
+
+// Fields listed in the history, in display order
+const TRACKED_FIELDS: { key: keyof MedicationDetails; label: string }[] = [
+  { key: 'medication_name', label: 'Name' },
+  { key: 'dosage', label: 'Dosage' },
+  { key: 'medication_type', label: 'Type' },
+  { key: 'instructions', label: 'Instructions' },
+  { key: 'end_date', label: 'End date' },
+  { key: 'is_critical', label: 'Critical' },
+  { key: 'min_interval_minutes', label: 'Minutes between doses' },
+  { key: 'max_doses_per_day', label: 'Max doses per 24h' },
+];
+
+const SCHEDULES_FIELD = 'schedules';
+
+export function getChangeLabel(field: string): string {
+  if (field === SCHEDULES_FIELD) return 'Reminder times';
+  return TRACKED_FIELDS.find((entry) => entry.key === field)?.label ?? field;
+}
+
+export function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return String(value);
+}
+
+function describeSchedules(schedules: EditableSchedule[]): string[] {
+  return schedules
+    .map((schedule) => `${schedule.reminder_time.slice(0, 5)} (${describeRecurrence(schedule)})`)
+    .sort();
+}
+
+/**
+ * What an edit changes, field by field; empty when nothing changed
+ */
+export function diffMedication(
+  before: MedicationDetails,
+  after: MedicationDetails,
+  schedulesBefore: EditableSchedule[],
+  schedulesAfter: EditableSchedule[]
+): MedicationChange[] {
+  const changes: MedicationChange[] = TRACKED_FIELDS.flatMap(({ key }) => {
+    const oldValue = before[key] === '' ? null : before[key] ?? null;
+    const newValue = after[key] === '' ? null : after[key] ?? null;
+    return oldValue === newValue ? [] : [{ field: key, old: oldValue, new: newValue }];
+  });
+
+  const oldTimes = describeSchedules(schedulesBefore);
+  const newTimes = describeSchedules(schedulesAfter);
+  if (oldTimes.join('|') !== newTimes.join('|')) {
+    changes.push({ field: SCHEDULES_FIELD, old: oldTimes, new: newTimes });
+  }
+
+  return changes;
+}
+
+/**
+ * Apply an edit and record it as the next version. Returns false when
+ * nothing changed. Throws when the medication was edited elsewhere since
+ * it was loaded. Pass `acknowledgedWarnings` after a rename to replace the
+ * stored allergy/condition acknowledgement (null when nothing conflicts).
+ */
+export async function saveMedicationEdit(
+  medication: MedicationDetails & { id: string; current_version: number },
+  updated: MedicationDetails,
+  schedulesBefore: EditableSchedule[],
+  schedulesAfter: EditableSchedule[],
+  acknowledgedWarnings?: string[] | null
+): Promise<boolean> {
+  const changes = diffMedication(medication, updated, schedulesBefore, schedulesAfter);
+  if (changes.length === 0) return false;
+
+  const keptIds = new Set(schedulesAfter.map((schedule) => schedule.id).filter(Boolean));
+  const retimed = schedulesAfter.filter((schedule) => {
+    const previous = schedulesBefore.find((entry) => entry.id && entry.id === schedule.id);
+    return previous && previous.reminder_time.slice(0, 5) !== schedule.reminder_time.slice(0, 5);
+  });
+
+  // Applied in one transaction (see save_medication_edit), guarded on the version
+  const { error } = await supabase.rpc('save_medication_edit', {
+    edited_medication_id: medication.id,
+    expected_version: medication.current_version,
+    details: acknowledgedWarnings === undefined
+      ? updated
+      : {
+        ...updated,
+        acknowledged_warnings: acknowledgedWarnings,
+        warnings_acknowledged_at: acknowledgedWarnings ? new Date().toISOString() : null,
+      },
+    removed_schedule_ids: schedulesBefore
+      .filter((schedule) => schedule.id && !keptIds.has(schedule.id))
+      .map((schedule) => schedule.id),
+    retimed_schedules: retimed.map((schedule) => ({ id: schedule.id, reminder_time: schedule.reminder_time })),
+    added_schedules: schedulesAfter
+      .filter((schedule) => !schedule.id)
+      .map((schedule) => ({ reminder_time: schedule.reminder_time, ...normalizeRecurrence(schedule) })),
+    version_changes: changes,
+  });
+
+  if (error) throw new Error(error.message);
+  return true;
+}
+
+export async function loadMedicationHistory(medicationId: string): Promise<MedicationVersion[]> {
+  const { data, error } = await supabase
+    .from('medication_versions')
+    .select('id, version, changes, changed_by, changed_at, user_profiles!medication_versions_changed_by_fkey(full_name)')
+    .eq('medication_id', medicationId)
+    .order('version', { ascending: false })
+    .returns<MedicationVersion[]>();
+
+  if (error) {
+    console.error('Error loading medication history:', error);
+    return [];
+  }
+
+  return data ?? [];
+}
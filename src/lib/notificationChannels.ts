@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+
+/**
+ * The ordered set of channels a user receives reminders on.
+ * The send-reminders function delivers to enabled channels once they are
+ * verified by a successful test send; the first enabled channel is mirrored
+ * into user_profiles.preferred_channel.
+ */
+
+export type ReminderChannel = 'email' | 'whatsapp' | 'telegram' | 'push';
+
+export type DeliveryMode = 'all' | 'first_success';
+
+export interface NotificationChannel {
+  channel: ReminderChannel;
+  position: number;
+  enabled: boolean;
+  verified_at: string | null;
+  last_error: string | null;
+}
+
+/**
+ * The user's channels in delivery order
+ */
+export async function loadNotificationChannels(userId: string): Promise<NotificationChannel[]> {
+  const { data, error } = await supabase
+    .from('notification_channels')
+    .select('channel, position, enabled, verified_at, last_error')
+    .eq('user_id', userId)
+    .order('position');
+
+  if (error) {
+    console.error('Error loading notification channels:', error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Store the order and on/off state of the user's channels, and mirror the
+ * first enabled one into preferred_channel
+ */
+export async function saveNotificationChannels(
+  userId: string,
+  channels: NotificationChannel[]
+): Promise<void> {
+  const { error } = await supabase.from('notification_channels').upsert(
+    channels.map((channel, position) => ({
+      user_id: userId,
+      channel: channel.channel,
+      position,
+      enabled: channel.enabled,
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: 'user_id,channel' }
+  );
+
+  if (error) {
+    throw new Error(`Unable to save reminder channels: ${error.message}`);
+  }
+
+  const primary = channels.find((channel) => channel.enabled);
+  if (primary) {
+    const { error: profileError } = await supabase
+      .from('user_profiles')
+      .update({ preferred_channel: primary.channel })
+      .eq('id', userId);
+
+    if (profileError) {
+      throw new Error(`Unable to update preferred channel: ${profileError.message}`);
+    }
+  }
+}
+
+/**
+ * Send a test reminder on one channel; the function marks it verified on success
+ */
+export async function verifyNotificationChannel(
+  userId: string,
+  channel: ReminderChannel,
+  message?: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('send-reminders', {
+    body: { mode: 'test', userId, channel, message },
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const result = data?.results?.[0];
+  return result?.status === 'sent'
+    ? { success: true }
+    : { success: false, error: result?.errorMessage ?? 'The test reminder could not be delivered.' };
+}
+
+/**
+ * Forget that a channel was verified, e.g. after its contact details changed
+ */
+export async function resetChannelVerification(userId: string, channel: ReminderChannel): Promise<void> {
+  const { error } = await supabase
+    .from('notification_channels')
+    .update({ verified_at: null })
+    .eq('user_id', userId)
+    .eq('channel', channel);
+
+  if (error) {
+    console.error('Error resetting channel verification:', error);
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import * as browser from './phases';
+import * as cronJob from '../../supabase/functions/send-reminders/phases.ts';
+import { PhaseFormValue, validatePhases } from './phases';
+
+const taper = {
+  dosage: '10 mg',
+  dose_strength: 10,
+  dose_unit: 'mg' as const,
+  dose_quantity: 1,
+  dose_form: 'tablet' as const,
+  medication_phases: [
+    { position: 2, start_date: '2025-06-08', end_date: '2025-06-14', dosage: '20 mg' },
+    { position: 1, start_date: '2025-06-01', end_date: '2025-06-07', dosage: '40 mg' },
+    { position: 3, start_date: '2025-06-15', end_date: null, dosage: '10 mg' },
+  ],
+};
+
+// Both copies must show the same dose for a given day
+describe.each([
+  ['browser', browser],
+  ['cron job', cronJob],
+])('getDosageOn (%s)', (_copy, { getDosageOn }) => {
+  it('takes the dose of the phase the day falls in, end dates included', () => {
+    expect(getDosageOn(taper, '2025-06-01')).toBe('40 mg');
+    expect(getDosageOn(taper, '2025-06-07')).toBe('40 mg');
+    expect(getDosageOn(taper, '2025-06-08')).toBe('20 mg');
+    expect(getDosageOn(taper, '2025-09-01')).toBe('10 mg');
+  });
+
+  it('falls back to the medication dose outside every phase', () => {
+    expect(getDosageOn(taper, '2025-05-31')).toBe('1 tablet of 10 mg');
+    expect(getDosageOn({ ...taper, medication_phases: null }, '2025-06-01')).toBe('1 tablet of 10 mg');
+  });
+
+  it('falls back when a gap separates two phases', () => {
+    const withGap = {
+      dosage: '5 mg',
+      medication_phases: [
+        { position: 1, start_date: '2025-06-01', end_date: '2025-06-03', dosage: '15 mg' },
+        { position: 2, start_date: '2025-06-06', end_date: null, dosage: '10 mg' },
+      ],
+    };
+    expect(getDosageOn(withGap, '2025-06-04')).toBe('5 mg');
+  });
+});
+
+describe('validatePhases', () => {
+  const phase = (startDate: string, endDate: string, dosage = '10 mg', times = ['08:00']): PhaseFormValue => ({
+    startDate,
+    endDate,
+    dosage,
+    times,
+  });
+
+  it('accepts back-to-back phases ending in an open-ended one', () => {
+    expect(validatePhases([phase('2025-06-01', '2025-06-07'), phase('2025-06-08', '')])).toBeNull();
+  });
+
+  it('names the first phase that cannot be saved', () => {
+    expect(validatePhases([])).toBe('Add at least one phase.');
+    expect(validatePhases([phase('2025-06-01', '', ' ')])).toBe('Phase 1 needs a dose.');
+    expect(validatePhases([phase('', '')])).toBe('Phase 1 needs a start date.');
+    expect(validatePhases([phase('2025-06-01', ''), phase('2025-06-08', '')])).toBe('Phase 1 needs an end date.');
+    expect(validatePhases([phase('2025-06-07', '2025-06-01')])).toBe('Phase 1 ends before it starts.');
+    expect(validatePhases([phase('2025-06-01', '', '10 mg', [''])])).toBe('Phase 1 needs at least one reminder time.');
+  });
+
+  it('refuses overlapping phases', () => {
+    expect(validatePhases([phase('2025-06-01', '2025-06-07'), phase('2025-06-07', '')])).toBe(
+      'Phase 2 starts before phase 1 has ended.'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tapering and titration phases stored in medication_phases.
+ * Mirrors supabase/functions/send-reminders/phases.ts so the browser and the
+ * cron job show the same dose for a given day.
+ */
+import { formatDosage, StructuredDosage } from './dosage';
+
+export interface MedicationPhase {
+  position: number;
+  start_date: string; // local YYYY-MM-DD
+  end_date: string | null; // inclusive; NULL for an open-ended last phase
+  dosage: string;
+}
+
+export interface PhasedMedication extends Partial<StructuredDosage> {
+  dosage: string;
+  medication_phases?: MedicationPhase[] | null;
+}
+
+/**
+ * The phase a local date falls in, if any
+ */
+export function getPhaseOn<T extends MedicationPhase>(phases: T[], date: string): T | null {
+  return (
+    [...phases]
+      .sort((a, b) => b.start_date.localeCompare(a.start_date))
+      .find((phase) => phase.start_date <= date && (!phase.end_date || date <= phase.end_date)) ?? null
+  );
+}
+
+/**
+ * The dose to take on a local date: the current phase's, else the medication's
+ */
+export function getDosageOn(medication: PhasedMedication, date: string): string {
+  return getPhaseOn(medication.medication_phases ?? [], date)?.dosage ?? formatDosage(medication);
+}
+
+export interface PhaseFormValue {
+  startDate: string;
+  endDate: string; // '' for an open-ended last phase
+  dosage: string;
+  times: string[]; // local HH:MM
+}
+
+/**
+ * Why the phases entered in the medication form cannot be saved, if they can't
+ */
+export function validatePhases(phases: PhaseFormValue[]): string | null {
+  if (phases.length === 0) return 'Add at least one phase.';
+
+  for (const [index, phase] of phases.entries()) {
+    const label = `Phase ${index + 1}`;
+    const isLast = index === phases.length - 1;
+
+    if (!phase.dosage.trim()) return `${label} needs a dose.`;
+    if (!phase.startDate) return `${label} needs a start date.`;
+    if (!phase.endDate && !isLast) return `${label} needs an end date.`;
+    if (phase.endDate && phase.endDate < phase.startDate) return `${label} ends before it starts.`;
+    if (phase.times.filter(Boolean).length === 0) return `${label} needs at least one reminder time.`;
+
+    const previous = phases[index - 1];
+    if (previous && previous.endDate && phase.startDate <= previous.endDate) {
+      return `${label} starts before phase ${index} has ended.`;
+    }
+  }
+
+  return null;
+}
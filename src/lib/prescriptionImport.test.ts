@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { frequencyToRepeatDays, frequencyToTimes, parsePrescriptionResponse } from './prescriptionImport';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+describe('frequencyToTimes', () => {
+  it('reads daily counts and abbreviations', () => {
+    expect(frequencyToTimes('once daily')).toEqual(['08:00']);
+    expect(frequencyToTimes('BID')).toEqual(['08:00', '20:00']);
+    expect(frequencyToTimes('three times a day')).toEqual(['08:00', '14:00', '20:00']);
+    expect(frequencyToTimes('QID')).toEqual(['08:00', '12:00', '16:00', '20:00']);
+    expect(frequencyToTimes('at bedtime')).toEqual(['22:00']);
+  });
+
+  it('spreads hourly intervals over the day from 08:00', () => {
+    expect(frequencyToTimes('every 8 hours')).toEqual(['08:00', '16:00', '00:00']);
+    expect(frequencyToTimes('q12h')).toEqual(['08:00', '20:00']);
+  });
+
+  it('gives one time on each dosing day of weekly and alternate-day frequencies', () => {
+    expect(frequencyToTimes('once weekly')).toEqual(['08:00']);
+    expect(frequencyToTimes('once a week')).toEqual(['08:00']);
+    expect(frequencyToTimes('weekly at night')).toEqual(['22:00']);
+    expect(frequencyToTimes('every other day')).toEqual(['08:00']);
+  });
+
+  it('leaves times empty when the frequency cannot be read', () => {
+    expect(frequencyToTimes('as directed')).toEqual([]);
+    expect(frequencyToTimes('twice weekly')).toEqual([]);
+    expect(frequencyToTimes('')).toEqual([]);
+  });
+});
+
+describe('frequencyToRepeatDays', () => {
+  it('keeps daily frequencies daily', () => {
+    expect(frequencyToRepeatDays('twice daily')).toBe(1);
+    expect(frequencyToRepeatDays('every 6 hours')).toBe(1);
+  });
+
+  it('reads weekly and alternate-day frequencies', () => {
+    expect(frequencyToRepeatDays('once weekly')).toBe(7);
+    expect(frequencyToRepeatDays('once a week')).toBe(7);
+    expect(frequencyToRepeatDays('1/week')).toBe(7);
+    expect(frequencyToRepeatDays('every other day')).toBe(2);
+    expect(frequencyToRepeatDays('on alternate days')).toBe(2);
+    expect(frequencyToRepeatDays('every 3 days')).toBe(3);
+    expect(frequencyToRepeatDays('every 2 weeks')).toBe(14);
+  });
+
+  it('asks for the days of several doses a week', () => {
+    expect(frequencyToRepeatDays('twice weekly')).toBeNull();
+    expect(frequencyToRepeatDays('3 times a week')).toBeNull();
+    expect(frequencyToRepeatDays('2x/wk')).toBeNull();
+  });
+});
+
+describe('parsePrescriptionResponse', () => {
+  const item = {
+    medication_name: 'Amoxicillin',
+    dosage: '500 mg',
+    frequency: 'three times daily',
+    times: ['08:00', '14:00', '20:00'],
+    as_needed: false,
+    duration_days: 7,
+    instructions: 'After food',
+  };
+
+  it('reads a bare array', () => {
+    expect(parsePrescriptionResponse(JSON.stringify([item]))).toEqual([{ ...item, repeat_every_days: 1 }]);
+  });
+
+  it('reads fenced JSON and a { medications } wrapper', () => {
+    const text = '```json\n' + JSON.stringify({ medications: [item] }) + '\n```';
+    expect(parsePrescriptionResponse(text)).toEqual([{ ...item, repeat_every_days: 1 }]);
+  });
+
+  it('returns nothing for an empty answer and throws on malformed JSON', () => {
+    expect(parsePrescriptionResponse('```json\n```')).toEqual([]);
+    expect(parsePrescriptionResponse('{"other": []}')).toEqual([]);
+    expect(() => parsePrescriptionResponse('not json')).toThrow();
+  });
+
+  it('drops unnamed entries and fills in missing fields', () => {
+    const [parsed, ...rest] = parsePrescriptionResponse(
+      JSON.stringify([{ name: 'Metformin', frequency: 'BID', duration_days: 'ten' }, { dosage: '5 mg' }])
+    );
+    expect(rest).toEqual([]);
+    expect(parsed).toEqual({
+      medication_name: 'Metformin',
+      dosage: '',
+      frequency: 'BID',
+      times: ['08:00', '20:00'],
+      repeat_every_days: 1,
+      as_needed: false,
+      duration_days: null,
+      instructions: '',
+    });
+  });
+
+  it('detects as-needed medications from the flag or the frequency', () => {
+    const [flagged, written] = parsePrescriptionResponse(
+      JSON.stringify([
+        { ...item, as_needed: true },
+        { ...item, frequency: 'PRN for pain', times: ['08:00'] },
+      ])
+    );
+    expect(flagged).toMatchObject({ as_needed: true, times: [] });
+    expect(written).toMatchObject({ as_needed: true, times: [] });
+  });
+
+  it('replaces invalid times with ones derived from the frequency', () => {
+    const [parsed] = parsePrescriptionResponse(JSON.stringify([{ ...item, frequency: 'BID', times: ['8am', '25:00'] }]));
+    expect(parsed.times).toEqual(['08:00', '20:00']);
+  });
+
+  it('keeps weekly frequencies weekly', () => {
+    const [weekly, unclear] = parsePrescriptionResponse(
+      JSON.stringify([
+        { medication_name: 'Methotrexate', dosage: '15 mg', frequency: 'once weekly', times: [] },
+        { medication_name: 'Vitamin D', dosage: '1000 IU', frequency: 'as directed', times: [] },
+      ])
+    );
+    expect(weekly).toMatchObject({ times: ['08:00'], repeat_every_days: 7 });
+    expect(unclear).toMatchObject({ times: [], repeat_every_days: 1 });
+  });
+});
@@ -0,0 +1,185 @@
+import { supabase } from './supabase';
+import { formatDosage, parseDosage } from './dosage';
+import { buildRecurrenceRule } from './recurrence';
+import { getTodayDateString } from './reminderService';
+import { addDays } from './timezone';
+
+/**
+ * Medications read from a prescription photo (see readPrescriptionImage in
+ * gemini.ts), reviewed by the user and then saved in bulk.
+ */
+
+export interface PrescriptionItem {
+  medication_name: string;
+  dosage: string; // as written, e.g. "500 mg, 1 tablet"
+  frequency: string; // as written, e.g. "twice daily"
+  times: string[]; // HH:MM reminder times
+  repeat_every_days: number | null; // 1 daily, 2 every other day, 7 weekly; null until chosen
+  as_needed: boolean;
+  duration_days: number | null;
+  instructions: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Reminder times for the usual ways a daily frequency is written
+const FREQUENCY_TIMES: [RegExp, string[]][] = [
+  [/\b(four times|4 ?x|qid|qds)\b/i, ['08:00', '12:00', '16:00', '20:00']],
+  [/\b(three times|thrice|3 ?x|tid|tds)\b/i, ['08:00', '14:00', '20:00']],
+  [/\b(twice|two times|2 ?x|bid|bd)\b/i, ['08:00', '20:00']],
+  [/\b(bedtime|at night|nightly|hs|qhs)\b/i, ['22:00']],
+  [/\b(once|daily|every day|1 ?x|od|qd|morning)\b/i, ['08:00']],
+];
+
+// Frequencies that repeat on a weekly basis, e.g. "once a week" or "2x/wk"
+const WEEKLY_PATTERN = /\b(weekly|a week|per week|every week|each week|qw|qwk)\b|\/\s*(w|wk|week)\b/i;
+const SEVERAL_TIMES_PATTERN = /\b(twice|two times|thrice|three times|four times|[2-9] ?(x|times))\b/i;
+
+/**
+ * Days between dosing days for a frequency such as "every other day" (2) or
+ * "once weekly" (7); 1 for daily frequencies. Null for several doses a week,
+ * whose days the user has to choose.
+ */
+export function frequencyToRepeatDays(frequency: string): number | null {
+  const everyDays = frequency.match(/\bevery\s+(\d+)(?:st|nd|rd|th)?\s*days?\b|\bq(\d+)d\b/i);
+  if (everyDays) return Math.max(1, Number(everyDays[1] ?? everyDays[2]));
+
+  const everyWeeks = frequency.match(/\bevery\s+(\d+)(?:st|nd|rd|th)?\s*weeks?\b/i);
+  if (everyWeeks) return Math.max(1, Number(everyWeeks[1])) * 7;
+
+  if (/\b(every other day|alternate days?|qod|eod)\b/i.test(frequency)) return 2;
+  if (/\b(every other week|fortnightly)\b/i.test(frequency)) return 14;
+  if (WEEKLY_PATTERN.test(frequency)) return SEVERAL_TIMES_PATTERN.test(frequency) ? null : 7;
+
+  return 1;
+}
+
+/**
+ * Reminder times for a frequency such as "BID" or "every 8 hours",
+ * starting at 08:00. Empty when the frequency cannot be read.
+ */
+export function frequencyToTimes(frequency: string): string[] {
+  const everyHours = frequency.match(/\bevery\s+(\d+)\s*(?:hours?|hrs?|h)\b|\bq(\d+)h\b/i);
+  if (everyHours) {
+    const hours = Number(everyHours[1] ?? everyHours[2]);
+    if (hours >= 1 && hours <= 24) {
+      const times: string[] = [];
+      for (let hour = 8; hour < 8 + 24; hour += hours) {
+        times.push(`${String(hour % 24).padStart(2, '0')}:00`);
+      }
+      return times;
+    }
+  }
+
+  // "Once weekly" and "every other day" are one dose on each dosing day
+  const repeatDays = frequencyToRepeatDays(frequency);
+  if (repeatDays === null) return [];
+
+  return FREQUENCY_TIMES.find(([pattern]) => pattern.test(frequency))?.[1] ?? (repeatDays > 1 ? ['08:00'] : []);
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+}
+
+/**
+ * Read the model's JSON answer into reviewable items. Accepts a bare array
+ * or { medications: [...] }, with or without markdown fences, and fills in
+ * whatever the model left out.
+ */
+export function parsePrescriptionResponse(text: string): PrescriptionItem[] {
+  const cleanText = text.replace(/```json|```/g, '').trim();
+  if (!cleanText) return [];
+
+  const parsed: unknown = JSON.parse(cleanText);
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { medications?: unknown })?.medications)
+      ? (parsed as { medications: unknown[] }).medications
+      : [];
+
+  return entries.flatMap((entry) => {
+    const raw = (entry ?? {}) as Record<string, unknown>;
+    const medicationName = toText(raw.medication_name ?? raw.name);
+    if (!medicationName) return [];
+
+    const frequency = toText(raw.frequency);
+    const asNeeded = raw.as_needed === true || /\b(prn|as needed|when needed|if needed)\b/i.test(frequency);
+    const times = Array.isArray(raw.times)
+      ? raw.times.map(toText).filter((time) => TIME_PATTERN.test(time))
+      : [];
+    const duration = Number(raw.duration_days);
+    const repeatDays = frequencyToRepeatDays(frequency);
+
+    return [{
+      medication_name: medicationName,
+      dosage: toText(raw.dosage),
+      frequency,
+      times: asNeeded ? [] : times.length > 0 ? times : frequencyToTimes(frequency),
+      repeat_every_days: asNeeded ? 1 : repeatDays,
+      as_needed: asNeeded,
+      duration_days: Number.isInteger(duration) && duration > 0 ? duration : null,
+      instructions: toText(raw.instructions),
+    }];
+  });
+}
+
+/**
+ * Save reviewed items as medications with one schedule per time, repeating
+ * every `repeat_every_days` days from today.
+ * `acknowledgedWarnings` holds, per item, the warnings the user accepted.
+ */
+export async function savePrescriptionItems(
+  userId: string,
+  items: PrescriptionItem[],
+  acknowledgedWarnings: (string[] | null)[] = []
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const today = getTodayDateString();
+  const acknowledgedAt = new Date().toISOString();
+
+  const { data: medRows, error: medError } = await supabase
+    .from('medications')
+    .insert(items.map((item, index) => {
+      const dosage = parseDosage(item.dosage);
+      const warnings = acknowledgedWarnings[index] ?? null;
+      return {
+        user_id: userId,
+        medication_name: item.medication_name,
+        dosage: formatDosage({ ...dosage, dosage: item.dosage }),
+        ...dosage,
+        instructions: item.instructions,
+        // The course includes today, so a 7 day course ends 6 days from now
+        end_date: item.duration_days ? addDays(today, item.duration_days - 1) : null,
+        is_prn: item.as_needed,
+        acknowledged_warnings: warnings,
+        warnings_acknowledged_at: warnings ? acknowledgedAt : null,
+      };
+    }))
+    .select('id');
+
+  if (medError) throw medError;
+
+  const schedules = items.flatMap((item, index) =>
+    item.as_needed
+      ? []
+      : item.times.map((time) => ({
+        medication_id: medRows[index].id,
+        reminder_time: time,
+        ...buildRecurrenceRule({
+          pattern: 'every_n_days',
+          interval: item.repeat_every_days ?? 1,
+          weekdays: [],
+          cycleOnDays: 21,
+          cycleOffDays: 7,
+          anchorDate: today,
+        }),
+      }))
+  );
+
+  if (schedules.length === 0) return;
+
+  const { error: schedError } = await supabase.from('medication_schedules').insert(schedules);
+  if (schedError) throw schedError;
+}
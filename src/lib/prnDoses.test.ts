@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPrnDoseStatus, logPrnDose, PrnMedication } from './prnDoses';
+
+// Stand-in for adherence_logs: the recent doses a read returns and what an insert answers
+const db = vi.hoisted(() => ({
+  doses: [] as { medication_id: string; taken_at: string }[],
+  onInsert: (): { error: { code: string; message: string } | null } => ({ error: null }),
+}));
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        in: () => query,
+        gte: () => query,
+        then: (resolve: (result: { data: typeof db.doses; error: null }) => void) => resolve({ data: db.doses, error: null }),
+        insert: async () => db.onInsert(),
+      };
+      return query;
+    },
+    rpc: async () => ({ error: null }),
+  },
+}));
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+function minutesAgo(minutes: number): Date {
+  return new Date(now.getTime() - minutes * MINUTE_MS);
+}
+
+const ibuprofen: PrnMedication = {
+  id: 'med-1',
+  medication_name: 'Ibuprofen',
+  min_interval_minutes: 240,
+  max_doses_per_day: 3,
+};
+
+describe('getPrnDoseStatus', () => {
+  it('allows the first dose', () => {
+    expect(getPrnDoseStatus(ibuprofen, [], now)).toEqual({
+      allowed: true,
+      nextAllowedAt: null,
+      reason: null,
+      dosesInLast24h: 0,
+      lastDoseAt: null,
+    });
+  });
+
+  it('waits out the minimum interval after the last dose', () => {
+    const status = getPrnDoseStatus(ibuprofen, [minutesAgo(90)], now);
+    expect(status).toMatchObject({
+      allowed: false,
+      nextAllowedAt: minutesAgo(90 - 240),
+      reason: 'Leave at least 4 h between doses.',
+      dosesInLast24h: 1,
+    });
+    expect(getPrnDoseStatus(ibuprofen, [minutesAgo(240)], now).allowed).toBe(true);
+  });
+
+  it('waits for the oldest counted dose to leave the 24 hour window', () => {
+    const doses = [minutesAgo(23 * 60), minutesAgo(10 * 60), minutesAgo(5 * 60)];
+    expect(getPrnDoseStatus(ibuprofen, doses, now)).toMatchObject({
+      allowed: false,
+      nextAllowedAt: minutesAgo(-60),
+      reason: 'No more than 3 doses in 24 hours.',
+      dosesInLast24h: 3,
+    });
+  });
+
+  it('ignores doses older than 24 hours and in the future', () => {
+    const status = getPrnDoseStatus(ibuprofen, [minutesAgo(25 * 60), minutesAgo(-5)], now);
+    expect(status).toMatchObject({ allowed: true, dosesInLast24h: 0, lastDoseAt: null });
+  });
+
+  it('has no limits when none are set', () => {
+    const unlimited = { ...ibuprofen, min_interval_minutes: null, max_doses_per_day: null };
+    expect(getPrnDoseStatus(unlimited, [minutesAgo(1), minutesAgo(2), minutesAgo(3), minutesAgo(4)], now).allowed).toBe(true);
+  });
+});
+
+describe('logPrnDose', () => {
+  beforeEach(() => {
+    db.doses = [];
+    db.onInsert = () => ({ error: null });
+  });
+
+  it('does not insert when the limits forbid a dose', async () => {
+    db.doses = [{ medication_id: ibuprofen.id, taken_at: new Date(Date.now() - 30 * MINUTE_MS).toISOString() }];
+    db.onInsert = vi.fn(() => ({ error: null }));
+
+    const { logged, status } = await logPrnDose('user-1', ibuprofen);
+    expect(logged).toBe(false);
+    expect(status.reason).toBe('Leave at least 4 h between doses.');
+    expect(db.onInsert).not.toHaveBeenCalled();
+  });
+
+  it('reports the limit when the database refuses a dose logged elsewhere meanwhile', async () => {
+    db.onInsert = () => {
+      db.doses = [{ medication_id: ibuprofen.id, taken_at: new Date().toISOString() }];
+      return { error: { code: '23514', message: 'Leave at least 240 minutes between doses of Ibuprofen.' } };
+    };
+
+    const { logged, status } = await logPrnDose('user-1', ibuprofen);
+    expect(logged).toBe(false);
+    expect(status).toMatchObject({ allowed: false, reason: 'Leave at least 4 h between doses.', dosesInLast24h: 1 });
+  });
+
+  it('surfaces the database message when the refusal cannot be explained locally', async () => {
+    db.onInsert = () => ({ error: { code: '23514', message: 'No more than 3 doses of Ibuprofen in 24 hours.' } });
+
+    await expect(logPrnDose('user-1', ibuprofen)).rejects.toThrow('No more than 3 doses of Ibuprofen in 24 hours.');
+  });
+});
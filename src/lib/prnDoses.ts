@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import { adjustStock } from './inventory';
+
+/**
+ * As-needed (PRN) medications: doses are logged on demand instead of being
+ * scheduled, within a minimum interval and a rolling 24 hour maximum.
+ */
+
+export interface PrnMedication {
+  id: string;
+  medication_name: string;
+  min_interval_minutes: number | null;
+  max_doses_per_day: number | null;
+}
+
+export interface PrnDoseStatus {
+  allowed: boolean;
+  nextAllowedAt: Date | null; // when the next dose may be taken, if not now
+  reason: string | null;
+  dosesInLast24h: number;
+  lastDoseAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Raised by the adherence_logs trigger when a dose breaks a limit
+const DOSE_LIMIT_ERROR_CODE = '23514';
+
+function formatInterval(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+/**
+ * Whether a dose may be taken now, given the times of earlier doses
+ */
+export function getPrnDoseStatus(
+  medication: PrnMedication,
+  doseTimes: Date[],
+  now: Date = new Date()
+): PrnDoseStatus {
+  const recent = doseTimes
+    .filter((time) => time.getTime() > now.getTime() - DAY_MS && time <= now)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const lastDoseAt = recent.length > 0 ? recent[recent.length - 1] : null;
+
+  let nextAllowedAt: Date | null = null;
+  let reason: string | null = null;
+
+  if (lastDoseAt && medication.min_interval_minutes) {
+    const intervalEnd = new Date(lastDoseAt.getTime() + medication.min_interval_minutes * 60000);
+    if (intervalEnd > now) {
+      nextAllowedAt = intervalEnd;
+      reason = `Leave at least ${formatInterval(medication.min_interval_minutes)} between doses.`;
+    }
+  }
+
+  if (medication.max_doses_per_day && recent.length >= medication.max_doses_per_day) {
+    // The oldest dose that still counts has to drop out of the 24 hour window
+    const windowEnd = new Date(recent[recent.length - medication.max_doses_per_day].getTime() + DAY_MS);
+    if (!nextAllowedAt || windowEnd > nextAllowedAt) {
+      nextAllowedAt = windowEnd;
+      reason = `No more than ${medication.max_doses_per_day} doses in 24 hours.`;
+    }
+  }
+
+  return {
+    allowed: nextAllowedAt === null,
+    nextAllowedAt,
+    reason,
+    dosesInLast24h: recent.length,
+    lastDoseAt,
+  };
+}
+
+/**
+ * Times of the as-needed doses logged in the last 24 hours, per medication
+ */
+export async function loadRecentPrnDoses(
+  userId: string,
+  medicationIds: string[]
+): Promise<Map<string, Date[]>> {
+  const doses = new Map<string, Date[]>();
+  if (medicationIds.length === 0) return doses;
+
+  const { data, error } = await supabase
+    .from('adherence_logs')
+    .select('medication_id, taken_at')
+    .eq('user_id', userId)
+    .eq('is_prn', true)
+    .eq('status', 'taken')
+    .in('medication_id', medicationIds)
+    .gte('taken_at', new Date(Date.now() - DAY_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Unable to load recent doses: ${error.message}`);
+  }
+
+  for (const log of data ?? []) {
+    if (!log.taken_at) continue;
+    doses.set(log.medication_id, [...(doses.get(log.medication_id) ?? []), new Date(log.taken_at)]);
+  }
+
+  return doses;
+}
+
+/**
+ * Log a dose taken now, unless the interval or daily maximum forbids it.
+ * The limits are checked against fresh data so other devices count too, and
+ * the database enforces them again for doses logged at the same moment.
+ */
+export async function logPrnDose(
+  userId: string,
+  medication: PrnMedication
+): Promise<{ logged: boolean; status: PrnDoseStatus }> {
+  const recentDoses = await loadRecentPrnDoses(userId, [medication.id]);
+  const now = new Date();
+  const status = getPrnDoseStatus(medication, recentDoses.get(medication.id) ?? [], now);
+
+  if (!status.allowed) {
+    return { logged: false, status };
+  }
+
+  const { error } = await supabase.from('adherence_logs').insert({
+    medication_id: medication.id,
+    user_id: userId,
+    scheduled_time: now.toISOString(),
+    taken_at: now.toISOString(),
+    recorded_at: now.toISOString(),
+    status: 'taken',
+    is_prn: true,
+  });
+
+  if (error?.code === DOSE_LIMIT_ERROR_CODE) {
+    // Another tab or device logged a dose since we checked
+    const latestDoses = await loadRecentPrnDoses(userId, [medication.id]);
+    const latestStatus = getPrnDoseStatus(medication, latestDoses.get(medication.id) ?? []);
+    if (latestStatus.allowed) {
+      throw new Error(error.message);
+    }
+    return { logged: false, status: latestStatus };
+  }
+
+  if (error) {
+    throw new Error(`Unable to log dose: ${error.message}`);
+  }
+
+  await adjustStock(medication.id, 1);
+
+  return {
+    logged: true,
+    status: getPrnDoseStatus(medication, [...(recentDoses.get(medication.id) ?? []), now], now),
+  };
+}
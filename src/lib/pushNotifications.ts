@@ -0,0 +1,138 @@
+import { supabase } from './supabase';
+
+/**
+ * Web Push subscription management for the service worker in public/sw.js.
+ * Each browser/device stores its own subscription in push_subscriptions so the
+ * send-reminders function can reach it while the app is closed.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+/**
+ * Whether this browser can receive push notifications at all
+ */
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+/**
+ * Whether a VAPID public key was configured for this build
+ */
+export function isPushConfigured(): boolean {
+  return Boolean(vapidPublicKey);
+}
+
+/**
+ * Register the service worker (safe to call repeatedly)
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+    return null;
+  }
+}
+
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+/**
+ * The push subscription of this device, if push is enabled here
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for permission, subscribe this device and store the subscription
+ */
+export async function enablePushNotifications(userId: string): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser.');
+  }
+  if (!vapidPublicKey) {
+    throw new Error('Push notifications are not configured (missing VITE_VAPID_PUBLIC_KEY).');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted.');
+  }
+
+  const registration = await registerServiceWorker();
+  if (!registration) {
+    throw new Error('Unable to register the service worker.');
+  }
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+    }));
+
+  const keys = subscription.toJSON().keys ?? {};
+  const { error } = await supabase.from('push_subscriptions').upsert(
+    {
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: navigator.userAgent,
+    },
+    { onConflict: 'endpoint' }
+  );
+
+  if (error) {
+    throw new Error(`Unable to save push subscription: ${error.message}`);
+  }
+}
+
+/**
+ * Unsubscribe this device and forget its subscription
+ */
+export async function disablePushNotifications(userId: string): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('endpoint', subscription.endpoint);
+
+  if (error) {
+    throw new Error(`Unable to remove push subscription: ${error.message}`);
+  }
+
+  await subscription.unsubscribe();
+}
+
+/**
+ * Number of devices the user has enabled push on
+ */
+export async function countPushSubscriptions(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('push_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error counting push subscriptions:', error);
+    return 0;
+  }
+
+  return count ?? 0;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import * as browser from './quietHours';
+import * as cronJob from '../../supabase/functions/send-reminders/quietHours.ts';
+
+// Both copies must agree on when a reminder is held back
+describe.each([
+  ['browser', browser],
+  ['cron job', cronJob],
+])('quiet hours (%s)', (_copy, { isWithinQuietHours, normalizeQuietHours }) => {
+  it('keeps only well-formed windows', () => {
+    expect(
+      normalizeQuietHours([
+        { start: '22:00:00', end: '07:00:00' },
+        { start: '12:00', end: '12:00' },
+        { start: '25:00', end: '07:00' },
+        { start: '13:00' },
+        null,
+      ])
+    ).toEqual([{ start: '22:00', end: '07:00' }]);
+    expect(normalizeQuietHours(null)).toEqual([]);
+  });
+
+  it('includes the start and excludes the end of a same-day window', () => {
+    const lunch = [{ start: '12:00', end: '13:00' }];
+    expect(isWithinQuietHours(lunch, new Date('2025-06-01T11:59:00Z'), 'UTC')).toBe(false);
+    expect(isWithinQuietHours(lunch, new Date('2025-06-01T12:00:00Z'), 'UTC')).toBe(true);
+    expect(isWithinQuietHours(lunch, new Date('2025-06-01T13:00:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('handles windows that span midnight', () => {
+    const night = [{ start: '22:00', end: '07:00' }];
+    expect(isWithinQuietHours(night, new Date('2025-06-01T23:30:00Z'), 'UTC')).toBe(true);
+    expect(isWithinQuietHours(night, new Date('2025-06-02T06:59:00Z'), 'UTC')).toBe(true);
+    expect(isWithinQuietHours(night, new Date('2025-06-02T07:00:00Z'), 'UTC')).toBe(false);
+    expect(isWithinQuietHours(night, new Date('2025-06-01T21:59:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('reads the clock in the user timezone', () => {
+    const night = [{ start: '22:00', end: '07:00' }];
+    // 03:00 UTC is 23:00 the evening before in New York
+    expect(isWithinQuietHours(night, new Date('2025-06-02T03:00:00Z'), 'America/New_York')).toBe(true);
+    expect(isWithinQuietHours(night, new Date('2025-06-02T03:00:00Z'), 'Asia/Tokyo')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import * as browser from './recurrence';
+import * as cronJob from '../../supabase/functions/send-reminders/recurrence.ts';
+import { buildRecurrenceRule, describeRecurrence, RecurringSchedule } from './recurrence';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Both copies must expand a schedule into the same doses
+describe.each([
+  ['browser', browser],
+  ['cron job', cronJob],
+])('getOccurrencesBetween (%s)', (_copy, { getOccurrencesBetween }) => {
+  function datesBetween(schedule: RecurringSchedule, start: string, end: string, timeZone = 'UTC') {
+    return getOccurrencesBetween(schedule, new Date(start), new Date(end), timeZone).map((dose) => dose.date);
+  }
+
+  it('spaces daily doses by the repeat interval from the anchor date', () => {
+    const everyOtherDay = { reminder_time: '08:00', repeat_interval: 2, anchor_date: '2025-06-01' };
+    expect(datesBetween(everyOtherDay, '2025-06-01T00:00:00Z', '2025-06-08T00:00:00Z')).toEqual([
+      '2025-06-01',
+      '2025-06-03',
+      '2025-06-05',
+      '2025-06-07',
+    ]);
+  });
+
+  it('keeps only the chosen weekdays', () => {
+    // 2025-06-02 is a Monday
+    const mondayThursday = { reminder_time: '08:00', by_weekday: [1, 4], anchor_date: '2025-06-01' };
+    expect(datesBetween(mondayThursday, '2025-06-01T00:00:00Z', '2025-06-15T00:00:00Z')).toEqual([
+      '2025-06-02',
+      '2025-06-05',
+      '2025-06-09',
+      '2025-06-12',
+    ]);
+  });
+
+  it('repeats on/off cycles from the anchor date', () => {
+    const threeOnTwoOff = { reminder_time: '08:00', cycle_on_days: 3, cycle_off_days: 2, anchor_date: '2025-06-01' };
+    expect(datesBetween(threeOnTwoOff, '2025-06-01T00:00:00Z', '2025-06-11T00:00:00Z')).toEqual([
+      '2025-06-01',
+      '2025-06-02',
+      '2025-06-03',
+      '2025-06-06',
+      '2025-06-07',
+      '2025-06-08',
+    ]);
+  });
+
+  it('has no doses before the anchor date or after the until date', () => {
+    const course = { reminder_time: '08:00', anchor_date: '2025-06-03', until_date: '2025-06-05' };
+    expect(datesBetween(course, '2025-06-01T00:00:00Z', '2025-06-10T00:00:00Z')).toEqual([
+      '2025-06-03',
+      '2025-06-04',
+      '2025-06-05',
+    ]);
+  });
+
+  it('counts hourly doses from the anchor date at the reminder time, end exclusive', () => {
+    const everyEightHours = { reminder_time: '08:00', frequency: 'hourly' as const, repeat_interval: 8, anchor_date: '2025-06-01' };
+    const doses = getOccurrencesBetween(
+      everyEightHours,
+      new Date('2025-06-01T00:00:00Z'),
+      new Date('2025-06-02T08:00:00Z'),
+      'UTC'
+    );
+    expect(doses.map((dose) => `${dose.date} ${dose.time}`)).toEqual([
+      '2025-06-01 08:00',
+      '2025-06-01 16:00',
+      '2025-06-02 00:00',
+    ]);
+  });
+
+  it('resolves the reminder time in the user timezone', () => {
+    const [dose] = getOccurrencesBetween(
+      { reminder_time: '08:00', anchor_date: '2025-06-01' },
+      new Date('2025-06-01T00:00:00Z'),
+      new Date('2025-06-02T00:00:00Z'),
+      'America/New_York'
+    );
+    expect(dose).toEqual({ date: '2025-06-01', time: '08:00', scheduledAt: new Date('2025-06-01T12:00:00Z') });
+  });
+
+  it('treats schedules from before recurrence existed as daily from the day they were created', () => {
+    const legacy = { reminder_time: '08:00', created_at: '2025-06-02T06:00:00Z' };
+    expect(datesBetween(legacy, '2025-06-01T00:00:00Z', '2025-06-05T00:00:00Z')).toEqual([
+      '2025-06-02',
+      '2025-06-03',
+      '2025-06-04',
+    ]);
+  });
+
+  it('finds no doses before a re-timed schedule row was created', () => {
+    // 08:00 moved to 10:00 at noon: the edit starts a new row at noon
+    const retimed = {
+      reminder_time: '10:00',
+      anchor_date: '2025-06-01',
+      created_at: '2025-06-10T12:00:00Z',
+    };
+    const editedAt = new Date('2025-06-10T12:00:00Z');
+
+    expect(getOccurrencesBetween(retimed, new Date(editedAt.getTime() - 24 * HOUR_MS), editedAt, 'UTC')).toEqual([]);
+    expect(
+      getOccurrencesBetween(retimed, new Date(editedAt.getTime() - 24 * HOUR_MS), new Date('2025-06-11T12:00:00Z'), 'UTC')
+    ).toEqual([{ date: '2025-06-11', time: '10:00', scheduledAt: new Date('2025-06-11T10:00:00Z') }]);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarises each kind of rule', () => {
+    expect(describeRecurrence({ reminder_time: '08:00' })).toBe('Every day');
+    expect(describeRecurrence({ reminder_time: '08:00', repeat_interval: 3 })).toBe('Every 3 days');
+    expect(describeRecurrence({ reminder_time: '08:00', frequency: 'hourly', repeat_interval: 6 })).toBe('Every 6 hours');
+    expect(describeRecurrence({ reminder_time: '08:00', by_weekday: [1, 4] })).toBe('Mon, Thu');
+    expect(describeRecurrence({ reminder_time: '08:00', cycle_on_days: 21, cycle_off_days: 7 })).toBe('21 days on / 7 off');
+  });
+});
+
+describe('buildRecurrenceRule', () => {
+  const form = { pattern: 'daily' as const, interval: 2, weekdays: [4, 1], cycleOnDays: 21, cycleOffDays: 7, anchorDate: '2025-06-01' };
+
+  it('only stores the columns of the chosen pattern', () => {
+    expect(buildRecurrenceRule(form)).toEqual({
+      frequency: 'daily',
+      repeat_interval: 1,
+      by_weekday: null,
+      cycle_on_days: null,
+      cycle_off_days: null,
+      anchor_date: '2025-06-01',
+      until_date: null,
+    });
+    expect(buildRecurrenceRule({ ...form, pattern: 'weekdays' })).toMatchObject({ by_weekday: [1, 4] });
+    expect(buildRecurrenceRule({ ...form, pattern: 'every_n_hours' })).toMatchObject({ frequency: 'hourly', repeat_interval: 2 });
+    expect(buildRecurrenceRule({ ...form, pattern: 'cycle' })).toMatchObject({ cycle_on_days: 21, cycle_off_days: 7 });
+  });
+
+  it('stores no weekday filter when none is picked', () => {
+    expect(buildRecurrenceRule({ ...form, pattern: 'weekdays', weekdays: [] }).by_weekday).toBeNull();
+  });
+});
@@ -1,11 +1,35 @@
 import { supabase } from './supabase';
+import { getOccurrencesBetween, RecurringSchedule } from './recurrence';
+import {
+  AdherenceOutboxEntry,
+  getAdherenceOutboxEntry,
+  getOutboxEntryId,
+  getPendingAdherenceActions,
+  putAdherenceOutboxEntry,
+  recordAdherenceOutboxAttempt,
+  removeAdherenceOutboxEntry,
+} from './adherenceOutbox';
+import {
+  getBrowserTimeZone,
+  getDueLocalTimes,
+  getLocalDayRange,
+  getZonedDateParts,
+  resolveTimeZone,
+  zonedDateTimeToUtc,
+} from './timezone';
+import { isWithinQuietHours, normalizeQuietHours, QuietHoursWindow } from './quietHours';
+import { getDosageOn, MedicationPhase } from './phases';
+import { StructuredDosage } from './dosage';
+import { adjustStock } from './inventory';
 
 export interface MedicationWithSchedule {
   id: string;
   medication_name: string;
   dosage: string;
   instructions?: string;
+  is_critical?: boolean;
   reminder_time: string;
+  scheduled_time?: string; // UTC timestamp of the dose, as stored in adherence_logs
 }
 
 interface ReminderNotificationOptions {
@@ -18,132 +42,313 @@ let lastNotifiedReminders: Set<string> = new Set();
 let reminderCallback: ((medication: MedicationWithSchedule) => void) | null = null;
 let pageRefreshCallback: (() => void) | null = null;
 let nextCheckTimeout: NodeJS.Timeout | null = null;
+let userTimeZone: string = getBrowserTimeZone();
+let quietHours: QuietHoursWindow[] = [];
+let overdueCallback: ((reminders: MedicationWithSchedule[]) => void) | null = null;
+let visibilityHandler: (() => void) | null = null;
+let onlineHandler: (() => void) | null = null;
 
-export type AdherenceStatus = 'taken' | 'missed' | 'not_taken_auto';
-export const AUTO_NOT_TAKEN_TIMEOUT_MS = 5 * 60 * 1000;
+export type AdherenceStatus = 'taken' | 'missed' | 'not_taken_auto' | 'snoozed';
+export const SNOOZE_OPTIONS_MINUTES = [5, 10, 30];
 
-const autoMarkTimeouts = new Map<string, NodeJS.Timeout>();
+// How far back catch-up looks for doses missed while the app was closed
+export const CATCH_UP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const LAST_CHECK_STORAGE_PREFIX = 'medibot:last-reminder-check:';
 
-function getReminderKey(userId: string, medicationId: string, reminderTime: string): string {
-  return `${userId}:${medicationId}:${reminderTime}`;
+interface RecordAdherenceOptions {
+  userId: string;
+  medicationId: string;
+  reminderTime: string;
+  scheduledTime?: string;
+  status: AdherenceStatus;
+  skipIfCompleted?: boolean;
 }
 
-export function clearAutoMarkTimeout(userId: string, medicationId: string, reminderTime: string): void {
-  const key = getReminderKey(userId, medicationId, reminderTime);
-  const timer = autoMarkTimeouts.get(key);
-  if (timer) {
-    clearTimeout(timer);
-    autoMarkTimeouts.delete(key);
-  }
+/**
+ * Timezone the reminder service evaluates schedules in
+ */
+export function getReminderTimeZone(): string {
+  return userTimeZone;
 }
 
-function scheduleAutoMarkNotTaken(userId: string, medication: MedicationWithSchedule): void {
-  const key = getReminderKey(userId, medication.id, medication.reminder_time);
+/**
+ * Update the timezone used for reminders, e.g. after the profile changes
+ */
+export function setReminderTimeZone(timeZone: string): void {
+  userTimeZone = resolveTimeZone(timeZone);
+  lastNotifiedReminders.clear();
+}
 
-  const existingTimer = autoMarkTimeouts.get(key);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-  }
+/**
+ * Update the quiet hours notifications are silenced in
+ */
+export function setReminderQuietHours(windows: QuietHoursWindow[]): void {
+  quietHours = normalizeQuietHours(windows);
+}
 
-  const timer = setTimeout(() => {
-    autoMarkTimeouts.delete(key);
-    void recordAdherenceStatus({
-      userId,
-      medicationId: medication.id,
-      reminderTime: medication.reminder_time,
-      status: 'not_taken_auto',
-      skipIfCompleted: true,
-    });
-  }, AUTO_NOT_TAKEN_TIMEOUT_MS);
+/**
+ * Load the user's timezone (defaulting to the browser's) and quiet hours
+ * from their profile
+ */
+async function loadReminderTimeZone(userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('timezone, quiet_hours')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading user timezone:', error);
+    return;
+  }
 
-  autoMarkTimeouts.set(key, timer);
+  userTimeZone = data?.timezone ? resolveTimeZone(data.timezone) : getBrowserTimeZone();
+  quietHours = normalizeQuietHours(data?.quiet_hours);
 }
 
-interface RecordAdherenceOptions {
-  userId: string;
-  medicationId: string;
-  reminderTime: string;
-  status: AdherenceStatus;
-  skipIfCompleted?: boolean;
+/**
+ * Get today's date (YYYY-MM-DD) in the user's timezone
+ */
+export function getTodayDateString(): string {
+  return getZonedDateParts(new Date(), userTimeZone).date;
 }
 
-function getScheduledDateTime(reminderTime: string): string {
-  const today = new Date().toISOString().split('T')[0];
-  return `${today}T${reminderTime}`;
+/**
+ * Resolve a reminder time on a local date (today by default) to the UTC
+ * timestamp stored in adherence_logs.scheduled_time
+ */
+export function getScheduledDateTime(reminderTime: string, date: string = getTodayDateString()): string {
+  return zonedDateTimeToUtc(date, reminderTime, userTimeZone).toISOString();
 }
 
-export async function recordAdherenceStatus({
-  userId,
-  medicationId,
-  reminderTime,
-  status,
-  skipIfCompleted = false,
-}: RecordAdherenceOptions): Promise<void> {
-  const scheduledDateTime = getScheduledDateTime(reminderTime);
+let outboxFlush: Promise<void> | null = null;
 
-  try {
-    const { data: existingLog, error: existingError } = await supabase
-      .from('adherence_logs')
-      .select('id, status')
-      .eq('medication_id', medicationId)
-      .eq('user_id', userId)
-      .eq('scheduled_time', scheduledDateTime)
-      .maybeSingle();
+// Give up on an action the server keeps rejecting (e.g. the medication was deleted)
+const MAX_OUTBOX_ATTEMPTS = 10;
 
-    if (existingError) {
-      console.error('Error reading adherence log:', existingError);
-      return;
-    }
+/**
+ * Write one outbox action to adherence_logs. Returns false when another
+ * device already recorded a newer answer for the dose, which then wins.
+ */
+async function applyAdherenceAction(entry: AdherenceOutboxEntry): Promise<boolean> {
+  const { data: existingLog, error: existingError } = await supabase
+    .from('adherence_logs')
+    .select('id, status, recorded_at, snooze_count')
+    .eq('medication_id', entry.medicationId)
+    .eq('user_id', entry.userId)
+    .eq('scheduled_time', entry.scheduledTime)
+    .maybeSingle();
+
+  if (existingError) {
+    throw existingError;
+  }
 
-    if (
-      skipIfCompleted &&
-      existingLog &&
-      (existingLog.status === 'taken' || existingLog.status === 'missed')
-    ) {
-      clearAutoMarkTimeout(userId, medicationId, reminderTime);
-      return;
+  if (existingLog) {
+    const isCompleted = existingLog.status === 'taken' || existingLog.status === 'missed';
+    if (entry.skipIfCompleted && isCompleted) {
+      return false;
     }
+    if (existingLog.recorded_at && new Date(existingLog.recorded_at) > new Date(entry.clientRecordedAt)) {
+      return false;
+    }
+  }
 
-    const isTaken = status === 'taken';
-    const payload = {
-      status,
-      taken_at: isTaken ? new Date().toISOString() : null,
-    };
+  // A replayed snooze whose response was lost is already counted
+  const replayed = existingLog?.recorded_at
+    && new Date(existingLog.recorded_at).getTime() === new Date(entry.clientRecordedAt).getTime();
+
+  // Upsert on (medication_id, scheduled_time) so replaying an action whose
+  // response was lost does not create a second log
+  const { error } = await supabase.from('adherence_logs').upsert(
+    {
+      medication_id: entry.medicationId,
+      user_id: entry.userId,
+      scheduled_time: entry.scheduledTime,
+      status: entry.status,
+      taken_at: entry.status === 'taken' ? entry.clientRecordedAt : null,
+      snoozed_until: entry.status === 'snoozed' ? entry.snoozedUntil ?? null : null,
+      ...(entry.status === 'snoozed' && {
+        snooze_count: (existingLog?.snooze_count ?? 0) + (replayed ? 0 : 1),
+      }),
+      recorded_at: entry.clientRecordedAt,
+    },
+    { onConflict: 'medication_id,scheduled_time' }
+  );
+
+  if (error) {
+    throw error;
+  }
 
-    if (existingLog) {
-      const { error: updateError } = await supabase
-        .from('adherence_logs')
-        .update(payload)
-        .eq('id', existingLog.id);
+  // Keep the pill count in step when a dose becomes, or stops being, taken
+  const wasTaken = existingLog?.status === 'taken';
+  if (entry.status === 'taken' && !wasTaken) {
+    await adjustStock(entry.medicationId, 1);
+  } else if (entry.status !== 'taken' && wasTaken) {
+    await adjustStock(entry.medicationId, -1);
+  }
 
-      if (updateError) {
-        console.error('Error updating adherence log:', updateError);
-        return;
-      }
-    } else {
-      const { error: insertError } = await supabase.from('adherence_logs').insert({
-        medication_id: medicationId,
-        user_id: userId,
-        scheduled_time: scheduledDateTime,
-        ...payload,
-      });
-
-      if (insertError) {
-        console.error('Error inserting adherence log:', insertError);
-        return;
+  return true;
+}
+
+// Errors from PostgREST or Postgres carry a code; a dropped connection does not
+function isServerRejection(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && Boolean((error as { code?: string }).code);
+}
+
+/**
+ * Replay queued adherence actions, oldest first. Stops at the first failure
+ * so the rest wait for the next attempt (reconnect, next minute tick).
+ */
+export function flushAdherenceOutbox(userId: string): Promise<void> {
+  if (outboxFlush) return outboxFlush;
+  // The 'online' listener flushes again once the connection is back
+  if (!navigator.onLine) return Promise.resolve();
+
+  let superseded = false;
+
+  outboxFlush = (async () => {
+    const pending = await getPendingAdherenceActions(userId);
+    let changed = false;
+
+    for (const entry of pending) {
+      try {
+        const applied = await applyAdherenceAction(entry);
+        if (!applied) {
+          console.log(`Adherence action for ${entry.scheduledTime} superseded by a newer status`);
+        }
+        // A newer tap for the same dose may have been queued meanwhile; it stays for the next pass
+        if (!(await removeAdherenceOutboxEntry(entry))) {
+          superseded = true;
+        }
+        changed = true;
+      } catch (error) {
+        console.error('Error syncing adherence action:', error);
+        // Only refusals count toward the limit, so an outage never drops a queued action
+        if (isServerRejection(error)) {
+          if (entry.attempts + 1 >= MAX_OUTBOX_ATTEMPTS) {
+            await removeAdherenceOutboxEntry(entry);
+          } else {
+            await recordAdherenceOutboxAttempt(entry);
+          }
+        }
+        break;
       }
     }
 
-    if (status !== 'not_taken_auto') {
-      clearAutoMarkTimeout(userId, medicationId, reminderTime);
+    if (changed && pageRefreshCallback) {
+      pageRefreshCallback();
     }
+  })()
+    .catch((error) => console.error('Error flushing adherence outbox:', error))
+    .finally(() => {
+      outboxFlush = null;
+      if (superseded) {
+        void flushAdherenceOutbox(userId);
+      }
+    });
+
+  return outboxFlush;
+}
 
+/**
+ * Queue an action in the offline outbox, show it optimistically and write it
+ * as soon as possible. Without IndexedDB it is written straight through.
+ */
+async function queueAdherenceAction(entry: AdherenceOutboxEntry): Promise<void> {
+  try {
+    await putAdherenceOutboxEntry(entry);
+  } catch (error) {
+    // No IndexedDB (e.g. some private browsing modes): write straight through
+    console.error('Adherence outbox unavailable, writing directly:', error);
+    try {
+      await applyAdherenceAction(entry);
+    } catch (writeError) {
+      console.error('Error recording adherence action:', writeError);
+    }
     if (pageRefreshCallback) {
       pageRefreshCallback();
     }
-  } catch (error) {
-    console.error('Error recording adherence status:', error);
+    return;
+  }
+
+  if (pageRefreshCallback) {
+    pageRefreshCallback();
   }
+
+  await flushAdherenceOutbox(entry.userId);
+}
+
+/**
+ * Record a Taken/Missed/auto status through the offline outbox
+ */
+export async function recordAdherenceStatus({
+  userId,
+  medicationId,
+  reminderTime,
+  scheduledTime,
+  status,
+  skipIfCompleted = false,
+}: RecordAdherenceOptions): Promise<void> {
+  if (status === 'snoozed') {
+    console.error('Use snoozeReminder to snooze a dose');
+    return;
+  }
+
+  const scheduledDateTime = new Date(scheduledTime ?? getScheduledDateTime(reminderTime)).toISOString();
+  const entry: AdherenceOutboxEntry = {
+    id: getOutboxEntryId(userId, medicationId, scheduledDateTime),
+    userId,
+    medicationId,
+    reminderTime,
+    scheduledTime: scheduledDateTime,
+    status,
+    skipIfCompleted,
+    clientRecordedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  // An auto-mark must not replace an answer that is still waiting to sync
+  const queued = await getAdherenceOutboxEntry(entry.id).catch(() => undefined);
+  if (skipIfCompleted && queued && (queued.status === 'taken' || queued.status === 'missed')) {
+    return;
+  }
+
+  await queueAdherenceAction(entry);
+}
+interface SnoozeReminderOptions {
+  userId: string;
+  medication: MedicationWithSchedule;
+  minutes: number;
+}
+
+/**
+ * Snooze a dose: records a 'snoozed' adherence log so the reminder fires again
+ * at snoozed_until, both here and through the user's reminder channel. Goes
+ * through the offline outbox like any other answer.
+ */
+export async function snoozeReminder({
+  userId,
+  medication,
+  minutes,
+}: SnoozeReminderOptions): Promise<void> {
+  const scheduledDateTime = new Date(
+    medication.scheduled_time ?? getScheduledDateTime(medication.reminder_time)
+  ).toISOString();
+  // Round up to a whole minute so the per-minute checks pick it up exactly once
+  const snoozedUntil = new Date(Math.ceil((Date.now() + minutes * 60000) / 60000) * 60000);
+
+  await queueAdherenceAction({
+    id: getOutboxEntryId(userId, medication.id, scheduledDateTime),
+    userId,
+    medicationId: medication.id,
+    reminderTime: medication.reminder_time,
+    scheduledTime: scheduledDateTime,
+    status: 'snoozed',
+    snoozedUntil: snoozedUntil.toISOString(),
+    skipIfCompleted: false,
+    clientRecordedAt: new Date().toISOString(),
+    attempts: 0,
+  });
 }
 
 /**
@@ -182,6 +387,8 @@ export function showNotification(medication: MedicationWithSchedule): void {
   }
 
   const title = `Medication Reminder: ${medication.medication_name}`;
+  // Same rule as send-reminders: only critical medications may make noise in quiet hours
+  const quiet = !medication.is_critical && isWithinQuietHours(quietHours, new Date(), userTimeZone);
   const options: ReminderNotificationOptions = {
     title,
     options: {
@@ -191,10 +398,20 @@ export function showNotification(medication: MedicationWithSchedule): void {
       badge: '/pill-badge.png',
       tag: `reminder-${medication.id}`,
       requireInteraction: true, // Keep notification until user dismisses
-      vibrate: [200, 100, 200],
+      silent: quiet,
+      vibrate: quiet ? undefined : [200, 100, 200],
     },
   };
 
+  // Prefer the service worker, which also works where the page-bound
+  // Notification constructor is unavailable (e.g. Chrome on Android)
+  if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+    void navigator.serviceWorker.ready
+      .then((registration) => registration.showNotification(options.title, options.options))
+      .catch((error) => console.error('Error showing notification:', error));
+    return;
+  }
+
   try {
     const notification = new Notification(options.title, options.options);
 
@@ -220,39 +437,77 @@ export function showNotification(medication: MedicationWithSchedule): void {
   }
 }
 
-/**
- * Get current time in HH:MM format
- */
-function getCurrentTimeString(): string {
-  const now = new Date();
-  const hours = String(now.getHours()).padStart(2, '0');
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  return `${hours}:${minutes}`;
+interface DueScheduleRow extends RecurringSchedule {
+  id: string;
+  medications: (Partial<StructuredDosage> & {
+    id: string;
+    medication_name: string;
+    dosage: string;
+    instructions?: string;
+    is_critical?: boolean;
+    end_date?: string | null;
+    medication_phases?: MedicationPhase[] | null;
+  }) | null;
+}
+
+function getCurrentMinuteStart(): Date {
+  return new Date(Math.floor(Date.now() / 60000) * 60000);
 }
 
 /**
- * Fetch due reminders for the current user
+ * Fetch the current user's scheduled doses within [start, end)
+ * Expands each schedule's recurrence rule in the user's timezone. Pass
+ * `localTimes` to only load schedules at those reminder times.
  */
-async function fetchDueReminders(userId: string): Promise<MedicationWithSchedule[]> {
+async function fetchRemindersBetween(
+  userId: string,
+  start: Date,
+  end: Date,
+  localTimes?: string[]
+): Promise<MedicationWithSchedule[]> {
   try {
-    const currentTime = getCurrentTimeString();
-
-    const { data: schedules, error: schedulesError } = await supabase
+    let query = supabase
       .from('medication_schedules')
       .select(
         `
         id,
         reminder_time,
+        created_at,
+        frequency,
+        repeat_interval,
+        by_weekday,
+        cycle_on_days,
+        cycle_off_days,
+        anchor_date,
+        until_date,
         medications (
           id,
           medication_name,
           dosage,
-          instructions
+          dose_strength,
+          dose_unit,
+          dose_quantity,
+          dose_form,
+          instructions,
+          is_critical,
+          end_date,
+          medication_phases (
+            position,
+            start_date,
+            end_date,
+            dosage
+          )
         )
       `
       )
-      .eq('active', true)
-      .eq('reminder_time', currentTime);
+      .eq('active', true);
+
+    // Hourly schedules can land on any minute and are always expanded
+    if (localTimes) {
+      query = query.or(`frequency.eq.hourly,reminder_time.in.(${localTimes.join(',')})`);
+    }
+
+    const { data: schedules, error: schedulesError } = await query.returns<DueScheduleRow[]>();
 
     if (schedulesError) {
       console.error('Error fetching schedules:', schedulesError);
@@ -276,25 +531,139 @@ async function fetchDueReminders(userId: string): Promise<MedicationWithSchedule
     }
 
     const userMedicationIds = new Set(medications.map((m) => m.id));
+    const dueReminders: MedicationWithSchedule[] = [];
+
+    for (const schedule of schedules) {
+      const med = schedule.medications;
+      if (!med || !userMedicationIds.has(med.id)) continue;
+
+      const occurrences = getOccurrencesBetween(schedule, start, end, userTimeZone);
+      for (const occurrence of occurrences) {
+        // No reminders once the course is over, even before it is marked completed
+        if (med.end_date && occurrence.date > med.end_date) continue;
+
+        dueReminders.push({
+          id: med.id,
+          medication_name: med.medication_name,
+          dosage: getDosageOn(med, occurrence.date),
+          instructions: med.instructions,
+          is_critical: med.is_critical,
+          reminder_time: occurrence.time,
+          scheduled_time: occurrence.scheduledAt.toISOString(),
+        });
+      }
+    }
 
-    return schedules
-      .filter((schedule: any) => {
-        const med = schedule.medications as any;
-        return med && userMedicationIds.has(med.id);
-      })
-      .map((schedule: any) => ({
-        id: schedule.medications.id,
-        medication_name: schedule.medications.medication_name,
-        dosage: schedule.medications.dosage,
-        instructions: schedule.medications.instructions,
-        reminder_time: schedule.reminder_time,
-      }));
+    return dueReminders;
   } catch (error) {
     console.error('Error fetching due reminders:', error);
     return [];
   }
 }
 
+/**
+ * Fetch reminders with a dose in the current minute, matching schedules on
+ * the local times due now like the cron job does
+ */
+function fetchDueReminders(userId: string): Promise<MedicationWithSchedule[]> {
+  const minuteStart = getCurrentMinuteStart();
+  return fetchRemindersBetween(
+    userId,
+    minuteStart,
+    new Date(minuteStart.getTime() + 60000),
+    getDueLocalTimes(minuteStart, userTimeZone)
+  );
+}
+
+/**
+ * Fetch snoozed doses whose snooze ends in the current minute
+ */
+async function fetchDueSnoozes(userId: string): Promise<MedicationWithSchedule[]> {
+  try {
+    const minuteStart = getCurrentMinuteStart();
+    const minuteEnd = new Date(minuteStart.getTime() + 60000);
+
+    const { data: logs, error } = await supabase
+      .from('adherence_logs')
+      .select(
+        `
+        scheduled_time,
+        medications (
+          id,
+          medication_name,
+          dosage,
+          dose_strength,
+          dose_unit,
+          dose_quantity,
+          dose_form,
+          instructions,
+          is_critical,
+          medication_phases (
+            position,
+            start_date,
+            end_date,
+            dosage
+          )
+        )
+      `
+      )
+      .eq('user_id', userId)
+      .eq('status', 'snoozed')
+      .gte('snoozed_until', minuteStart.toISOString())
+      .lt('snoozed_until', minuteEnd.toISOString())
+      .returns<{ scheduled_time: string; medications: DueScheduleRow['medications'] }[]>();
+
+    if (error) {
+      console.error('Error fetching snoozed reminders:', error);
+      return [];
+    }
+
+    return (logs ?? []).flatMap(({ scheduled_time, medications: med }) => {
+      if (!med) return [];
+
+      const dose = getZonedDateParts(new Date(scheduled_time), userTimeZone);
+      return [{
+        id: med.id,
+        medication_name: med.medication_name,
+        dosage: getDosageOn(med, dose.date),
+        instructions: med.instructions,
+        is_critical: med.is_critical,
+        reminder_time: dose.time,
+        scheduled_time,
+      }];
+    });
+  } catch (error) {
+    console.error('Error fetching snoozed reminders:', error);
+    return [];
+  }
+}
+
+/**
+ * Surface a reminder: modal and browser notification. Unanswered doses are
+ * recorded as not taken by the send-reminders 'finalize' job.
+ */
+function fireReminder(reminder: MedicationWithSchedule, reminderId: string): void {
+  lastNotifiedReminders.add(reminderId);
+
+  // Trigger page refresh
+  if (pageRefreshCallback) {
+    pageRefreshCallback();
+  }
+
+  // Show modal via callback if available
+  if (reminderCallback) {
+    reminderCallback(reminder);
+  }
+
+  // Always try to show browser notification
+  showNotification(reminder);
+
+  // Clean up after 61 seconds to allow re-notification next minute
+  setTimeout(() => {
+    lastNotifiedReminders.delete(reminderId);
+  }, 61000);
+}
+
 /**
  * Check for due reminders and show notifications
  */
@@ -308,7 +677,8 @@ async function checkAndNotifyReminders(userId: string): Promise<void> {
       // Only notify once per minute per reminder
       if (!lastNotifiedReminders.has(reminderId)) {
         // Check DB to see if already handled (persists across refreshes)
-        const scheduledDateTime = getScheduledDateTime(reminder.reminder_time);
+        const scheduledDateTime =
+          reminder.scheduled_time ?? getScheduledDateTime(reminder.reminder_time);
         const { data: existingLog } = await supabase
           .from('adherence_logs')
           .select('id')
@@ -322,27 +692,17 @@ async function checkAndNotifyReminders(userId: string): Promise<void> {
           continue;
         }
 
-        lastNotifiedReminders.add(reminderId);
-
-        scheduleAutoMarkNotTaken(userId, reminder);
+        fireReminder(reminder, reminderId);
+      }
+    }
 
-        // Trigger page refresh
-        if (pageRefreshCallback) {
-          pageRefreshCallback();
-        }
+    const dueSnoozes = await fetchDueSnoozes(userId);
 
-        // Show modal via callback if available
-        if (reminderCallback) {
-          reminderCallback(reminder);
-        }
+    for (const reminder of dueSnoozes) {
+      const reminderId = `${reminder.id}-snooze-${reminder.scheduled_time}`;
 
-        // Always try to show browser notification
-        showNotification(reminder);
-
-        // Clean up after 61 seconds to allow re-notification next minute
-        setTimeout(() => {
-          lastNotifiedReminders.delete(reminderId);
-        }, 61000);
+      if (!lastNotifiedReminders.has(reminderId)) {
+        fireReminder(reminder, reminderId);
       }
     }
   } catch (error) {
@@ -350,6 +710,84 @@ async function checkAndNotifyReminders(userId: string): Promise<void> {
   }
 }
 
+function getLastReminderCheck(userId: string): Date | null {
+  try {
+    const stored = window.localStorage.getItem(`${LAST_CHECK_STORAGE_PREFIX}${userId}`);
+    return stored ? new Date(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setLastReminderCheck(userId: string, checkedUntil: Date): void {
+  try {
+    window.localStorage.setItem(`${LAST_CHECK_STORAGE_PREFIX}${userId}`, checkedUntil.toISOString());
+  } catch (error) {
+    console.error('Error saving last reminder check:', error);
+  }
+}
+
+/**
+ * Find doses scheduled since the last check that have no adherence log,
+ * e.g. because the tab was closed, asleep or throttled at the time
+ */
+async function checkOverdueReminders(userId: string): Promise<void> {
+  try {
+    const until = getCurrentMinuteStart();
+    const lastCheck =
+      getLastReminderCheck(userId) ?? new Date(getLocalDayRange(getTodayDateString(), userTimeZone).start);
+    const since = new Date(Math.max(lastCheck.getTime(), until.getTime() - CATCH_UP_WINDOW_MS));
+
+    if (since >= until) return;
+
+    const scheduled = await fetchRemindersBetween(userId, since, until);
+    if (scheduled.length === 0) return;
+
+    // Doses the server finalized as not taken are still offered, so the
+    // patient can correct them
+    const { data: logs, error } = await supabase
+      .from('adherence_logs')
+      .select('medication_id, scheduled_time')
+      .eq('user_id', userId)
+      .neq('status', 'not_taken_auto')
+      .gte('scheduled_time', since.toISOString())
+      .lt('scheduled_time', until.toISOString());
+
+    if (error) {
+      console.error('Error fetching adherence logs for catch-up:', error);
+      return;
+    }
+
+    const loggedDoses = new Set(
+      (logs ?? []).map((log) => `${log.medication_id}:${new Date(log.scheduled_time).toISOString()}`)
+    );
+    // Answers recorded offline count as logged even before they sync
+    (await getPendingAdherenceActions(userId)).forEach((entry) =>
+      loggedDoses.add(`${entry.medicationId}:${entry.scheduledTime}`)
+    );
+    const overdue = scheduled.filter(
+      (reminder) => !loggedDoses.has(`${reminder.id}:${reminder.scheduled_time}`)
+    );
+
+    if (overdue.length > 0 && overdueCallback) {
+      overdueCallback(overdue);
+    }
+  } catch (error) {
+    console.error('Error checking overdue reminders:', error);
+  }
+}
+
+/**
+ * Catch up on anything missed since the last check, then handle the current minute
+ */
+async function runReminderChecks(userId: string): Promise<void> {
+  const minuteStart = getCurrentMinuteStart();
+  await flushAdherenceOutbox(userId);
+  await checkOverdueReminders(userId);
+  await checkAndNotifyReminders(userId);
+  setLastReminderCheck(userId, new Date(minuteStart.getTime() + 60000));
+}
+
 /**
  * Start the reminder checking service
  * Checks for reminders every minute
@@ -362,9 +800,14 @@ export function startReminderService(userId: string): void {
 
   console.log('Starting reminder service for user:', userId);
 
-  // Check immediately
-  checkAndNotifyReminders(userId);
-  checkMissedMedications(userId);
+  // Check immediately, once the user's timezone is known
+  void loadReminderTimeZone(userId).then(() => {
+    void runReminderChecks(userId);
+    checkMissedMedications(userId);
+    if (pageRefreshCallback) {
+      pageRefreshCallback();
+    }
+  });
 
   // Set up interval to check every minute (at the start of each minute)
   const checkReminders = () => {
@@ -373,15 +816,31 @@ export function startReminderService(userId: string): void {
     const msUntilNextMinute = (secondsUntilNextMinute % 60) * 1000 - now.getMilliseconds();
 
     nextCheckTimeout = setTimeout(() => {
-      checkAndNotifyReminders(userId);
+      void runReminderChecks(userId);
       // After first check, set up regular interval
       reminderCheckInterval = setInterval(() => {
-        checkAndNotifyReminders(userId);
+        void runReminderChecks(userId);
       }, 60000); // Check every 60 seconds
     }, Math.max(0, msUntilNextMinute));
   };
 
   checkReminders();
+
+  // Timers are paused or throttled while the device sleeps or the tab is in
+  // the background, so catch up whenever the page becomes visible again
+  visibilityHandler = () => {
+    if (document.visibilityState === 'visible') {
+      void checkOverdueReminders(userId);
+    }
+  };
+  document.addEventListener('visibilitychange', visibilityHandler);
+  window.addEventListener('focus', visibilityHandler);
+
+  // Replay adherence actions recorded while offline as soon as we reconnect
+  onlineHandler = () => {
+    void flushAdherenceOutbox(userId);
+  };
+  window.addEventListener('online', onlineHandler);
 }
 
 /**
@@ -397,9 +856,18 @@ export function stopReminderService(): void {
     clearTimeout(nextCheckTimeout);
     nextCheckTimeout = null;
   }
+  if (visibilityHandler) {
+    document.removeEventListener('visibilitychange', visibilityHandler);
+    window.removeEventListener('focus', visibilityHandler);
+    visibilityHandler = null;
+  }
+  if (onlineHandler) {
+    window.removeEventListener('online', onlineHandler);
+    onlineHandler = null;
+  }
   lastNotifiedReminders.clear();
-  autoMarkTimeouts.forEach((timeout) => clearTimeout(timeout));
-  autoMarkTimeouts.clear();
+  userTimeZone = getBrowserTimeZone();
+  quietHours = [];
 }
 
 /**
@@ -438,7 +906,7 @@ async function checkMissedMedications(userId: string): Promise<void> {
     // Group by medication
     const missedByMed = new Map<string, Set<string>>();
     logs.forEach(log => {
-      const date = new Date(log.scheduled_time).toDateString();
+      const date = getZonedDateParts(new Date(log.scheduled_time), userTimeZone).date;
       if (!missedByMed.has(log.medication_id)) {
         missedByMed.set(log.medication_id, new Set());
       }
@@ -448,32 +916,25 @@ async function checkMissedMedications(userId: string): Promise<void> {
     // Check for 3 active days
     for (const [medId, dates] of missedByMed.entries()) {
       if (dates.size >= 3) {
-        // Fetch medication name and family members
-        const { data: med } = await supabase.from('medications').select('medication_name').eq('id', medId).single();
-        const { data: family } = await supabase.from('family_members').select('name, email').eq('user_id', userId);
-
-        if (family && family.length > 0) {
-          for (const member of family) {
-            if (member.email) {
-              console.log(`[ALERT] Sending email to ${member.name} (${member.email}) for missed medication: ${med?.medication_name}`);
-
-              await supabase.functions.invoke('send-reminders', {
-                body: {
-                  mode: 'send-alert',
-                  to: member.email,
-                  message: `Hello ${member.name}, checking in for ${med?.medication_name}. The patient has missed 3 consecutive doses. Please check on them.`,
-                  subject: `Urgent: Missed Medication Alert - ${med?.medication_name}`
-                }
-              });
-            }
-          }
+        // The server re-checks the rule, picks the recipients from the user's
+        // family members and sends at most one alert per medication per day
+        const { data, error } = await supabase.functions.invoke('send-reminders', {
+          body: {
+            mode: 'notify-caregivers',
+            medicationId: medId,
+          },
+        });
+
+        if (error) {
+          console.error('Error notifying caregivers:', error);
+          continue;
+        }
 
-          if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification('Family Alert Triggered', {
-              body: `We've notified your family members about missed doses of ${med?.medication_name}.`,
-              icon: '/alert-icon.png'
-            });
-          }
+        if (data?.recipients > 0 && 'Notification' in window && Notification.permission === 'granted') {
+          new Notification('Family Alert Triggered', {
+            body: `We've notified your family members about missed doses of ${data.medication}.`,
+            icon: '/alert-icon.png'
+          });
         }
       }
     }
@@ -482,6 +943,13 @@ async function checkMissedMedications(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Register a callback for doses that came due while the app was not running
+ */
+export function setOverdueCallback(callback: (reminders: MedicationWithSchedule[]) => void): void {
+  overdueCallback = callback;
+}
+
 /**
  * Register a callback to refresh the page when a reminder is triggered
  */
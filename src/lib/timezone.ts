@@ -0,0 +1,173 @@
+/**
+ * Timezone helpers shared by the reminder service and dashboard views.
+ * Mirrors supabase/functions/send-reminders/timezone.ts so the browser and the
+ * cron job agree on what "today at 08:00" means for a given user.
+ */
+
+export const FALLBACK_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ZonedDateParts {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  weekday: number; // 0 (Sunday) - 6 (Saturday)
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check whether a string is an IANA timezone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a stored timezone, falling back to UTC when it is missing or invalid
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return isValidTimeZone(timeZone) ? timeZone : FALLBACK_TIMEZONE;
+}
+
+/**
+ * Detect the timezone configured in the browser
+ */
+export function getBrowserTimeZone(): string {
+  return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+/**
+ * List the IANA timezones supported by the browser for pickers
+ */
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  const browserZone = getBrowserTimeZone();
+  return zones.includes(browserZone) ? zones : [browserZone, ...zones];
+}
+
+function getRawParts(date: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+}
+
+/**
+ * Break an instant down into the wall-clock date and time of a timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = getRawParts(date, timeZone);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getRawParts(date, timeZone);
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to the matching instant.
+ * Times skipped by a DST jump resolve to the first valid instant after the gap.
+ */
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const naiveUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  const firstOffset = getTimeZoneOffsetMs(new Date(naiveUtc), timeZone);
+  const candidate = naiveUtc - firstOffset;
+  const secondOffset = getTimeZoneOffsetMs(new Date(candidate), timeZone);
+
+  if (firstOffset === secondOffset) {
+    return new Date(candidate);
+  }
+
+  // The offset changed between the guess and the answer; the later offset
+  // holds for times just past the jump, otherwise the time was skipped
+  const retry = naiveUtc - secondOffset;
+  if (getTimeZoneOffsetMs(new Date(retry), timeZone) === secondOffset) {
+    return new Date(retry);
+  }
+
+  return new Date(naiveUtc - Math.min(firstOffset, secondOffset));
+}
+
+/**
+ * Local reminder times that are due at an instant: its wall-clock time, plus
+ * any time skipped by a DST jump that zonedDateTimeToUtc moves to it (02:30
+ * on a spring-forward night fires at 03:30).
+ */
+export function getDueLocalTimes(instant: Date, timeZone: string): string[] {
+  const times = [getZonedDateParts(instant, timeZone).time];
+
+  // A skipped time reads the clock with the offset from before the jump
+  const offsetBefore = getTimeZoneOffsetMs(new Date(instant.getTime() - DAY_MS), timeZone);
+  const [date, clock] = new Date(instant.getTime() + offsetBefore).toISOString().split('T');
+  const skipped = clock.slice(0, 5);
+
+  if (skipped !== times[0] && zonedDateTimeToUtc(date, skipped, timeZone).getTime() === instant.getTime()) {
+    times.push(skipped);
+  }
+
+  return times;
+}
+
+/**
+ * Shift a YYYY-MM-DD date string by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * UTC bounds of a local calendar day, for querying timestamptz columns
+ */
+export function getLocalDayRange(date: string, timeZone: string): { start: string; end: string } {
+  return {
+    start: zonedDateTimeToUtc(date, '00:00', timeZone).toISOString(),
+    end: zonedDateTimeToUtc(addDays(date, 1), '00:00', timeZone).toISOString(),
+  };
+}
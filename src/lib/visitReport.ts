@@ -0,0 +1,264 @@
+/**
+ * Doctor-visit summary, built as a PDF in the browser: health profile basics,
+ * the active medication list with schedules, adherence over a chosen range
+ * and recent missed doses with the patient's notes.
+ */
+import { jsPDF } from 'jspdf';
+import { supabase } from './supabase';
+import { StructuredDosage } from './dosage';
+import { getDosageOn, MedicationPhase } from './phases';
+import { describeRecurrence, RecurringSchedule } from './recurrence';
+import { getReminderTimeZone, getTodayDateString } from './reminderService';
+import { addDays, getZonedDateParts, zonedDateTimeToUtc } from './timezone';
+import { AnalyticsLog, getAdherenceRate, getStreaks, loadAnalyticsLogs } from './adherenceAnalytics';
+
+export interface VisitProfile {
+  full_name: string;
+  age: number | null;
+  weight: number | null;
+  blood_group: string | null;
+  allergies: string[] | null;
+  medical_conditions: string[] | null;
+}
+
+interface VisitSchedule extends RecurringSchedule {
+  active: boolean;
+}
+
+export interface VisitMedication extends Partial<StructuredDosage> {
+  id: string;
+  medication_name: string;
+  dosage: string;
+  instructions: string | null;
+  is_prn: boolean;
+  medication_phases: MedicationPhase[] | null;
+  medication_schedules: VisitSchedule[] | null;
+}
+
+export interface MissedDose {
+  id: string;
+  medication_id: string;
+  scheduled_time: string;
+  status: string;
+  notes: string | null;
+  medications: { medication_name: string } | null;
+}
+
+export interface VisitAppointment {
+  doctor_name: string;
+  specialty: string | null;
+  hospital_clinic: string | null;
+  appointment_date: string;
+}
+
+export interface VisitReportData {
+  profile: VisitProfile;
+  medications: VisitMedication[];
+  logs: AnalyticsLog[];
+  missedDoses: MissedDose[]; // most recent first
+  from: string; // local YYYY-MM-DD, inclusive
+  to: string;
+}
+
+// Missed doses listed in the PDF, most recent first
+export const MISSED_DOSE_LIMIT = 20;
+
+const PAGE_MARGIN = 18;
+const LINE_HEIGHT = 5.5;
+
+export async function loadVisitReportData(userId: string, from: string, to: string): Promise<VisitReportData | null> {
+  const timeZone = getReminderTimeZone();
+  const since = zonedDateTimeToUtc(from, '00:00', timeZone);
+  const until = zonedDateTimeToUtc(addDays(to, 1), '00:00', timeZone);
+
+  const [{ data: profile, error: profileError }, { data: medications, error: medicationsError }, logs, { data: missedDoses, error: missedError }] =
+    await Promise.all([
+      supabase
+        .from('user_profiles')
+        .select('full_name, age, weight, blood_group, allergies, medical_conditions')
+        .eq('id', userId)
+        .maybeSingle(),
+      supabase
+        .from('medications')
+        .select(
+          'id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, instructions, is_prn, medication_phases(position, start_date, end_date, dosage), medication_schedules(reminder_time, frequency, repeat_interval, by_weekday, cycle_on_days, cycle_off_days, anchor_date, until_date, active)'
+        )
+        .eq('user_id', userId)
+        .eq('active', true)
+        .order('medication_name'),
+      // Without the full history the adherence figures would be wrong
+      loadAnalyticsLogs(userId, since, until).catch((logsError) => {
+        console.error('Error loading adherence logs:', logsError);
+        return null;
+      }),
+      supabase
+        .from('adherence_logs')
+        .select('id, medication_id, scheduled_time, status, notes, medications(medication_name)')
+        .eq('user_id', userId)
+        .eq('is_prn', false)
+        .in('status', ['missed', 'not_taken_auto'])
+        .gte('scheduled_time', since.toISOString())
+        .lt('scheduled_time', until.toISOString())
+        .order('scheduled_time', { ascending: false })
+        .limit(MISSED_DOSE_LIMIT)
+        .returns<MissedDose[]>(),
+    ]);
+
+  const error = profileError ?? medicationsError ?? missedError;
+  if (error || !profile || !logs) {
+    console.error('Error loading visit report:', error);
+    return null;
+  }
+
+  return {
+    profile,
+    medications: (medications ?? []) as VisitMedication[],
+    logs,
+    missedDoses: missedDoses ?? [],
+    from,
+    to,
+  };
+}
+
+export async function saveMissedDoseNote(logId: string, notes: string): Promise<void> {
+  const { error } = await supabase
+    .from('adherence_logs')
+    .update({ notes: notes.trim() || null })
+    .eq('id', logId);
+
+  if (error) throw error;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function describeSchedule(medication: VisitMedication): string {
+  if (medication.is_prn) return 'As needed';
+
+  const schedules = (medication.medication_schedules ?? []).filter((schedule) => schedule.active);
+  if (schedules.length === 0) return 'No reminder times';
+
+  return schedules
+    .map((schedule) => `${schedule.reminder_time.slice(0, 5)} (${describeRecurrence(schedule)})`)
+    .sort()
+    .join(', ');
+}
+
+/**
+ * Lay out the visit summary on A4 pages, optionally headed by the
+ * appointment it was prepared for
+ */
+export function buildVisitReportPdf(data: VisitReportData, appointment?: VisitAppointment | null): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PAGE_MARGIN * 2;
+  const timeZone = getReminderTimeZone();
+  const today = getTodayDateString();
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const write = (text: string, options: { bold?: boolean; size?: number; indent?: number } = {}) => {
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(options.size ?? 10);
+    const lines: string[] = doc.splitTextToSize(text, textWidth - (options.indent ?? 0));
+    for (const line of lines) {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, PAGE_MARGIN + (options.indent ?? 0), y);
+      y += LINE_HEIGHT;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 3);
+    y += LINE_HEIGHT / 2;
+    write(text, { bold: true, size: 13 });
+    doc.setDrawColor(203, 213, 225);
+    doc.line(PAGE_MARGIN, y - LINE_HEIGHT + 2, pageWidth - PAGE_MARGIN, y - LINE_HEIGHT + 2);
+    y += 1;
+  };
+
+  // Header
+  write('Medication summary for doctor visit', { bold: true, size: 18 });
+  y += 1;
+  write(`Patient: ${data.profile.full_name}`, { size: 11 });
+  if (appointment) {
+    const when = new Date(appointment.appointment_date).toLocaleString('en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone,
+    });
+    const specialty = appointment.specialty ? ` (${appointment.specialty})` : '';
+    const place = appointment.hospital_clinic ? `, ${appointment.hospital_clinic}` : '';
+    write(`Appointment: ${appointment.doctor_name}${specialty}${place} on ${when}`, { size: 11 });
+  }
+  write(`Prepared on ${formatDate(today)} with MediBot`, { size: 9 });
+
+  // Health profile
+  heading('Health profile');
+  const { age, weight, blood_group, allergies, medical_conditions } = data.profile;
+  write(`Age: ${age ?? 'Not recorded'}    Weight: ${weight ? `${weight} kg` : 'Not recorded'}    Blood group: ${blood_group || 'Not recorded'}`);
+  write(`Allergies: ${allergies?.length ? allergies.join(', ') : 'None recorded'}`);
+  write(`Conditions: ${medical_conditions?.length ? medical_conditions.join(', ') : 'None recorded'}`);
+
+  // Medications
+  heading('Current medications');
+  if (data.medications.length === 0) {
+    write('No active medications.');
+  }
+  for (const medication of data.medications) {
+    ensureSpace(LINE_HEIGHT * 3);
+    write(`${medication.medication_name} - ${getDosageOn(medication, today) || 'dose not recorded'}`, { bold: true });
+    write(`Schedule: ${describeSchedule(medication)}`, { indent: 4 });
+    if (medication.instructions) {
+      write(`Instructions: ${medication.instructions}`, { indent: 4 });
+    }
+  }
+
+  // Adherence
+  heading(`Adherence from ${formatDate(data.from)} to ${formatDate(data.to)}`);
+  const overall = getAdherenceRate(data.logs);
+  const streaks = getStreaks(data.logs, timeZone);
+  if (overall.rate === null) {
+    write('No scheduled doses were recorded in this period.');
+  } else {
+    write(
+      `Overall: ${overall.rate}% (${overall.taken} of ${overall.total} doses taken, ${overall.total - overall.taken} missed)`
+    );
+    write(`Longest run of days with every dose taken: ${streaks.best} days. Current run: ${streaks.current} days.`);
+    y += 1;
+    for (const medication of data.medications) {
+      const rate = getAdherenceRate(data.logs.filter((log) => log.medication_id === medication.id));
+      if (rate.rate === null) continue;
+      write(`${medication.medication_name}: ${rate.rate}% (${rate.taken} of ${rate.total})`, { indent: 4 });
+    }
+  }
+
+  // Missed doses
+  heading('Recent missed doses');
+  if (data.missedDoses.length === 0) {
+    write('No missed doses in this period.');
+  }
+  for (const dose of data.missedDoses) {
+    const { date, time } = getZonedDateParts(new Date(dose.scheduled_time), timeZone);
+    const reason = dose.status === 'missed' ? 'marked missed' : 'not answered';
+    write(`${formatDate(date)} ${time} - ${dose.medications?.medication_name ?? 'Unknown medication'} (${reason})`);
+    if (dose.notes) {
+      write(`Note: ${dose.notes}`, { indent: 4 });
+    }
+  }
+
+  return doc;
+}
@@ -0,0 +1,39 @@
+/**
+ * Structured dosage stored on medications.
+ * Mirrors the formatting in src/lib/dosage.ts so the reminder text and the
+ * app read the same.
+ */
+
+export type DoseUnit = 'mg' | 'mcg' | 'g' | 'IU' | 'units' | '%';
+
+export type DoseForm = 'tablet' | 'capsule' | 'ml' | 'puff' | 'drop' | 'patch' | 'injection' | 'sachet';
+
+export interface StructuredDosage {
+  dose_strength: number | null; // e.g. 500 (mg per tablet)
+  dose_unit: DoseUnit | null;
+  dose_quantity: number | null; // items (or ml) per intake, e.g. 2
+  dose_form: DoseForm | null;
+}
+
+function formatCount(quantity: number, form: DoseForm): string {
+  if (form === 'ml') return `${quantity} ml`;
+  const plural = form === 'patch' ? 'patches' : `${form}s`;
+  return `${quantity} ${quantity === 1 ? form : plural}`;
+}
+
+/**
+ * Render a dosage the same way everywhere, e.g. "2 tablets of 500 mg".
+ * Falls back to the free text when nothing structured is stored.
+ */
+export function formatDosage(dosage: Partial<StructuredDosage> & { dosage?: string | null }): string {
+  const strength =
+    dosage.dose_strength != null && dosage.dose_unit
+      ? `${dosage.dose_strength}${dosage.dose_unit === '%' ? '' : ' '}${dosage.dose_unit}`
+      : null;
+  const count = dosage.dose_quantity != null && dosage.dose_form ? formatCount(dosage.dose_quantity, dosage.dose_form) : null;
+
+  if (strength && count) {
+    return `${count} of ${strength}`;
+  }
+  return strength ?? count ?? dosage.dosage ?? '';
+}
@@ -0,0 +1,80 @@
+/**
+ * Escalation ladder for unacknowledged reminders.
+ * Mirrors src/lib/escalation.ts so the settings preview matches what the cron
+ * job sends.
+ */
+
+export type EscalationChannel = 'email' | 'whatsapp' | 'telegram' | 'push';
+
+export interface EscalationPolicy {
+  id: string;
+  user_id: string;
+  medication_id: string | null;
+  enabled: boolean;
+  repeat_after_minutes: number;
+  repeat_count: number;
+  secondary_channel: EscalationChannel | null;
+  secondary_after_minutes: number;
+  notify_emergency_contacts: boolean;
+  emergency_after_minutes: number;
+}
+
+export type EscalationStepKind = 'repeat' | 'secondary' | 'emergency';
+
+export interface EscalationStep {
+  key: string; // stored in reminder_logs.escalation_step, e.g. 'repeat-10'
+  kind: EscalationStepKind;
+  afterMinutes: number; // counted from the scheduled dose time
+  channel: EscalationChannel | null; // null for emergency contacts (email)
+}
+
+/**
+ * Expand a policy into its steps, in the order they fire
+ */
+export function buildEscalationSteps(
+  policy: EscalationPolicy,
+  primaryChannel: EscalationChannel
+): EscalationStep[] {
+  if (!policy.enabled) return [];
+
+  const steps: EscalationStep[] = [];
+
+  for (let repeat = 1; repeat <= policy.repeat_count; repeat += 1) {
+    const afterMinutes = policy.repeat_after_minutes * repeat;
+    steps.push({ key: `repeat-${afterMinutes}`, kind: 'repeat', afterMinutes, channel: primaryChannel });
+  }
+
+  if (policy.secondary_channel && policy.secondary_channel !== primaryChannel) {
+    steps.push({
+      key: `secondary-${policy.secondary_after_minutes}`,
+      kind: 'secondary',
+      afterMinutes: policy.secondary_after_minutes,
+      channel: policy.secondary_channel,
+    });
+  }
+
+  if (policy.notify_emergency_contacts) {
+    steps.push({
+      key: `emergency-${policy.emergency_after_minutes}`,
+      kind: 'emergency',
+      afterMinutes: policy.emergency_after_minutes,
+      channel: null,
+    });
+  }
+
+  return steps.sort((a, b) => a.afterMinutes - b.afterMinutes);
+}
+
+/**
+ * Policy that applies to a medication: its own override, else the user default
+ */
+export function resolveEscalationPolicy(
+  policies: EscalationPolicy[],
+  userId: string,
+  medicationId: string
+): EscalationPolicy | undefined {
+  return (
+    policies.find((policy) => policy.medication_id === medicationId) ??
+    policies.find((policy) => policy.user_id === userId && policy.medication_id === null)
+  );
+}
@@ -2,29 +2,65 @@ import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
 // Use nodemailer for reliable SMTP handling
 // @deno-types="npm:@types/nodemailer@6.4.14"
 import nodemailer from 'npm:nodemailer@6.9.7';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
+import { addDays, getDueLocalTimes, getLocalDayRange, getZonedDateParts, resolveTimeZone } from './timezone.ts';
+import { getOccurrencesBetween, RecurrenceRule, ScheduleOccurrence } from './recurrence.ts';
+import {
+  buildEscalationSteps,
+  EscalationPolicy,
+  EscalationStep,
+  resolveEscalationPolicy,
+} from './escalation.ts';
+import { isWithinQuietHours, normalizeQuietHours, QuietHoursMode } from './quietHours.ts';
+import { getDosageOn, MedicationPhase } from './phases.ts';
+import { formatDosage, StructuredDosage } from './dosage.ts';
+import { estimateDaysRemaining, needsRefill, StockedMedication } from './inventory.ts';
+import { AdherenceReport, buildAdherenceReport, getReportWindow, ReportLog, ReportPeriod, ReportWindow } from './report.ts';
+import {
+  PushAction,
+  PushActionClaims,
+  PushMessage,
+  sendPushNotification,
+  verifyPushActionToken,
+} from './push.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Browsers may only call the function from ALLOWED_ORIGIN (the app's URL).
+// Without it no origin is allowed, rather than every origin.
+const allowedOrigin = Deno.env.get('ALLOWED_ORIGIN');
+
+const corsHeaders: Record<string, string> = {
+  ...(allowedOrigin && { 'Access-Control-Allow-Origin': allowedOrigin }),
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const SUPPORTED_CHANNELS = ['email', 'whatsapp', 'telegram'] as const;
+const SUPPORTED_CHANNELS = ['email', 'whatsapp', 'telegram', 'push'] as const;
 
 type SupportedChannel = (typeof SUPPORTED_CHANNELS)[number];
 
-interface MedicationSchedule {
+type DeliveryMode = 'all' | 'first_success';
+
+interface MedicationSchedule extends RecurrenceRule {
   id: string;
   medication_id: string;
   reminder_time: string;
+  created_at: string | null;
 }
 
-interface Medication {
+interface Medication extends Partial<StructuredDosage> {
   id: string;
   user_id: string;
   medication_name: string;
   dosage: string;
   instructions?: string | null;
+  is_critical?: boolean | null;
+  end_date?: string | null;
+  medication_phases?: MedicationPhase[] | null;
+}
+
+interface StockedMedicationRow extends Medication, StockedMedication {
+  stock_updated_at: string | null;
 }
 
 interface UserProfile {
@@ -34,6 +70,81 @@ interface UserProfile {
   whatsapp_number: string | null;
   telegram_chat_id: string | null;
   email: string | null;
+  timezone: string | null;
+  delivery_mode: DeliveryMode | null;
+  quiet_hours: unknown;
+  quiet_hours_mode: QuietHoursMode | null;
+  weekly_report?: boolean | null;
+  monthly_report?: boolean | null;
+}
+
+interface NotificationChannelRow {
+  user_id: string;
+  channel: string;
+}
+
+interface SnoozedLog {
+  id: string;
+  medication_id: string;
+  user_id: string;
+  scheduled_time: string;
+  snoozed_until: string;
+  snooze_count: number;
+}
+
+interface ReminderDispatch {
+  dispatchKey: string;
+  scheduleId: string | null;
+  medicationId: string | null; // null for digests covering several doses
+  scheduledTime: string | null; // UTC timestamp of the dose
+  channel: SupportedChannel;
+  subject: string;
+  message: string;
+  escalationStep?: string | null; // see escalation.ts; null for the first reminder
+  recipient?: string | null; // email of a family member instead of the user
+}
+
+interface PendingDispatchRow {
+  id: string;
+  user_id: string;
+  medication_id: string | null;
+  schedule_id: string | null;
+  channel: SupportedChannel;
+  scheduled_time: string | null;
+  subject: string;
+  message: string;
+  escalation_step: string | null;
+  recipient: string | null;
+  attempts: number;
+  claimed_at: string;
+}
+
+interface EmergencyContact {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string | null;
+}
+
+interface DoseLog {
+  id: string;
+  medication_id: string;
+  user_id: string;
+  scheduled_time: string;
+  status: string;
+  snoozed_until: string | null;
+}
+
+interface EmailBody {
+  html: string;
+  text: string;
+}
+
+interface UpcomingAppointment {
+  doctor_name: string;
+  specialty: string | null;
+  hospital_clinic: string | null;
+  appointment_date: string;
 }
 
 interface ReminderResult {
@@ -44,16 +155,66 @@ interface ReminderResult {
   errorMessage?: string | null;
 }
 
+// Modes a signed-in user or a notification action may call; everything else
+// (finalize, reports and the per-minute run) is for the scheduled job only
+const USER_MODES = ['test', 'direct-email', 'send-alert', 'push-action', 'notify-caregivers'];
+
 interface RequestPayload {
-  mode?: 'test' | 'direct-email' | 'send-alert';
+  mode?: 'test' | 'direct-email' | 'send-alert' | 'push-action' | 'finalize' | 'notify-caregivers' | 'reports';
   userId?: string;
   channel?: string;
   message?: string;
   to?: string;
   subject?: string;
   payload?: Record<string, unknown>;
+  token?: string;
+  action?: string;
+  medicationId?: string;
+}
+
+type AlertMode = 'send-alert' | 'notify-caregivers' | 'finalize';
+
+interface AlertAuditEntry {
+  user_id: string;
+  mode: AlertMode;
+  recipient: string | null;
+  subject: string | null;
+  medication_id?: string | null;
+  status: 'sent' | 'failed' | 'rejected' | 'rate_limited';
+  error_message?: string | null;
 }
 
+// Snooze length offered by the push notification's Snooze button
+const PUSH_SNOOZE_MINUTES = 10;
+
+// A dispatch still 'pending' after this long is assumed to have crashed mid-send
+const STUCK_DISPATCH_MS = 2 * 60 * 1000;
+const MAX_DISPATCH_ATTEMPTS = 3;
+// Do not resend reminders for doses further in the past than this
+const DISPATCH_RETRY_WINDOW_MS = 60 * 60 * 1000;
+
+// How long a dose may stay unanswered before 'finalize' records it as not taken
+const missedDoseGraceMinutes = Math.max(0, Number(Deno.env.get('MISSED_DOSE_GRACE_MINUTES') ?? '30') || 0);
+// How far back 'finalize' looks, so doses are still finalized after an outage
+const FINALIZE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Family members are alerted once a medication was missed on this many days
+const CAREGIVER_ALERT_MISSED_DAYS = 3;
+// "Your course ends soon" goes out this many days before end_date
+const COURSE_END_NOTICE_DAYS = 2;
+// Course-end and refill notices are sent from this local time on, not overnight
+const NOTICE_LOCAL_TIME = '09:00';
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Ids per `.in()` filter, which keeps request URLs well under proxy limits
+const ID_BATCH_SIZE = 200;
+// Upcoming appointments listed in an adherence report
+const REPORT_APPOINTMENT_LIMIT = 5;
+
+// Alerts a signed-in user may trigger (send-alert and notify-caregivers)
+const ALERT_RATE_LIMIT_PER_HOUR = Number(Deno.env.get('ALERT_RATE_LIMIT_PER_HOUR') ?? '5') || 5;
+const ALERT_RATE_LIMIT_PER_DAY = Number(Deno.env.get('ALERT_RATE_LIMIT_PER_DAY') ?? '20') || 20;
+const MAX_ALERT_MESSAGE_LENGTH = 2000;
+
 const twilioAccountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
 const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN');
 const twilioWhatsAppFrom = Deno.env.get('TWILIO_WHATSAPP_FROM');
@@ -109,10 +270,18 @@ async function sendEmailMessageGmail(
   message: string,
   subject = 'Medication Reminder'
 ) {
+  return sendEmail(to, subject, { html: formatEmailHTML(message), text: extractPlainText(message) });
+}
+
+/**
+ * Send an email with ready-made HTML and plain-text parts, trying Gmail
+ * SMTP, then Resend, then the relay log
+ */
+async function sendEmail(to: string, subject: string, body: EmailBody): Promise<{ success: boolean; error?: string }> {
   try {
     // Try direct SMTP to Gmail first
     if (gmailEmail && gmailAppPassword) {
-      const result = await sendViaSMTP(to, subject, message, gmailEmail, gmailAppPassword);
+      const result = await sendViaSMTP(to, subject, body, gmailEmail, gmailAppPassword);
       if (result.success) {
         return result;
       }
@@ -121,12 +290,12 @@ async function sendEmailMessageGmail(
 
     // Fallback to Resend if configured
     if (resendApiKey) {
-      return await sendViaResend(to, subject, message);
+      return await sendViaResend(to, subject, body);
     }
 
     // Last resort: database logging (Removed external API fallback)
     console.log(`[EMAIL] Falling back to relay logging for ${to}`);
-    return await sendViaEmailRelay(to, subject, message);
+    return await sendViaEmailRelay(to, subject, body.text);
   } catch (error) {
     console.error('Email send error:', error);
     return { success: false, error: `Email error: ${error instanceof Error ? error.message : 'Unknown error'}` };
@@ -138,7 +307,7 @@ async function sendEmailMessageGmail(
 async function sendViaSMTP(
   to: string,
   subject: string,
-  htmlContent: string,
+  body: EmailBody,
   from: string,
   appPassword: string
 ): Promise<{ success: boolean; error?: string }> {
@@ -172,8 +341,8 @@ async function sendViaSMTP(
       from: `MediBot Reminders <${from}>`,
       to: to,
       subject: subject,
-      html: formatEmailHTML(htmlContent),
-      text: extractPlainText(htmlContent),
+      html: body.html,
+      text: body.text,
       // Add reply-to to prevent bounces
       replyTo: from,
     });
@@ -195,7 +364,7 @@ async function sendViaSMTP(
   }
 }
 
-async function sendViaResend(to: string, subject: string, htmlContent: string): Promise<{ success: boolean; error?: string }> {
+async function sendViaResend(to: string, subject: string, body: EmailBody): Promise<{ success: boolean; error?: string }> {
   try {
     const response = await fetch('https://api.resend.com/emails', {
       method: 'POST',
@@ -207,8 +376,8 @@ async function sendViaResend(to: string, subject: string, htmlContent: string):
         from: emailFromAddress,
         to: to,
         subject: subject,
-        html: formatEmailHTML(htmlContent),
-        text: extractPlainText(htmlContent),
+        html: body.html,
+        text: body.text,
       }),
     });
 
@@ -355,18 +524,19 @@ const resolveChannel = (channel: string | null | undefined): SupportedChannel =>
 function buildReminderMessage(
   profile: UserProfile,
   medication?: Medication,
-  reminderTime?: string
+  dose?: { date: string; time: string }
 ) {
   const greeting = `Hi ${profile.full_name},`;
+  const dosage = medication && (dose ? getDosageOn(medication, dose.date) : formatDosage(medication));
   const medicationLine = medication
-    ? `it's time to take your medication ${medication.medication_name} (${medication.dosage}).`
+    ? `it's time to take your medication ${medication.medication_name} (${dosage}).`
     : 'this is a reminder from your MediBot assistant.';
 
   const instructions = medication?.instructions
     ? `Instructions: ${medication.instructions}`
     : '';
 
-  const timing = reminderTime ? `Scheduled time: ${reminderTime}` : '';
+  const timing = dose ? `Scheduled time: ${dose.time}` : '';
 
   return [greeting, medicationLine, instructions, timing]
     .filter((line) => Boolean(line))
@@ -377,7 +547,8 @@ async function dispatchNotification(
   channel: SupportedChannel,
   profile: UserProfile,
   message: string,
-  subject?: string
+  subject?: string,
+  dose?: PushMessage['dose']
 ): Promise<ReminderResult> {
   if (channel === 'email') {
     if (!profile.email) {
@@ -436,6 +607,21 @@ async function dispatchNotification(
     };
   }
 
+  if (channel === 'push') {
+    const result = await sendPushNotification(profile.id, {
+      title: subject || 'Medication Reminder',
+      body: message,
+      tag: dose ? `reminder-${dose.medicationId}-${dose.scheduledTime}` : undefined,
+      dose,
+    });
+    return {
+      user: profile.full_name,
+      channel,
+      status: result.success ? 'sent' : 'failed',
+      errorMessage: result.success ? null : result.error,
+    };
+  }
+
   return {
     user: profile.full_name,
     channel,
@@ -444,231 +630,2250 @@ async function dispatchNotification(
   };
 }
 
-Deno.serve(async (req: Request) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
+/**
+ * Record the Taken/Snooze button pressed on a push notification.
+ * Returns the resulting adherence status.
+ */
+async function recordPushAction(
+  supabase: SupabaseClient,
+  claims: PushActionClaims,
+  action: PushAction
+): Promise<string> {
+  const { data: existingLog, error: existingError } = await supabase
+    .from('adherence_logs')
+    .select('id, status, snooze_count')
+    .eq('medication_id', claims.medicationId)
+    .eq('user_id', claims.userId)
+    .eq('scheduled_time', claims.scheduledTime)
+    .maybeSingle();
+
+  if (existingError) {
+    throw existingError;
   }
 
-  let payload: RequestPayload | null = null;
-  if (req.method !== 'GET') {
-    try {
-      payload = (await req.json()) as RequestPayload;
-    } catch {
-      payload = null;
-    }
+  // A stale notification must not undo an answer given elsewhere
+  if (existingLog?.status === 'taken' || (action === 'snooze' && existingLog?.status === 'missed')) {
+    return existingLog.status;
   }
 
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    if (payload?.mode === 'send-alert') {
-      if (!payload.to || !payload.message) {
-        return new Response(
-          JSON.stringify({ error: 'send-alert mode requires "to" and "message".' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+  const payload =
+    action === 'taken'
+      ? {
+        status: 'taken',
+        taken_at: new Date().toISOString(),
+        snoozed_until: null,
+        recorded_at: new Date().toISOString(),
       }
+      : {
+        status: 'snoozed',
+        taken_at: null,
+        // Whole minute, so the per-minute cron run picks it up exactly once
+        snoozed_until: new Date(
+          Math.ceil((Date.now() + PUSH_SNOOZE_MINUTES * 60000) / 60000) * 60000
+        ).toISOString(),
+        snooze_count: (existingLog?.snooze_count ?? 0) + 1,
+        recorded_at: new Date().toISOString(),
+      };
 
-      const result = await sendEmailMessageGmail(
-        payload.to,
-        payload.message,
-        payload.subject || 'MediBot Alert'
-      );
+  const { error } = existingLog
+    ? await supabase.from('adherence_logs').update(payload).eq('id', existingLog.id)
+    : await supabase.from('adherence_logs').insert({
+      medication_id: claims.medicationId,
+      user_id: claims.userId,
+      scheduled_time: claims.scheduledTime,
+      ...payload,
+    });
 
-      return new Response(
-        JSON.stringify({
-          message: 'Alert sent.',
-          success: result.success,
-          error: result.error
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  if (error) {
+    throw error;
+  }
 
-    // 'direct-email' mode removed as it depended on external API
-    if (payload?.mode === 'direct-email') {
-      return new Response(
-        JSON.stringify({ error: 'direct-email mode is no longer supported.' }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  if (payload.status === 'taken') {
+    await adjustMedicationStock(supabase, claims.medicationId, 1);
+  }
 
-    if (payload?.mode === 'test') {
-      if (!payload.userId) {
-        return new Response(
-          JSON.stringify({ error: 'Test mode requires a userId.' }),
-          {
-            status: 400,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
-      }
+  return payload.status;
+}
 
-      const { data: profile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .eq('id', payload.userId)
-        .single();
+/**
+ * Take doses out of a medication's stock, if the user tracks it
+ */
+async function adjustMedicationStock(
+  supabase: SupabaseClient,
+  medicationId: string,
+  doses: number
+): Promise<void> {
+  // The function updates in place, so a dose answered in the app at the same time still counts
+  const { error } = await supabase.rpc('adjust_medication_stock', { medication_id: medicationId, doses });
+
+  if (error) {
+    console.error(`Error updating stock of ${medicationId}:`, error);
+  }
+}
 
-      if (profileError || !profile) {
-        return new Response(
-          JSON.stringify({
-            error:
-              profileError?.message ?? 'Unable to locate user profile for test reminder.',
-          }),
-          {
-            status: 404,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
-      }
+/**
+ * Whether a reminder for a non-critical medication falls in the user's quiet hours
+ */
+function isQuietFor(profile: UserProfile, medication: Medication, at: Date): boolean {
+  return (
+    !medication.is_critical &&
+    isWithinQuietHours(normalizeQuietHours(profile.quiet_hours), at, resolveTimeZone(profile.timezone))
+  );
+}
 
-      const requestedChannel =
-        typeof payload.channel === 'string' ? payload.channel : profile.preferred_channel;
-      const resolvedChannel = resolveChannel(requestedChannel);
-      const hasCustomMessage =
-        typeof payload.message === 'string' && payload.message.trim().length > 0;
-      const message = hasCustomMessage
-        ? payload.message!.trim()
-        : buildReminderMessage(profile as UserProfile);
+/**
+ * Record a reminder that was not sent because of quiet hours, either 'held'
+ * for the digest or 'skipped'
+ */
+async function holdForQuietHours(
+  supabase: SupabaseClient,
+  dispatch: Omit<ReminderDispatch, 'channel'>,
+  profile: UserProfile,
+  channel: SupportedChannel,
+  hold: boolean
+): Promise<void> {
+  const { error } = await supabase.from('reminder_logs').upsert(
+    {
+      dispatch_key: `${dispatch.dispatchKey}:quiet`,
+      user_id: profile.id,
+      medication_id: dispatch.medicationId,
+      schedule_id: dispatch.scheduleId,
+      scheduled_time: dispatch.scheduledTime,
+      channel,
+      subject: dispatch.subject,
+      message: dispatch.message,
+      escalation_step: dispatch.escalationStep ?? null,
+      recipient: dispatch.recipient ?? null,
+      status: hold ? 'held' : 'skipped',
+      error_message: hold ? 'Held for the quiet hours digest.' : 'Skipped during quiet hours.',
+    },
+    { onConflict: 'dispatch_key', ignoreDuplicates: true }
+  );
 
-      const reminderResult = await dispatchNotification(
-        resolvedChannel,
-        profile as UserProfile,
-        message,
-        'Test Medication Reminder'
-      );
+  if (error) {
+    throw error;
+  }
+}
 
-      await supabase.from('reminder_logs').insert({
-        user_id: profile.id,
-        medication_id: null,
-        channel: reminderResult.channel,
-        status: reminderResult.status,
-        sent_at: reminderResult.status === 'sent' ? new Date().toISOString() : null,
-        error_message: reminderResult.errorMessage ?? null,
-      });
+/**
+ * Enabled, verified channels of each user in their chosen order. Users
+ * without one fall back to their preferred_channel.
+ */
+async function loadDeliveryChannels(
+  supabase: SupabaseClient,
+  profiles: UserProfile[]
+): Promise<Map<string, SupportedChannel[]>> {
+  const { data: rows, error } = await supabase
+    .from('notification_channels')
+    .select('user_id, channel')
+    .in('user_id', profiles.map((profile) => profile.id))
+    .eq('enabled', true)
+    .not('verified_at', 'is', null)
+    .order('position');
+
+  if (error) {
+    throw error;
+  }
 
-      return new Response(
-        JSON.stringify({
-          message: 'Test reminder processed.',
-          results: [reminderResult],
-        }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+  const channels = new Map<string, SupportedChannel[]>();
+  for (const profile of profiles) {
+    const verified = ((rows ?? []) as NotificationChannelRow[])
+      .filter((row) => row.user_id === profile.id && isSupportedChannel(row.channel))
+      .map((row) => row.channel as SupportedChannel);
+    channels.set(profile.id, verified.length > 0 ? verified : [resolveChannel(profile.preferred_channel)]);
+  }
+  return channels;
+}
+
+/**
+ * Send a reminder on each of the user's channels, each claimed separately in
+ * the ledger. In 'first_success' mode the channels are tried in order until
+ * one delivers.
+ */
+async function dispatchToChannels(
+  supabase: SupabaseClient,
+  dispatch: Omit<ReminderDispatch, 'channel'>,
+  profile: UserProfile,
+  channels: SupportedChannel[]
+): Promise<ReminderResult[]> {
+  const stopAtFirstSuccess = profile.delivery_mode === 'first_success';
+  const results: ReminderResult[] = [];
+
+  for (const channel of channels) {
+    const result = await dispatchOnce(
+      supabase,
+      { ...dispatch, dispatchKey: `${dispatch.dispatchKey}:${channel}`, channel },
+      profile
+    );
+
+    if (!result) {
+      // Another run claimed this channel and continues down the list itself
+      if (stopAtFirstSuccess) break;
+      continue;
     }
 
-    const now = new Date();
-    // Manual adjustment for IST (UTC+5:30)
-    // In a production app, we should store user timezones and query accordingly.
-    const istOffset = 5.5 * 60 * 60 * 1000;
-    const istDate = new Date(now.getTime() + istOffset);
+    results.push(result);
+    if (stopAtFirstSuccess && result.status === 'sent') break;
+  }
+
+  return results;
+}
 
-    // Use ISO string of the adjusted date to get HH:MM in IST
-    const currentTime = istDate.toISOString().split('T')[1].slice(0, 5);
-    const today = istDate.toISOString().split('T')[0];
+/**
+ * Send a reminder once: claim its row in the reminder_logs ledger by
+ * dispatch key, then deliver. Returns null if another invocation already
+ * claimed it.
+ */
+async function dispatchOnce(
+  supabase: SupabaseClient,
+  dispatch: ReminderDispatch,
+  profile: UserProfile
+): Promise<ReminderResult | null> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('reminder_logs')
+    .upsert(
+      {
+        dispatch_key: dispatch.dispatchKey,
+        user_id: profile.id,
+        medication_id: dispatch.medicationId,
+        schedule_id: dispatch.scheduleId,
+        scheduled_time: dispatch.scheduledTime,
+        channel: dispatch.channel,
+        subject: dispatch.subject,
+        message: dispatch.message,
+        escalation_step: dispatch.escalationStep ?? null,
+        recipient: dispatch.recipient ?? null,
+        status: 'pending',
+        attempts: 1,
+        claimed_at: new Date().toISOString(),
+      },
+      { onConflict: 'dispatch_key', ignoreDuplicates: true }
+    )
+    .select('id');
 
-    console.log(`[CRON] Checking reminders for time: ${currentTime} (IST) / Date: ${today}`);
+  if (claimError) {
+    throw claimError;
+  }
 
-    const { data: schedules, error: schedulesError } = await supabase
-      .from('medication_schedules')
-      .select('id, medication_id, reminder_time')
-      .eq('active', true)
-      .eq('reminder_time', currentTime);
+  if (!claimed || claimed.length === 0) {
+    console.log(`[CRON] Skipping ${dispatch.dispatchKey}: already dispatched`);
+    return null;
+  }
 
-    if (schedulesError) {
-      throw schedulesError;
-    }
+  return await deliverDispatch(supabase, claimed[0].id, dispatch, profile);
+}
 
-    if (!schedules || schedules.length === 0) {
-      return new Response(
-        JSON.stringify({ message: 'No reminders to send at this time.' }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+/**
+ * Deliver a claimed dispatch and move its ledger row to sent/failed
+ */
+async function deliverDispatch(
+  supabase: SupabaseClient,
+  logId: string,
+  dispatch: ReminderDispatch,
+  profile: UserProfile
+): Promise<ReminderResult> {
+  const result = await dispatchNotification(
+    dispatch.channel,
+    dispatch.recipient ? { ...profile, email: dispatch.recipient } : profile,
+    dispatch.message,
+    dispatch.subject,
+    dispatch.medicationId && dispatch.scheduledTime
+      ? { userId: profile.id, medicationId: dispatch.medicationId, scheduledTime: dispatch.scheduledTime }
+      : undefined
+  );
+
+  const { error } = await supabase
+    .from('reminder_logs')
+    .update({
+      status: result.status,
+      sent_at: result.status === 'sent' ? new Date().toISOString() : null,
+      error_message: result.errorMessage ?? null,
+    })
+    .eq('id', logId);
+
+  if (error) {
+    console.error(`Error updating reminder log ${logId}:`, error);
+  }
+
+  return result;
+}
+
+type PageQuery = (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>;
+
+/**
+ * Read every row of a query PAGE_SIZE rows at a time. The query must be
+ * ordered on a unique column so pages neither overlap nor skip rows.
+ */
+async function selectAllPages<T>(query: PageQuery): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
     }
 
-    const medicationIds = schedules.map((schedule: MedicationSchedule) => schedule.medication_id);
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
 
-    const { data: medications, error: medicationsError } = await supabase
-      .from('medications')
-      .select('id, user_id, medication_name, dosage, instructions')
-      .in('id', medicationIds)
-      .eq('active', true);
+/**
+ * selectAllPages for a query filtered on a list of ids, ID_BATCH_SIZE at a time
+ */
+async function selectAllPagesByIds<T>(
+  ids: string[],
+  query: (batch: string[], from: number, to: number) => ReturnType<PageQuery>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+    const batch = ids.slice(start, start + ID_BATCH_SIZE);
+    rows.push(...(await selectAllPages<T>((from, to) => query(batch, from, to))));
+  }
+  return rows;
+}
+
+/**
+ * Retry dispatches left 'pending' by an invocation that died mid-send.
+ * Each retry re-claims the row with a compare-and-set on claimed_at, so
+ * overlapping runs never resend the same row twice.
+ */
+async function processStuckDispatches(supabase: SupabaseClient, now: Date): Promise<ReminderResult[]> {
+  const { data: stuck, error: stuckError } = await supabase
+    .from('reminder_logs')
+    .select(
+      'id, user_id, medication_id, schedule_id, channel, scheduled_time, subject, message, escalation_step, recipient, attempts, claimed_at'
+    )
+    .eq('status', 'pending')
+    .not('dispatch_key', 'is', null)
+    .lt('claimed_at', new Date(now.getTime() - STUCK_DISPATCH_MS).toISOString());
+
+  if (stuckError) {
+    throw stuckError;
+  }
+
+  if (!stuck || stuck.length === 0) {
+    return [];
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', [...new Set(stuck.map((row: PendingDispatchRow) => row.user_id))]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
 
-    if (medicationsError) {
-      throw medicationsError;
+  const results: ReminderResult[] = [];
+
+  for (const row of stuck as PendingDispatchRow[]) {
+    const profile = profiles?.find((p: UserProfile) => p.id === row.user_id) as UserProfile | undefined;
+    const isStale =
+      new Date(row.scheduled_time ?? row.claimed_at).getTime() < now.getTime() - DISPATCH_RETRY_WINDOW_MS;
+
+    if (!profile || isStale || row.attempts >= MAX_DISPATCH_ATTEMPTS) {
+      await supabase
+        .from('reminder_logs')
+        .update({
+          status: 'failed',
+          error_message: `Gave up after ${row.attempts} attempt(s); the send did not complete.`,
+        })
+        .eq('id', row.id)
+        .eq('status', 'pending');
+      continue;
     }
 
-    if (!medications || medications.length === 0) {
-      return new Response(
-        JSON.stringify({ message: 'No active medications found for reminders.' }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+    const { data: reclaimed, error: reclaimError } = await supabase
+      .from('reminder_logs')
+      .update({ attempts: row.attempts + 1, claimed_at: now.toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .eq('claimed_at', row.claimed_at)
+      .select('id');
+
+    if (reclaimError) {
+      console.error(`Error re-claiming reminder log ${row.id}:`, reclaimError);
+      continue;
     }
 
-    const userIds = [...new Set(medications.map((med: Medication) => med.user_id))];
+    if (!reclaimed || reclaimed.length === 0) continue;
+
+    console.log(`[CRON] Retrying stuck dispatch ${row.id} (attempt ${row.attempts + 1})`);
+
+    const result = await deliverDispatch(
+      supabase,
+      row.id,
+      {
+        dispatchKey: row.id,
+        scheduleId: row.schedule_id,
+        medicationId: row.medication_id,
+        scheduledTime: row.scheduled_time,
+        channel: row.channel,
+        subject: row.subject,
+        message: row.message,
+        escalationStep: row.escalation_step,
+        recipient: row.recipient,
+      },
+      profile
+    );
+    results.push(result);
+  }
+
+  return results;
+}
 
-    const { data: profiles, error: profilesError } = await supabase
+/**
+ * Send reminders for every schedule with a dose in the current minute of its
+ * owner's timezone
+ */
+async function processScheduledReminders(
+  supabase: SupabaseClient,
+  minuteStart: Date,
+  minuteEnd: Date
+): Promise<ReminderResult[]> {
+  // Every user is evaluated in their own timezone, so collect the local
+  // wall-clock minute for each timezone in use and match schedules on those.
+  // Times skipped by a DST jump are matched at the minute they move to.
+  // Hourly schedules can land on any minute and are always expanded.
+  const timezoneRows = await selectAllPages<Pick<UserProfile, 'timezone'>>((from, to) =>
+    supabase
       .from('user_profiles')
-      .select('*')
-      .in('id', userIds);
+      .select('timezone')
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
 
-    if (profilesError) {
-      throw profilesError;
-    }
+  const timeZones = [...new Set(timezoneRows.map((row) => resolveTimeZone(row.timezone)))];
+  const currentTimes = [
+    ...new Set(timeZones.flatMap((timeZone) => getDueLocalTimes(minuteStart, timeZone))),
+  ];
 
-    if (!profiles || profiles.length === 0) {
-      return new Response(
-        JSON.stringify({ message: 'No user profiles found for reminders.' }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  console.log(`[CRON] Checking reminders for local times: ${currentTimes.join(', ')} (${minuteStart.toISOString()})`);
 
-    const results: ReminderResult[] = [];
+  if (currentTimes.length === 0) {
+    return [];
+  }
 
-    for (const medication of medications) {
-      const userProfile = profiles.find((p) => p.id === medication.user_id) as UserProfile | undefined;
+  const { data: schedules, error: schedulesError } = await supabase
+    .from('medication_schedules')
+    .select(
+      'id, medication_id, reminder_time, created_at, frequency, repeat_interval, by_weekday, cycle_on_days, cycle_off_days, anchor_date, until_date'
+    )
+    .eq('active', true)
+    .or(`frequency.eq.hourly,reminder_time.in.(${currentTimes.join(',')})`);
 
-      if (!userProfile) {
-        continue;
-      }
+  if (schedulesError) {
+    throw schedulesError;
+  }
 
-      const schedule = schedules.find((s: MedicationSchedule) => s.medication_id === medication.id);
-      const message = buildReminderMessage(userProfile, medication, schedule?.reminder_time);
-      const subject = `Medication Reminder: ${medication.medication_name}`;
+  if (!schedules || schedules.length === 0) {
+    return [];
+  }
 
-      const result = await dispatchNotification(
-        userProfile.preferred_channel,
-        userProfile,
-        message,
-        subject
-      );
+  const medicationIds = schedules.map((schedule: MedicationSchedule) => schedule.medication_id);
 
-      results.push({
-        medication: medication.medication_name,
-        ...result,
-      });
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select(
+      'id, user_id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, instructions, is_critical, end_date, medication_phases(position, start_date, end_date, dosage)'
+    )
+    .in('id', medicationIds)
+    .eq('active', true);
 
-      await supabase.from('reminder_logs').insert({
-        user_id: userProfile.id,
-        medication_id: medication.id,
-        channel: result.channel,
-        status: result.status,
-        sent_at: result.status === 'sent' ? new Date().toISOString() : null,
-        error_message: result.errorMessage ?? null,
-      });
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  if (!medications || medications.length === 0) {
+    return [];
+  }
+
+  const userIds = [...new Set(medications.map((med: Medication) => med.user_id))];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', userIds);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  if (!profiles || profiles.length === 0) {
+    return [];
+  }
+
+  const deliveryChannels = await loadDeliveryChannels(supabase, profiles as UserProfile[]);
+  const results: ReminderResult[] = [];
+
+  for (const schedule of schedules as MedicationSchedule[]) {
+    const medication = medications.find((m: Medication) => m.id === schedule.medication_id);
+
+    if (!medication) {
+      continue;
+    }
+
+    const userProfile = profiles.find((p) => p.id === medication.user_id) as UserProfile | undefined;
+
+    if (!userProfile) {
+      continue;
+    }
+
+    const [occurrence] = getOccurrencesBetween(
+      schedule,
+      minuteStart,
+      minuteEnd,
+      resolveTimeZone(userProfile.timezone)
+    );
+    // The course is over even if 'finalize' has not completed it yet
+    if (!occurrence || (medication.end_date && occurrence.date > medication.end_date)) {
+      continue;
+    }
+
+    const message = buildReminderMessage(userProfile, medication, occurrence);
+    const subject = `Medication Reminder: ${medication.medication_name}`;
+
+    const dispatch = {
+      // One send per schedule, local dose time and channel, however often cron fires
+      dispatchKey: `${schedule.id}:${occurrence.date}:${occurrence.time}`,
+      scheduleId: schedule.id,
+      medicationId: medication.id,
+      scheduledTime: occurrence.scheduledAt.toISOString(),
+      subject,
+      message,
+    };
+    const channels = deliveryChannels.get(userProfile.id) ?? [];
+
+    if (isQuietFor(userProfile, medication, minuteStart)) {
+      await holdForQuietHours(supabase, dispatch, userProfile, channels[0], userProfile.quiet_hours_mode === 'digest');
+      continue;
+    }
+
+    const channelResults = await dispatchToChannels(supabase, dispatch, userProfile, channels);
+
+    for (const result of channelResults) {
+      results.push({
+        medication: medication.medication_name,
+        ...result,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Re-send reminders for doses the user snoozed until the current minute
+ */
+async function processSnoozedReminders(
+  supabase: SupabaseClient,
+  minuteStart: Date,
+  minuteEnd: Date
+): Promise<ReminderResult[]> {
+  const { data: snoozedLogs, error: snoozedError } = await supabase
+    .from('adherence_logs')
+    .select('id, medication_id, user_id, scheduled_time, snoozed_until, snooze_count')
+    .eq('status', 'snoozed')
+    .gte('snoozed_until', minuteStart.toISOString())
+    .lt('snoozed_until', minuteEnd.toISOString());
+
+  if (snoozedError) {
+    throw snoozedError;
+  }
+
+  if (!snoozedLogs || snoozedLogs.length === 0) {
+    return [];
+  }
+
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select(
+      'id, user_id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, instructions, is_critical, end_date, medication_phases(position, start_date, end_date, dosage)'
+    )
+    .in('id', [...new Set(snoozedLogs.map((log: SnoozedLog) => log.medication_id))])
+    .eq('active', true);
+
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', [...new Set(snoozedLogs.map((log: SnoozedLog) => log.user_id))]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const deliveryChannels = await loadDeliveryChannels(supabase, (profiles ?? []) as UserProfile[]);
+  const results: ReminderResult[] = [];
+
+  for (const log of snoozedLogs as SnoozedLog[]) {
+    const medication = medications?.find((m: Medication) => m.id === log.medication_id);
+    const userProfile = profiles?.find((p) => p.id === log.user_id) as UserProfile | undefined;
+
+    if (!medication || !userProfile) {
+      continue;
+    }
+
+    const dose = getZonedDateParts(new Date(log.scheduled_time), resolveTimeZone(userProfile.timezone));
+    const message = buildReminderMessage(userProfile, medication, dose);
+    const subject = `Snoozed Reminder: ${medication.medication_name}`;
+
+    const dispatch = {
+      dispatchKey: `snooze:${log.id}:${new Date(log.snoozed_until).toISOString()}`,
+      scheduleId: null,
+      medicationId: medication.id,
+      scheduledTime: new Date(log.scheduled_time).toISOString(),
+      subject,
+      message,
+    };
+    const channels = deliveryChannels.get(userProfile.id) ?? [];
+
+    if (isQuietFor(userProfile, medication, minuteStart)) {
+      await holdForQuietHours(supabase, dispatch, userProfile, channels[0], userProfile.quiet_hours_mode === 'digest');
+      continue;
+    }
+
+    const channelResults = await dispatchToChannels(supabase, dispatch, userProfile, channels);
+
+    for (const result of channelResults) {
+      results.push({
+        medication: medication.medication_name,
+        ...result,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Send one summary of the reminders held during quiet hours to each user
+ * whose quiet hours are over
+ */
+async function processQuietHoursDigests(supabase: SupabaseClient, now: Date): Promise<ReminderResult[]> {
+  const { data: held, error: heldError } = await supabase
+    .from('reminder_logs')
+    .select('id, user_id')
+    .eq('status', 'held');
+
+  if (heldError) {
+    throw heldError;
+  }
+
+  if (!held || held.length === 0) {
+    return [];
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', [...new Set(held.map((row: { user_id: string }) => row.user_id))]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const deliveryChannels = await loadDeliveryChannels(supabase, (profiles ?? []) as UserProfile[]);
+  const results: ReminderResult[] = [];
+
+  for (const profile of (profiles ?? []) as UserProfile[]) {
+    const timeZone = resolveTimeZone(profile.timezone);
+    if (isWithinQuietHours(normalizeQuietHours(profile.quiet_hours), now, timeZone)) continue;
+
+    // Claim the rows so overlapping runs put each reminder in one digest only
+    const heldIds = (held as { id: string; user_id: string }[])
+      .filter((row) => row.user_id === profile.id)
+      .map((row) => row.id);
+    const { data: claimed, error: claimError } = await supabase
+      .from('reminder_logs')
+      .update({ status: 'digested', error_message: null })
+      .in('id', heldIds)
+      .eq('status', 'held')
+      .select('id, medication_id, scheduled_time');
+
+    if (claimError) {
+      console.error(`Error claiming held reminders for ${profile.id}:`, claimError);
+      continue;
+    }
+
+    if (!claimed || claimed.length === 0) continue;
+
+    const { data: medications } = await supabase
+      .from('medications')
+      .select(
+        'id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, medication_phases(position, start_date, end_date, dosage)'
+      )
+      .in('id', [...new Set(claimed.map((row: { medication_id: string }) => row.medication_id))]);
+
+    const lines = (claimed as { id: string; medication_id: string; scheduled_time: string }[])
+      .sort((a, b) => a.scheduled_time.localeCompare(b.scheduled_time))
+      .map((row) => {
+        const medication = medications?.find((m: { id: string }) => m.id === row.medication_id);
+        const { date, time } = getZonedDateParts(new Date(row.scheduled_time), timeZone);
+        return medication
+          ? `${medication.medication_name} (${getDosageOn(medication, date)}) at ${time}`
+          : `a dose at ${time}`;
+      });
+
+    const message = `Hi ${profile.full_name}, these reminders came up during your quiet hours: ${lines.join('; ')}. Please check whether any of them are still due.`;
+
+    results.push(
+      ...(await dispatchToChannels(
+        supabase,
+        {
+          dispatchKey: `digest:${profile.id}:${claimed[0].id}`,
+          scheduleId: null,
+          medicationId: null,
+          scheduledTime: null,
+          subject: 'Reminders from your quiet hours',
+          message,
+        },
+        profile,
+        deliveryChannels.get(profile.id) ?? []
+      ))
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Walk the escalation ladder for doses that are still unanswered: re-ping on
+ * the same channel, switch to the secondary channel, then email emergency
+ * contacts. Each step fires in the minute its delay after the dose elapses
+ * and stops once the dose is answered; steps are logged in reminder_logs.
+ */
+async function processEscalations(
+  supabase: SupabaseClient,
+  minuteStart: Date,
+  minuteEnd: Date,
+  now: Date
+): Promise<ReminderResult[]> {
+  const { data: policies, error: policiesError } = await supabase
+    .from('escalation_policies')
+    .select('*')
+    .eq('enabled', true);
+
+  if (policiesError) {
+    throw policiesError;
+  }
+
+  if (!policies || policies.length === 0) {
+    return [];
+  }
+
+  const userIds = [...new Set((policies as EscalationPolicy[]).map((policy) => policy.user_id))];
+
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select(
+      'id, user_id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form, instructions, is_critical, end_date, medication_phases(position, start_date, end_date, dosage)'
+    )
+    .in('user_id', userIds)
+    .eq('active', true);
+
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  if (!medications || medications.length === 0) {
+    return [];
+  }
+
+  const { data: schedules, error: schedulesError } = await supabase
+    .from('medication_schedules')
+    .select(
+      'id, medication_id, reminder_time, created_at, frequency, repeat_interval, by_weekday, cycle_on_days, cycle_off_days, anchor_date, until_date'
+    )
+    .in('medication_id', medications.map((med: Medication) => med.id))
+    .eq('active', true);
+
+  if (schedulesError) {
+    throw schedulesError;
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', userIds);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const deliveryChannels = await loadDeliveryChannels(supabase, (profiles ?? []) as UserProfile[]);
+
+  // Doses whose next escalation step is due this minute
+  const due: {
+    schedule: MedicationSchedule;
+    medication: Medication;
+    profile: UserProfile;
+    step: EscalationStep;
+    occurrence: ScheduleOccurrence;
+  }[] = [];
+
+  for (const schedule of (schedules ?? []) as MedicationSchedule[]) {
+    const medication = medications.find((m: Medication) => m.id === schedule.medication_id) as
+      | Medication
+      | undefined;
+    const profile = profiles?.find((p: UserProfile) => p.id === medication?.user_id) as UserProfile | undefined;
+    if (!medication || !profile) continue;
+
+    const policy = resolveEscalationPolicy(policies as EscalationPolicy[], profile.id, medication.id);
+    if (!policy) continue;
+
+    const primaryChannel = deliveryChannels.get(profile.id)?.[0] ?? resolveChannel(profile.preferred_channel);
+    for (const step of buildEscalationSteps(policy, primaryChannel)) {
+      const delayMs = step.afterMinutes * 60000;
+      const [occurrence] = getOccurrencesBetween(
+        schedule,
+        new Date(minuteStart.getTime() - delayMs),
+        new Date(minuteEnd.getTime() - delayMs),
+        resolveTimeZone(profile.timezone)
+      );
+      if (occurrence && !(medication.end_date && occurrence.date > medication.end_date)) {
+        due.push({ schedule, medication, profile, step, occurrence });
+      }
+    }
+  }
+
+  if (due.length === 0) {
+    return [];
+  }
+
+  const { data: logs, error: logsError } = await supabase
+    .from('adherence_logs')
+    .select('id, medication_id, user_id, scheduled_time, status, snoozed_until')
+    .in('medication_id', [...new Set(due.map((entry) => entry.medication.id))])
+    .in('scheduled_time', [...new Set(due.map((entry) => entry.occurrence.scheduledAt.toISOString()))]);
+
+  if (logsError) {
+    throw logsError;
+  }
+
+  let emergencyContacts: EmergencyContact[] = [];
+  if (due.some((entry) => entry.step.kind === 'emergency')) {
+    const { data: contacts, error: contactsError } = await supabase
+      .from('family_members')
+      .select('id, user_id, name, email')
+      .in('user_id', [...new Set(due.map((entry) => entry.profile.id))])
+      .eq('is_emergency_contact', true);
+
+    if (contactsError) {
+      throw contactsError;
+    }
+    emergencyContacts = (contacts ?? []) as EmergencyContact[];
+  }
+
+  const results: ReminderResult[] = [];
+
+  for (const { schedule, medication, profile, step, occurrence } of due) {
+    const scheduledTime = occurrence.scheduledAt.toISOString();
+    const log = (logs as DoseLog[] | null)?.find(
+      (entry) =>
+        entry.medication_id === medication.id &&
+        new Date(entry.scheduled_time).getTime() === occurrence.scheduledAt.getTime()
+    );
+
+    // Answered by the user, or snoozed and the snooze reminder has not fired yet
+    if (log && (log.status === 'taken' || log.status === 'missed')) continue;
+    if (log?.status === 'snoozed' && log.snoozed_until && new Date(log.snoozed_until) > now) continue;
+
+    const baseKey = `${schedule.id}:${occurrence.date}:${occurrence.time}:${step.key}`;
+    const reminderMessage = `${buildReminderMessage(profile, medication, occurrence)} Please confirm once you have taken it.`;
+
+    // Nobody is chased during quiet hours, not even emergency contacts, unless
+    // the medication is critical. The skipped step still shows in the ledger.
+    if (isQuietFor(profile, medication, minuteStart)) {
+      await holdForQuietHours(
+        supabase,
+        {
+          dispatchKey: baseKey,
+          scheduleId: schedule.id,
+          medicationId: medication.id,
+          scheduledTime,
+          subject: `Still waiting: ${medication.medication_name}`,
+          message: reminderMessage,
+          escalationStep: step.key,
+        },
+        profile,
+        step.channel ?? 'email',
+        false
+      );
+      continue;
+    }
+
+    if (step.kind === 'emergency') {
+      const subject = `Missed Dose Alert: ${medication.medication_name}`;
+      for (const contact of emergencyContacts) {
+        if (contact.user_id !== profile.id || !contact.email) continue;
+
+        const result = await dispatchOnce(
+          supabase,
+          {
+            dispatchKey: `${baseKey}:${contact.id}`,
+            scheduleId: schedule.id,
+            medicationId: medication.id,
+            scheduledTime,
+            channel: 'email',
+            subject,
+            message: escapeHtml(
+              `Hello ${contact.name}, ${profile.full_name} has not confirmed their ${occurrence.time} dose of ${medication.medication_name} (${getDosageOn(medication, occurrence.date)}) after ${step.afterMinutes} minutes. Please check on them.`
+            ),
+            escalationStep: step.key,
+            recipient: contact.email,
+          },
+          profile
+        );
+
+        if (result) {
+          results.push({ medication: medication.medication_name, ...result });
+        }
+      }
+      continue;
+    }
+
+    // Repeats go out on the user's usual channels, the switch on the secondary one
+    const stepResults = await dispatchToChannels(
+      supabase,
+      {
+        dispatchKey: baseKey,
+        scheduleId: schedule.id,
+        medicationId: medication.id,
+        scheduledTime,
+        subject: `Still waiting: ${medication.medication_name}`,
+        message: reminderMessage,
+        escalationStep: step.key,
+      },
+      profile,
+      step.kind === 'repeat'
+        ? deliveryChannels.get(profile.id) ?? []
+        : [step.channel ?? deliveryChannels.get(profile.id)?.[0] ?? resolveChannel(profile.preferred_channel)]
+    );
+
+    for (const result of stepResults) {
+      results.push({ medication: medication.medication_name, ...result });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Record doses that are still unanswered after the grace window as
+ * 'not_taken_auto'. Replaces the browser timer, which only worked while the
+ * tab stayed open. Returns the number of doses finalized.
+ */
+async function processMissedDoses(supabase: SupabaseClient, now: Date): Promise<number> {
+  const windowEnd = new Date(now.getTime() - missedDoseGraceMinutes * 60000);
+  const windowStart = new Date(windowEnd.getTime() - FINALIZE_LOOKBACK_MS);
+
+  // Every read is paged: a dose whose rows fall past the first page would
+  // otherwise never be finalized
+  const schedules = await selectAllPages<MedicationSchedule>((from, to) =>
+    supabase
+      .from('medication_schedules')
+      .select(
+        'id, medication_id, reminder_time, created_at, frequency, repeat_interval, by_weekday, cycle_on_days, cycle_off_days, anchor_date, until_date'
+      )
+      .eq('active', true)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  if (schedules.length === 0) {
+    return 0;
+  }
+
+  const medications = await selectAllPagesByIds<Pick<Medication, 'id' | 'user_id' | 'end_date'>>(
+    [...new Set(schedules.map((schedule) => schedule.medication_id))],
+    (ids, from, to) =>
+      supabase
+        .from('medications')
+        .select('id, user_id, end_date')
+        .in('id', ids)
+        .eq('active', true)
+        .order('id', { ascending: true })
+        .range(from, to)
+  );
+
+  if (medications.length === 0) {
+    return 0;
+  }
+
+  const profiles = await selectAllPagesByIds<Pick<UserProfile, 'id' | 'timezone'>>(
+    [...new Set(medications.map((med) => med.user_id))],
+    (ids, from, to) =>
+      supabase
+        .from('user_profiles')
+        .select('id, timezone')
+        .in('id', ids)
+        .order('id', { ascending: true })
+        .range(from, to)
+  );
+
+  const logs = await selectAllPagesByIds<DoseLog>(
+    medications.map((med) => med.id),
+    (ids, from, to) =>
+      supabase
+        .from('adherence_logs')
+        .select('id, medication_id, user_id, scheduled_time, status, snoozed_until')
+        .in('medication_id', ids)
+        .gte('scheduled_time', windowStart.toISOString())
+        .lt('scheduled_time', windowEnd.toISOString())
+        .order('id', { ascending: true })
+        .range(from, to)
+  );
+
+  // A snooze that ran out more than the grace window ago counts as unanswered
+  const staleSnoozes = logs.filter(
+    (log) => log.status === 'snoozed' && (!log.snoozed_until || new Date(log.snoozed_until) <= windowEnd)
+  );
+  const answeredDoses = new Set(
+    logs.map((log) => `${log.medication_id}:${new Date(log.scheduled_time).toISOString()}`)
+  );
+
+  const medicationsById = new Map(medications.map((med) => [med.id, med]));
+  const profilesById = new Map(profiles.map((profile) => [profile.id, profile]));
+  const newLogs = [];
+
+  for (const schedule of schedules) {
+    const medication = medicationsById.get(schedule.medication_id);
+    if (!medication) continue;
+
+    const profile = profilesById.get(medication.user_id);
+    const occurrences = getOccurrencesBetween(
+      schedule,
+      windowStart,
+      windowEnd,
+      resolveTimeZone(profile?.timezone)
+    );
+
+    for (const occurrence of occurrences) {
+      // Doses after the course ended were never due
+      if (medication.end_date && occurrence.date > medication.end_date) continue;
+
+      const scheduledTime = occurrence.scheduledAt.toISOString();
+      if (answeredDoses.has(`${medication.id}:${scheduledTime}`)) continue;
+
+      answeredDoses.add(`${medication.id}:${scheduledTime}`);
+      newLogs.push({
+        medication_id: medication.id,
+        user_id: medication.user_id,
+        scheduled_time: scheduledTime,
+        status: 'not_taken_auto',
+        taken_at: null,
+        snoozed_until: null,
+        recorded_at: now.toISOString(),
+      });
+    }
+  }
+
+  let finalized = 0;
+
+  if (newLogs.length > 0) {
+    // Ignore doses the patient answered since we read the logs
+    const { data: inserted, error: insertError } = await supabase
+      .from('adherence_logs')
+      .upsert(newLogs, { onConflict: 'medication_id,scheduled_time', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    finalized += inserted?.length ?? 0;
+  }
+
+  if (staleSnoozes.length > 0) {
+    const { data: updated, error: updateError } = await supabase
+      .from('adherence_logs')
+      .update({ status: 'not_taken_auto', snoozed_until: null, recorded_at: now.toISOString() })
+      .in('id', staleSnoozes.map((log) => log.id))
+      .eq('status', 'snoozed')
+      .select('id');
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    finalized += updated?.length ?? 0;
+  }
+
+  console.log(`[FINALIZE] Recorded ${finalized} unanswered doses as not taken`);
+  return finalized;
+}
+
+/**
+ * Deactivate medications whose course is over: the day after end_date has
+ * begun in the owner's timezone and the last day's doses are past the grace
+ * window, so they were finalized first. Returns the number of courses completed.
+ */
+async function processCourseCompletions(supabase: SupabaseClient, now: Date): Promise<number> {
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select('id, user_id, end_date')
+    .eq('active', true)
+    .not('end_date', 'is', null);
+
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  if (!medications || medications.length === 0) {
+    return 0;
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('id, timezone')
+    .in('id', [...new Set(medications.map((med: Pick<Medication, 'user_id'>) => med.user_id))]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const graceEnd = new Date(now.getTime() - missedDoseGraceMinutes * 60000);
+  const endedIds = (medications as Pick<Medication, 'id' | 'user_id' | 'end_date'>[])
+    .filter((medication) => {
+      const profile = profiles?.find((p: { id: string }) => p.id === medication.user_id);
+      return getZonedDateParts(graceEnd, resolveTimeZone(profile?.timezone)).date > (medication.end_date ?? '');
+    })
+    .map((medication) => medication.id);
+
+  if (endedIds.length === 0) {
+    return 0;
+  }
+
+  const { data: completed, error: completeError } = await supabase
+    .from('medications')
+    .update({ active: false, completed_at: now.toISOString() })
+    .in('id', endedIds)
+    .eq('active', true)
+    .select('id');
+
+  if (completeError) {
+    throw completeError;
+  }
+
+  console.log(`[FINALIZE] Completed ${completed?.length ?? 0} medication courses`);
+  return completed?.length ?? 0;
+}
+
+/**
+ * Tell users COURSE_END_NOTICE_DAYS ahead that a course is about to end.
+ * Sent once per course through the ledger, after NOTICE_LOCAL_TIME
+ * local time and outside quiet hours.
+ */
+async function processCourseEndNotices(supabase: SupabaseClient, now: Date): Promise<ReminderResult[]> {
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select('id, user_id, medication_name, dosage, is_critical, end_date')
+    .eq('active', true)
+    .eq('is_prn', false)
+    .not('end_date', 'is', null);
+
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  if (!medications || medications.length === 0) {
+    return [];
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', [...new Set(medications.map((med: Medication) => med.user_id))]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const due = (medications as Medication[]).filter((medication) => {
+    const profile = profiles?.find((p: UserProfile) => p.id === medication.user_id) as UserProfile | undefined;
+    if (!profile) return false;
+
+    const local = getZonedDateParts(now, resolveTimeZone(profile.timezone));
+    return (
+      medication.end_date === addDays(local.date, COURSE_END_NOTICE_DAYS) &&
+      local.time >= NOTICE_LOCAL_TIME &&
+      !isQuietFor(profile, { ...medication, is_critical: false }, now)
+    );
+  });
+
+  if (due.length === 0) {
+    return [];
+  }
+
+  const deliveryChannels = await loadDeliveryChannels(supabase, (profiles ?? []) as UserProfile[]);
+  const results: ReminderResult[] = [];
+
+  for (const medication of due) {
+    const profile = profiles?.find((p: UserProfile) => p.id === medication.user_id) as UserProfile;
+    const channelResults = await dispatchToChannels(
+      supabase,
+      {
+        dispatchKey: `course-end:${medication.id}:${medication.end_date}`,
+        scheduleId: null,
+        medicationId: medication.id,
+        scheduledTime: null,
+        subject: `Your course of ${medication.medication_name} ends soon`,
+        message: `Hi ${profile.full_name}, your course of ${medication.medication_name} ends in ${COURSE_END_NOTICE_DAYS} days. Reminders stop after the last dose; talk to your doctor if you need a refill or a longer course.`,
+      },
+      profile,
+      deliveryChannels.get(profile.id) ?? []
+    );
+
+    for (const result of channelResults) {
+      results.push({ medication: medication.medication_name, ...result });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Send a "time to refill" reminder when a medication's stock runs low. Sent
+ * once per stock entry (stock_updated_at) through the ledger, after
+ * NOTICE_LOCAL_TIME and outside quiet hours.
+ */
+async function processRefillAlerts(supabase: SupabaseClient, now: Date): Promise<ReminderResult[]> {
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select(
+      'id, user_id, medication_name, dosage, is_critical, stock_quantity, dose_quantity, refill_threshold_days, stock_updated_at'
+    )
+    .eq('active', true)
+    .not('stock_quantity', 'is', null);
+
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  if (!medications || medications.length === 0) {
+    return [];
+  }
+
+  const { data: schedules, error: schedulesError } = await supabase
+    .from('medication_schedules')
+    .select(
+      'id, medication_id, reminder_time, created_at, frequency, repeat_interval, by_weekday, cycle_on_days, cycle_off_days, anchor_date, until_date'
+    )
+    .in('medication_id', medications.map((med: Medication) => med.id))
+    .eq('active', true);
+
+  if (schedulesError) {
+    throw schedulesError;
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .in('id', [...new Set(medications.map((med: Medication) => med.user_id))]);
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const due: { medication: StockedMedicationRow; profile: UserProfile; daysRemaining: number | null }[] = [];
+
+  for (const medication of medications as StockedMedicationRow[]) {
+    const profile = profiles?.find((p: UserProfile) => p.id === medication.user_id) as UserProfile | undefined;
+    if (!profile) continue;
+
+    const timeZone = resolveTimeZone(profile.timezone);
+    const daysRemaining = estimateDaysRemaining(
+      medication,
+      ((schedules ?? []) as MedicationSchedule[]).filter((schedule) => schedule.medication_id === medication.id),
+      timeZone,
+      now
+    );
+
+    if (
+      needsRefill(medication, daysRemaining) &&
+      getZonedDateParts(now, timeZone).time >= NOTICE_LOCAL_TIME &&
+      !isQuietFor(profile, { ...medication, is_critical: false }, now)
+    ) {
+      due.push({ medication, profile, daysRemaining });
+    }
+  }
+
+  if (due.length === 0) {
+    return [];
+  }
+
+  const deliveryChannels = await loadDeliveryChannels(supabase, due.map((entry) => entry.profile));
+  const results: ReminderResult[] = [];
+
+  for (const { medication, profile, daysRemaining } of due) {
+    const supply =
+      daysRemaining === null || daysRemaining === 0
+        ? `only ${medication.stock_quantity} left`
+        : `about ${daysRemaining} day${daysRemaining === 1 ? '' : 's'} of supply left (${medication.stock_quantity} units)`;
+
+    const channelResults = await dispatchToChannels(
+      supabase,
+      {
+        dispatchKey: `refill:${medication.id}:${medication.stock_updated_at ?? 'initial'}`,
+        scheduleId: null,
+        medicationId: medication.id,
+        scheduledTime: null,
+        subject: `Time to refill ${medication.medication_name}`,
+        message: `Hi ${profile.full_name}, you have ${supply} of ${medication.medication_name}. It's time to refill your prescription.`,
+      },
+      profile,
+      deliveryChannels.get(profile.id) ?? []
+    );
+
+    for (const result of channelResults) {
+      results.push({ medication: medication.medication_name, ...result });
+    }
+  }
+
+  return results;
+}
+
+interface MissedMedicationDays {
+  userId: string;
+  medicationId: string;
+  dates: Set<string>; // local dates with a missed dose
+}
+
+/**
+ * Distinct local days with a missed dose over the last
+ * CAREGIVER_ALERT_MISSED_DAYS days, per user and medication
+ */
+async function findMissedMedicationDays(
+  supabase: SupabaseClient,
+  now: Date,
+  userId?: string
+): Promise<{ missedDays: MissedMedicationDays[]; profiles: UserProfile[] }> {
+  const since = new Date(now.getTime() - CAREGIVER_ALERT_MISSED_DAYS * 24 * 60 * 60 * 1000);
+
+  const missedLogs = await selectAllPages<Pick<DoseLog, 'medication_id' | 'user_id' | 'scheduled_time'>>((from, to) => {
+    let query = supabase
+      .from('adherence_logs')
+      .select('medication_id, user_id, scheduled_time')
+      .in('status', ['missed', 'not_taken_auto'])
+      .gte('scheduled_time', since.toISOString())
+      .lt('scheduled_time', now.toISOString());
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    return query.order('id', { ascending: true }).range(from, to);
+  });
+
+  if (missedLogs.length === 0) {
+    return { missedDays: [], profiles: [] };
+  }
+
+  const profiles = await selectAllPagesByIds<UserProfile>(
+    [...new Set(missedLogs.map((log) => log.user_id))],
+    (ids, from, to) =>
+      supabase
+        .from('user_profiles')
+        .select('*')
+        .in('id', ids)
+        .order('id', { ascending: true })
+        .range(from, to)
+  );
+  const profilesById = new Map(profiles.map((profile) => [profile.id, profile]));
+
+  const missedDays = new Map<string, MissedMedicationDays>();
+  for (const log of missedLogs) {
+    const profile = profilesById.get(log.user_id);
+    const date = getZonedDateParts(new Date(log.scheduled_time), resolveTimeZone(profile?.timezone)).date;
+    const key = `${log.user_id}:${log.medication_id}`;
+    const entry = missedDays.get(key) ?? { userId: log.user_id, medicationId: log.medication_id, dates: new Set() };
+    entry.dates.add(date);
+    missedDays.set(key, entry);
+  }
+
+  return { missedDays: [...missedDays.values()], profiles };
+}
+
+/**
+ * Email the patient's family members about a medication missed on several
+ * days. Claims today's caregiver_alerts row first, so the alert goes out at
+ * most once a day no matter who triggers it.
+ */
+async function sendCaregiverAlert(
+  supabase: SupabaseClient,
+  profile: UserProfile,
+  medicationId: string,
+  missedDayCount: number,
+  now: Date,
+  mode: AlertMode
+): Promise<{ claimed: boolean; recipients: number; results: ReminderResult[] }> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('caregiver_alerts')
+    .upsert(
+      {
+        user_id: profile.id,
+        medication_id: medicationId,
+        alert_date: getZonedDateParts(now, resolveTimeZone(profile.timezone)).date,
+      },
+      { onConflict: 'user_id,medication_id,alert_date', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { claimed: false, recipients: 0, results: [] };
+  }
+
+  const { data: medication } = await supabase
+    .from('medications')
+    .select('medication_name')
+    .eq('id', medicationId)
+    .maybeSingle();
+
+  const { data: family } = await supabase
+    .from('family_members')
+    .select('name, email')
+    .eq('user_id', profile.id);
+
+  const subject = `Urgent: Missed Medication Alert - ${medication?.medication_name}`;
+  const results: ReminderResult[] = [];
+  let recipients = 0;
+
+  for (const member of (family ?? []) as { name: string; email: string | null }[]) {
+    if (!member.email) continue;
+
+    const result = await sendEmailMessageGmail(
+      member.email,
+      escapeHtml(
+        `Hello ${member.name}, checking in for ${medication?.medication_name}. ${profile.full_name} has missed doses on ${missedDayCount} of the last ${CAREGIVER_ALERT_MISSED_DAYS} days. Please check on them.`
+      ),
+      subject
+    );
+
+    if (result.success) recipients += 1;
+
+    await recordAlertAudit(supabase, {
+      user_id: profile.id,
+      mode,
+      recipient: member.email,
+      subject,
+      medication_id: medicationId,
+      status: result.success ? 'sent' : 'failed',
+      error_message: result.success ? null : result.error ?? null,
+    });
+
+    results.push({
+      medication: medication?.medication_name,
+      user: profile.full_name,
+      channel: 'email',
+      status: result.success ? 'sent' : 'failed',
+      errorMessage: result.success ? null : result.error,
+    });
+  }
+
+  await supabase
+    .from('caregiver_alerts')
+    .update({ recipients_count: recipients })
+    .eq('id', claimed[0].id);
+
+  return { claimed: true, recipients, results };
+}
+
+/**
+ * Email family members when a medication was missed on
+ * CAREGIVER_ALERT_MISSED_DAYS days of the last few, at most once a day
+ */
+async function processCaregiverEscalations(
+  supabase: SupabaseClient,
+  now: Date
+): Promise<ReminderResult[]> {
+  const { missedDays, profiles } = await findMissedMedicationDays(supabase, now);
+  const results: ReminderResult[] = [];
+
+  for (const { userId, medicationId, dates } of missedDays) {
+    if (dates.size < CAREGIVER_ALERT_MISSED_DAYS) continue;
+
+    const profile = profiles.find((p) => p.id === userId);
+    if (!profile) continue;
+
+    try {
+      const alert = await sendCaregiverAlert(supabase, profile, medicationId, dates.size, now, 'finalize');
+      results.push(...alert.results);
+    } catch (error) {
+      console.error('Error sending caregiver alert:', error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Plain-text and HTML parts of an adherence report for one recipient
+ */
+function renderAdherenceReport(
+  profile: UserProfile,
+  recipientName: string,
+  isFamily: boolean,
+  reportWindow: ReportWindow,
+  report: AdherenceReport,
+  appointments: UpcomingAppointment[],
+  timeZone: string
+): EmailBody {
+  const whose = isFamily ? `${profile.full_name}'s` : 'your';
+  const intro = `Here is ${whose} ${reportWindow.period} medication report for ${reportWindow.label}.`;
+  const adherence = report.rate === null
+    ? 'No scheduled doses were due in this period.'
+    : `Adherence: ${report.rate}% (${report.taken} of ${report.total} doses taken)`;
+  const streaks = `Streak at the end of the period: ${report.currentStreak} days. Best streak: ${report.bestStreak} days.`;
+  const missed = report.medications.filter((medication) => medication.missed > 0);
+  const missedLines = missed.map(
+    (medication) => `${medication.name}: ${medication.missed} missed, ${medication.rate ?? 0}% taken`
+  );
+  const appointmentLines = appointments.map((appointment) => {
+    const when = new Date(appointment.appointment_date).toLocaleString('en-US', {
+      timeZone,
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+    const specialty = appointment.specialty ? ` (${appointment.specialty})` : '';
+    const place = appointment.hospital_clinic ? ` at ${appointment.hospital_clinic}` : '';
+    return `${when}: ${appointment.doctor_name}${specialty}${place}`;
+  });
+  const footer = isFamily
+    ? `You receive this report because ${profile.full_name} added you as a family member in MediBot.`
+    : 'You can turn these reports off under Profile & Alerts in MediBot.';
+
+  const text = [
+    `Hi ${recipientName},`,
+    '',
+    intro,
+    '',
+    adherence,
+    streaks,
+    '',
+    'Missed doses by medication:',
+    ...(missedLines.length > 0 ? missedLines.map((line) => `- ${line}`) : ['- None. Every answered dose was taken.']),
+    '',
+    'Upcoming appointments:',
+    ...(appointmentLines.length > 0 ? appointmentLines.map((line) => `- ${line}`) : ['- None scheduled.']),
+    '',
+    footer,
+  ].join('\n');
+
+  const listHtml = (lines: string[], empty: string) =>
+    lines.length > 0
+      ? `<ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+      : `<p>${escapeHtml(empty)}</p>`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; background-color: #f5f5f5; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(to right, #2563eb, #06b6d4); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+          .content { background: white; padding: 20px; border-radius: 0 0 8px 8px; }
+          .rate { font-size: 32px; font-weight: bold; color: #0f172a; margin: 0; }
+          .footer { text-align: center; font-size: 12px; color: #666; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h2>MediBot ${reportWindow.period === 'weekly' ? 'Weekly' : 'Monthly'} report</h2>
+            <p>${escapeHtml(reportWindow.label)}</p>
+          </div>
+          <div class="content">
+            <p>Hi ${escapeHtml(recipientName)},</p>
+            <p>${escapeHtml(intro)}</p>
+            ${report.rate === null ? `<p>${escapeHtml(adherence)}</p>` : `<p class="rate">${report.rate}%</p><p>${report.taken} of ${report.total} doses taken</p>`}
+            <p>${escapeHtml(streaks)}</p>
+            <h3>Missed doses by medication</h3>
+            ${listHtml(missedLines, 'None. Every answered dose was taken.')}
+            <h3>Upcoming appointments</h3>
+            ${listHtml(appointmentLines, 'None scheduled.')}
+          </div>
+          <div class="footer">
+            <p>${escapeHtml(footer)}</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return { html, text };
+}
+
+/**
+ * Everything a report is built from: the window's logs, medication names,
+ * upcoming appointments and the family members who get a copy
+ */
+async function loadAdherenceReportData(
+  supabase: SupabaseClient,
+  profile: UserProfile,
+  reportWindow: ReportWindow,
+  timeZone: string,
+  now: Date
+): Promise<{
+  logs: ReportLog[];
+  medications: Pick<Medication, 'id' | 'medication_name'>[];
+  appointments: UpcomingAppointment[];
+  family: { name: string; email: string | null }[];
+}> {
+  const start = getLocalDayRange(reportWindow.start, timeZone).start;
+  const end = getLocalDayRange(reportWindow.end, timeZone).end;
+
+  const logs: ReportLog[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('adherence_logs')
+      .select('medication_id, scheduled_time, status')
+      .eq('user_id', profile.id)
+      .eq('is_prn', false)
+      .gte('scheduled_time', start)
+      .lt('scheduled_time', end)
+      .order('scheduled_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    logs.push(...((data ?? []) as ReportLog[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const { data: medications, error: medicationsError } = await supabase
+    .from('medications')
+    .select('id, medication_name')
+    .eq('user_id', profile.id);
+
+  if (medicationsError) {
+    throw medicationsError;
+  }
+
+  const { data: appointments, error: appointmentsError } = await supabase
+    .from('doctor_appointments')
+    .select('doctor_name, specialty, hospital_clinic, appointment_date')
+    .eq('user_id', profile.id)
+    .gte('appointment_date', now.toISOString())
+    .order('appointment_date', { ascending: true })
+    .limit(REPORT_APPOINTMENT_LIMIT);
+
+  if (appointmentsError) {
+    throw appointmentsError;
+  }
+
+  const { data: family, error: familyError } = await supabase
+    .from('family_members')
+    .select('name, email')
+    .eq('user_id', profile.id)
+    .eq('receives_reports', true);
+
+  if (familyError) {
+    throw familyError;
+  }
+
+  return {
+    logs,
+    medications: (medications ?? []) as Pick<Medication, 'id' | 'medication_name'>[],
+    appointments: (appointments ?? []) as UpcomingAppointment[],
+    family: (family ?? []) as { name: string; email: string | null }[],
+  };
+}
+
+/**
+ * Build one user's report for a window and email it to them and to the
+ * family members who receive reports. Claims the adherence_reports row
+ * first, so each report goes out once.
+ */
+async function sendAdherenceReport(
+  supabase: SupabaseClient,
+  profile: UserProfile,
+  reportWindow: ReportWindow,
+  timeZone: string,
+  now: Date
+): Promise<ReminderResult[]> {
+  // Claim before loading anything, so the hourly runs after the report went
+  // out stop here
+  const { data: claimed, error: claimError } = await supabase
+    .from('adherence_reports')
+    .upsert(
+      { user_id: profile.id, period: reportWindow.period, period_start: reportWindow.start },
+      { onConflict: 'user_id,period,period_start', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return [];
+  }
+
+  const { logs, medications, appointments, family } = await loadAdherenceReportData(
+    supabase,
+    profile,
+    reportWindow,
+    timeZone,
+    now
+  ).catch(async (error) => {
+    // Release the claim so the next run tries again
+    await supabase.from('adherence_reports').delete().eq('id', claimed[0].id);
+    throw error;
+  });
+  const report = buildAdherenceReport(
+    logs,
+    new Map(medications.map((med) => [med.id, med.medication_name])),
+    timeZone
+  );
+
+  // Nothing to report for users without scheduled doses in the window
+  if (report.total === 0) {
+    return [];
+  }
+
+  const recipients = [
+    ...(profile.email ? [{ name: profile.full_name, email: profile.email, isFamily: false }] : []),
+    ...family
+      .filter((member) => member.email)
+      .map((member) => ({ name: member.name, email: member.email!, isFamily: true })),
+  ];
+
+  const results: ReminderResult[] = [];
+  let sent = 0;
+
+  for (const recipient of recipients) {
+    const subject = recipient.isFamily
+      ? `${profile.full_name}'s ${reportWindow.period} medication report`
+      : `Your ${reportWindow.period} medication report`;
+    const result = await sendEmail(
+      recipient.email,
+      `${subject} (${reportWindow.label})`,
+      renderAdherenceReport(
+        profile,
+        recipient.name,
+        recipient.isFamily,
+        reportWindow,
+        report,
+        appointments,
+        timeZone
+      )
+    );
+
+    if (result.success) sent += 1;
+
+    results.push({
+      user: profile.full_name,
+      channel: 'email',
+      status: result.success ? 'sent' : 'failed',
+      errorMessage: result.success ? null : result.error,
+    });
+  }
+
+  await supabase
+    .from('adherence_reports')
+    .update({ recipients_count: sent })
+    .eq('id', claimed[0].id);
+
+  return results;
+}
+
+/**
+ * Send the weekly and monthly adherence reports users opted into, covering
+ * the last full week (Monday to Sunday) or month. A report goes out from
+ * NOTICE_LOCAL_TIME on the day after its period ends, outside quiet hours.
+ */
+async function processAdherenceReports(supabase: SupabaseClient, now: Date): Promise<ReminderResult[]> {
+  const profiles: UserProfile[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .or('weekly_report.eq.true,monthly_report.eq.true')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    profiles.push(...((data ?? []) as UserProfile[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const results: ReminderResult[] = [];
+
+  for (const profile of profiles) {
+    const timeZone = resolveTimeZone(profile.timezone);
+    if (isWithinQuietHours(normalizeQuietHours(profile.quiet_hours), now, timeZone)) continue;
+
+    const local = getZonedDateParts(now, timeZone);
+    const periods = (['weekly', 'monthly'] as ReportPeriod[]).filter((period) =>
+      period === 'weekly' ? profile.weekly_report : profile.monthly_report
+    );
+
+    for (const period of periods) {
+      const reportWindow = getReportWindow(period, local.date);
+      if (local.date === addDays(reportWindow.end, 1) && local.time < NOTICE_LOCAL_TIME) continue;
+
+      try {
+        results.push(...(await sendAdherenceReport(supabase, profile, reportWindow, timeZone, now)));
+      } catch (error) {
+        console.error('Error sending adherence report:', error);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Whether the scheduled job made the request: it sends the service role key
+ * as its bearer token, or CRON_SECRET in the x-cron-secret header
+ */
+function isScheduledCaller(req: Request): boolean {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  return (
+    (Boolean(token) && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) ||
+    (Boolean(cronSecret) && req.headers.get('x-cron-secret') === cronSecret)
+  );
+}
+
+/**
+ * Resolve the signed-in user from the request's JWT. The cron job calls with
+ * the service role key, which does not resolve to a user.
+ */
+async function getCallerId(supabase: SupabaseClient, req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return data.user.id;
+}
+
+async function recordAlertAudit(supabase: SupabaseClient, entry: AlertAuditEntry): Promise<void> {
+  const { error } = await supabase.from('alert_audit_logs').insert(entry);
+  if (error) {
+    console.error('Error writing alert audit log:', error);
+  }
+}
+
+/**
+ * Per-user alert limits, counted from the audit log. Returns an error message
+ * once the caller has used up the hourly or daily allowance.
+ */
+async function checkAlertRateLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date
+): Promise<string | null> {
+  const windows = [
+    { limit: ALERT_RATE_LIMIT_PER_HOUR, ms: 60 * 60 * 1000, label: 'hour' },
+    { limit: ALERT_RATE_LIMIT_PER_DAY, ms: 24 * 60 * 60 * 1000, label: 'day' },
+  ];
+
+  for (const limitWindow of windows) {
+    const { count, error } = await supabase
+      .from('alert_audit_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .in('mode', ['send-alert', 'notify-caregivers'])
+      .neq('status', 'rate_limited')
+      .gte('created_at', new Date(now.getTime() - limitWindow.ms).toISOString());
+
+    if (error) {
+      throw error;
+    }
+
+    if ((count ?? 0) >= limitWindow.limit) {
+      return `Alert limit reached (${limitWindow.limit} per ${limitWindow.label}). Try again later.`;
+    }
+  }
+
+  return null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let payload: RequestPayload | null = null;
+  if (req.method !== 'GET') {
+    try {
+      payload = (await req.json()) as RequestPayload;
+    } catch {
+      payload = null;
+    }
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!USER_MODES.includes(payload?.mode ?? '') && !isScheduledCaller(req)) {
+      return new Response(
+        JSON.stringify({ error: 'Only the scheduled job may run this mode.' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (payload?.mode === 'send-alert' || payload?.mode === 'notify-caregivers') {
+      const callerId = await getCallerId(supabase, req);
+      if (!callerId) {
+        return new Response(
+          JSON.stringify({ error: 'Sign in to send alerts.' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const now = new Date();
+      const rateLimitError = await checkAlertRateLimit(supabase, callerId, now);
+
+      if (payload.mode === 'notify-caregivers') {
+        if (!payload.medicationId) {
+          return new Response(
+            JSON.stringify({ error: 'notify-caregivers mode requires "medicationId".' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: medication } = await supabase
+          .from('medications')
+          .select('id, medication_name')
+          .eq('id', payload.medicationId)
+          .eq('user_id', callerId)
+          .maybeSingle();
+
+        if (!medication) {
+          return new Response(
+            JSON.stringify({ error: 'Medication not found.' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (rateLimitError) {
+          await recordAlertAudit(supabase, {
+            user_id: callerId,
+            mode: 'notify-caregivers',
+            recipient: null,
+            subject: null,
+            medication_id: medication.id,
+            status: 'rate_limited',
+            error_message: rateLimitError,
+          });
+          return new Response(
+            JSON.stringify({ error: rateLimitError }),
+            { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Re-check the escalation rule rather than trusting the browser
+        const { missedDays, profiles } = await findMissedMedicationDays(supabase, now, callerId);
+        const missed = missedDays.find((entry) => entry.medicationId === medication.id);
+        const profile = profiles.find((p) => p.id === callerId);
+
+        if (!missed || !profile || missed.dates.size < CAREGIVER_ALERT_MISSED_DAYS) {
+          return new Response(
+            JSON.stringify({ message: 'No caregiver alert needed.', medication: medication.medication_name, recipients: 0 }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const alert = await sendCaregiverAlert(
+          supabase,
+          profile,
+          medication.id,
+          missed.dates.size,
+          now,
+          'notify-caregivers'
+        );
+
+        return new Response(
+          JSON.stringify({
+            message: alert.claimed ? 'Caregivers notified.' : 'Caregivers were already notified today.',
+            medication: medication.medication_name,
+            recipients: alert.recipients,
+            results: alert.results,
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!payload.to || !payload.message) {
+        return new Response(
+          JSON.stringify({ error: 'send-alert mode requires "to" and "message".' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const recipient = payload.to.trim().toLowerCase();
+      const subject = (payload.subject || 'MediBot Alert').slice(0, 200);
+
+      // Alerts may only go to the caller's own family members
+      const { data: family, error: familyError } = await supabase
+        .from('family_members')
+        .select('email')
+        .eq('user_id', callerId);
+
+      if (familyError) {
+        throw familyError;
+      }
+
+      const isFamilyMember = (family ?? []).some(
+        (member: { email: string | null }) => member.email?.trim().toLowerCase() === recipient
+      );
+
+      if (!isFamilyMember || payload.message.length > MAX_ALERT_MESSAGE_LENGTH) {
+        const error = isFamilyMember
+          ? `Alert message is longer than ${MAX_ALERT_MESSAGE_LENGTH} characters.`
+          : 'Alerts can only be sent to your family members.';
+        await recordAlertAudit(supabase, {
+          user_id: callerId,
+          mode: 'send-alert',
+          recipient,
+          subject,
+          status: 'rejected',
+          error_message: error,
+        });
+        return new Response(
+          JSON.stringify({ error }),
+          { status: isFamilyMember ? 400 : 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (rateLimitError) {
+        await recordAlertAudit(supabase, {
+          user_id: callerId,
+          mode: 'send-alert',
+          recipient,
+          subject,
+          status: 'rate_limited',
+          error_message: rateLimitError,
+        });
+        return new Response(
+          JSON.stringify({ error: rateLimitError }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const result = await sendEmailMessageGmail(recipient, escapeHtml(payload.message), subject);
+
+      await recordAlertAudit(supabase, {
+        user_id: callerId,
+        mode: 'send-alert',
+        recipient,
+        subject,
+        status: result.success ? 'sent' : 'failed',
+        error_message: result.success ? null : result.error ?? null,
+      });
+
+      return new Response(
+        JSON.stringify({
+          message: 'Alert sent.',
+          success: result.success,
+          error: result.error
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (payload?.mode === 'push-action') {
+      const action = payload.action;
+      if (!payload.token || (action !== 'taken' && action !== 'snooze')) {
+        return new Response(
+          JSON.stringify({ error: 'push-action mode requires "token" and an action of "taken" or "snooze".' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const claims = await verifyPushActionToken(payload.token);
+      if (!claims) {
+        return new Response(
+          JSON.stringify({ error: 'Notification action has expired or is invalid.' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const status = await recordPushAction(supabase, claims, action);
+
+      return new Response(
+        JSON.stringify({ message: 'Notification action recorded.', status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (payload?.mode === 'finalize') {
+      const now = new Date();
+      const finalized = await processMissedDoses(supabase, now);
+      const alerts = await processCaregiverEscalations(supabase, now);
+      const completed = await processCourseCompletions(supabase, now);
+      const notices = [
+        ...(await processCourseEndNotices(supabase, now)),
+        ...(await processRefillAlerts(supabase, now)),
+      ];
+
+      return new Response(
+        JSON.stringify({ message: 'Missed doses finalized.', finalized, alerts, completed, notices }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (payload?.mode === 'reports') {
+      const results = await processAdherenceReports(supabase, new Date());
+
+      return new Response(
+        JSON.stringify({ message: 'Adherence reports processed.', results }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 'direct-email' mode removed as it depended on external API
+    if (payload?.mode === 'direct-email') {
+      return new Response(
+        JSON.stringify({ error: 'direct-email mode is no longer supported.' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (payload?.mode === 'test') {
+      if (!payload.userId) {
+        return new Response(
+          JSON.stringify({ error: 'Test mode requires a userId.' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Only the signed-in user may send a test to their own channels
+      const callerId = await getCallerId(supabase, req);
+      if (!callerId || callerId !== payload.userId) {
+        return new Response(
+          JSON.stringify({ error: 'Sign in to send a test reminder.' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: profile, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('id', payload.userId)
+        .single();
+
+      if (profileError || !profile) {
+        return new Response(
+          JSON.stringify({
+            error:
+              profileError?.message ?? 'Unable to locate user profile for test reminder.',
+          }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const isChannelCheck = isSupportedChannel(payload.channel);
+      const requestedChannel =
+        typeof payload.channel === 'string' ? payload.channel : profile.preferred_channel;
+      const resolvedChannel = resolveChannel(requestedChannel);
+      const hasCustomMessage =
+        typeof payload.message === 'string' && payload.message.trim().length > 0;
+      const message = hasCustomMessage
+        ? payload.message!.trim()
+        : buildReminderMessage(profile as UserProfile);
+
+      const reminderResult = await dispatchNotification(
+        resolvedChannel,
+        profile as UserProfile,
+        message,
+        'Test Medication Reminder'
+      );
+
+      await supabase.from('reminder_logs').insert({
+        user_id: profile.id,
+        medication_id: null,
+        channel: reminderResult.channel,
+        status: reminderResult.status,
+        sent_at: reminderResult.status === 'sent' ? new Date().toISOString() : null,
+        error_message: reminderResult.errorMessage ?? null,
+      });
+
+      // A test on an explicit channel verifies it for the signed-in owner
+      // (or records why it failed)
+      if (isChannelCheck) {
+        await supabase
+          .from('notification_channels')
+          .update(
+            reminderResult.status === 'sent'
+              ? { verified_at: new Date().toISOString(), last_error: null }
+              : { last_error: reminderResult.errorMessage ?? 'Delivery failed.' }
+          )
+          .eq('user_id', callerId)
+          .eq('channel', resolvedChannel);
+      }
+
+      return new Response(
+        JSON.stringify({
+          message: 'Test reminder processed.',
+          results: [reminderResult],
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const now = new Date();
+    const minuteStart = new Date(Math.floor(now.getTime() / 60000) * 60000);
+    const minuteEnd = new Date(minuteStart.getTime() + 60000);
+
+    const results = [
+      ...(await processScheduledReminders(supabase, minuteStart, minuteEnd)),
+      ...(await processSnoozedReminders(supabase, minuteStart, minuteEnd)),
+      ...(await processEscalations(supabase, minuteStart, minuteEnd, now)),
+      ...(await processQuietHoursDigests(supabase, now)),
+      ...(await processStuckDispatches(supabase, now)),
+    ];
+
+    if (results.length === 0) {
+      return new Response(
+        JSON.stringify({ message: 'No reminders to send at this time.' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
     }
 
     return new Response(JSON.stringify({ message: 'Reminders processed.', results }), {
@@ -0,0 +1,56 @@
+/**
+ * Pill inventory on medications.stock_quantity.
+ * Mirrors src/lib/inventory.ts so the refill reminder and the browser agree
+ * on how long the supply lasts.
+ */
+import { getOccurrencesBetween, RecurringSchedule } from './recurrence.ts';
+
+export interface StockedMedication {
+  stock_quantity: number | null;
+  dose_quantity: number | null; // items (or ml) per intake, in the same units as the stock
+  refill_threshold_days?: number | null;
+}
+
+// Days of upcoming doses averaged to get the daily usage
+const FORECAST_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Doses per day the schedules add up to, averaged over the coming weeks
+ */
+export function getDosesPerDay(schedules: RecurringSchedule[], timeZone: string, now: Date = new Date()): number {
+  const end = new Date(now.getTime() + FORECAST_DAYS * DAY_MS);
+  const doses = schedules.reduce(
+    (count, schedule) => count + getOccurrencesBetween(schedule, now, end, timeZone).length,
+    0
+  );
+  return doses / FORECAST_DAYS;
+}
+
+/**
+ * Whole days the stock lasts on the schedules; null when stock is not
+ * tracked or no doses are coming up
+ */
+export function estimateDaysRemaining(
+  medication: StockedMedication,
+  schedules: RecurringSchedule[],
+  timeZone: string,
+  now: Date = new Date()
+): number | null {
+  if (medication.stock_quantity === null) return null;
+
+  const dailyUsage = getDosesPerDay(schedules, timeZone, now) * (medication.dose_quantity ?? 1);
+  if (dailyUsage === 0) return null;
+
+  return Math.floor(medication.stock_quantity / dailyUsage);
+}
+
+/**
+ * Whether it is time to refill: the supply lasts refill_threshold_days or
+ * less, or is too low for another dose
+ */
+export function needsRefill(medication: StockedMedication, daysRemaining: number | null): boolean {
+  if (medication.stock_quantity === null) return false;
+  if (medication.stock_quantity < (medication.dose_quantity ?? 1)) return true;
+  return daysRemaining !== null && daysRemaining <= (medication.refill_threshold_days ?? 7);
+}
@@ -0,0 +1,36 @@
+/**
+ * Tapering and titration phases stored in medication_phases.
+ * Mirrors src/lib/phases.ts so the cron job and the browser show the same
+ * dose for a given day.
+ */
+import { formatDosage, StructuredDosage } from './dosage.ts';
+
+export interface MedicationPhase {
+  position: number;
+  start_date: string; // local YYYY-MM-DD
+  end_date: string | null; // inclusive; NULL for an open-ended last phase
+  dosage: string;
+}
+
+export interface PhasedMedication extends Partial<StructuredDosage> {
+  dosage: string;
+  medication_phases?: MedicationPhase[] | null;
+}
+
+/**
+ * The phase a local date falls in, if any
+ */
+export function getPhaseOn<T extends MedicationPhase>(phases: T[], date: string): T | null {
+  return (
+    [...phases]
+      .sort((a, b) => b.start_date.localeCompare(a.start_date))
+      .find((phase) => phase.start_date <= date && (!phase.end_date || date <= phase.end_date)) ?? null
+  );
+}
+
+/**
+ * The dose to take on a local date: the current phase's, else the medication's
+ */
+export function getDosageOn(medication: PhasedMedication, date: string): string {
+  return getPhaseOn(medication.medication_phases ?? [], date)?.dosage ?? formatDosage(medication);
+}
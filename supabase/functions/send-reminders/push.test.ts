@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// push.ts reads its configuration from Deno.env when it is loaded
+const env = vi.hoisted(() => {
+  const values: Record<string, string> = {
+    VAPID_PUBLIC_KEY: 'test-public-key',
+    VAPID_PRIVATE_KEY: 'test-private-key',
+    PUSH_ACTION_SECRET: 'test-secret',
+    SUPABASE_URL: 'https://project.supabase.co',
+    SUPABASE_SERVICE_ROLE_KEY: 'service-role-key',
+    SUPABASE_ANON_KEY: 'anon-key',
+  };
+  (globalThis as { Deno?: unknown }).Deno = { env: { get: (name: string) => values[name] } };
+  return values;
+});
+
+// Stand-ins for the push service and the push_subscriptions table
+const webpush = vi.hoisted(() => ({ setVapidDetails: vi.fn(), sendNotification: vi.fn() }));
+const db = vi.hoisted(() => ({
+  subscriptions: [] as { id: string; endpoint: string; p256dh: string; auth: string }[],
+  deleted: [] as string[],
+  used: [] as string[],
+}));
+
+vi.mock('npm:web-push@3.6.7', () => ({ default: webpush }));
+vi.mock('npm:@supabase/supabase-js@2.39.3', () => ({
+  createClient: () => ({
+    from: () => ({
+      select: () => ({ eq: async () => ({ data: db.subscriptions, error: null }) }),
+      update: () => ({ eq: async (_column: string, id: string) => db.used.push(id) }),
+      delete: () => ({ eq: async (_column: string, id: string) => db.deleted.push(id) }),
+    }),
+  }),
+}));
+
+const { createPushActionToken, sendPushNotification, verifyPushActionToken } = await import('./push.ts');
+
+const dose = {
+  userId: 'user-1',
+  medicationId: 'med-1',
+  scheduledTime: '2025-12-01T08:00:00.000Z',
+};
+
+function pushError(statusCode: number) {
+  return Object.assign(new Error(`Received unexpected response code ${statusCode}`), { statusCode });
+}
+
+describe('push action tokens', () => {
+  it('round-trips the dose it was issued for', async () => {
+    const claims = await verifyPushActionToken(await createPushActionToken(dose));
+    expect(claims).toMatchObject(dose);
+  });
+
+  it('rejects tampered, truncated and expired tokens', async () => {
+    const token = await createPushActionToken(dose);
+    const [body, signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ ...dose, medicationId: 'med-2', expiresAt: Date.now() + 1000 }))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+    expect(await verifyPushActionToken(`${forged}.${signature}`)).toBeNull();
+    expect(await verifyPushActionToken(body)).toBeNull();
+    expect(await verifyPushActionToken('not-a-token')).toBeNull();
+
+    vi.useFakeTimers({ now: Date.now() + 25 * 60 * 60 * 1000 });
+    expect(await verifyPushActionToken(token)).toBeNull();
+    vi.useRealTimers();
+  });
+});
+
+describe('sendPushNotification', () => {
+  beforeEach(() => {
+    webpush.sendNotification.mockReset();
+    db.subscriptions = [
+      { id: 'sub-1', endpoint: 'https://push.example/1', p256dh: 'key-1', auth: 'auth-1' },
+      { id: 'sub-2', endpoint: 'https://push.example/2', p256dh: 'key-2', auth: 'auth-2' },
+    ];
+    db.deleted = [];
+    db.used = [];
+  });
+
+  it('sends to every device with a signed action token', async () => {
+    webpush.sendNotification.mockResolvedValue({ statusCode: 201 });
+
+    const result = await sendPushNotification('user-1', { title: 'Time for Aspirin', body: '100 mg', dose });
+
+    expect(result).toEqual({ success: true });
+    expect(webpush.sendNotification).toHaveBeenCalledTimes(2);
+    const [subscription, payload, options] = webpush.sendNotification.mock.calls[0];
+    expect(subscription).toEqual({ endpoint: 'https://push.example/1', keys: { p256dh: 'key-1', auth: 'auth-1' } });
+    expect(options).toEqual({ TTL: 3600 });
+
+    const message = JSON.parse(payload);
+    expect(message).toMatchObject({
+      title: 'Time for Aspirin',
+      body: '100 mg',
+      actionUrl: `${env.SUPABASE_URL}/functions/v1/send-reminders`,
+      apiKey: env.SUPABASE_ANON_KEY,
+    });
+    expect(await verifyPushActionToken(message.actionToken)).toMatchObject(dose);
+    expect(db.used).toEqual(['sub-1', 'sub-2']);
+  });
+
+  it('removes subscriptions the push service reports as gone', async () => {
+    webpush.sendNotification
+      .mockRejectedValueOnce(pushError(410))
+      .mockRejectedValueOnce(pushError(404));
+
+    const result = await sendPushNotification('user-1', { title: 'Reminder', body: 'Take your dose' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('410');
+    expect(db.deleted).toEqual(['sub-1', 'sub-2']);
+  });
+
+  it('keeps subscriptions after other failures and succeeds if any device got it', async () => {
+    webpush.sendNotification.mockRejectedValueOnce(pushError(500)).mockResolvedValueOnce({ statusCode: 201 });
+
+    const result = await sendPushNotification('user-1', { title: 'Reminder', body: 'Take your dose' });
+
+    expect(result).toEqual({ success: true });
+    expect(db.deleted).toEqual([]);
+    expect(db.used).toEqual(['sub-2']);
+  });
+
+  it('reports users without push devices', async () => {
+    db.subscriptions = [];
+    const result = await sendPushNotification('user-1', { title: 'Reminder', body: 'Take your dose' });
+    expect(result).toEqual({ success: false, error: 'No devices have push notifications enabled.' });
+    expect(webpush.sendNotification).not.toHaveBeenCalled();
+  });
+});
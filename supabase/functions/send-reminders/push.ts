@@ -0,0 +1,179 @@
+/**
+ * Web Push delivery and signed notification-action tokens.
+ * Subscriptions are stored per device in push_subscriptions; the service worker
+ * in public/sw.js shows the notification and posts Taken/Snooze actions back
+ * to this function in 'push-action' mode.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import webpush from 'npm:web-push@3.6.7';
+
+const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+const vapidSubject = Deno.env.get('VAPID_SUBJECT') || 'mailto:noreply@mediremainder.app';
+
+// Tokens are signed so a notification action can record adherence without a
+// user session; they only ever grant access to the one dose they were issued for
+const pushActionSecret =
+  Deno.env.get('PUSH_ACTION_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+const PUSH_ACTION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type PushAction = 'taken' | 'snooze';
+
+export interface PushActionClaims {
+  userId: string;
+  medicationId: string;
+  scheduledTime: string; // UTC timestamp of the dose, as stored in adherence_logs
+  expiresAt: number;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  tag?: string;
+  dose?: Omit<PushActionClaims, 'expiresAt'>;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+if (vapidPublicKey && vapidPrivateKey) {
+  webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(pushActionSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Sign the dose a notification is about so its action buttons can act on it
+ */
+export async function createPushActionToken(
+  dose: Omit<PushActionClaims, 'expiresAt'>
+): Promise<string> {
+  const claims: PushActionClaims = { ...dose, expiresAt: Date.now() + PUSH_ACTION_TOKEN_TTL_MS };
+  const body = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a token from a notification action; returns null if it was tampered
+ * with or has expired
+ */
+export async function verifyPushActionToken(token: string): Promise<PushActionClaims | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature || !pushActionSecret) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as PushActionClaims;
+    if (!claims.userId || !claims.medicationId || !claims.scheduledTime) return null;
+    return claims.expiresAt > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send a notification to every device the user enabled push on
+ */
+export async function sendPushNotification(
+  userId: string,
+  message: PushMessage
+): Promise<{ success: boolean; error?: string }> {
+  if (!vapidPublicKey || !vapidPrivateKey) {
+    return { success: false, error: 'Push notifications are not configured (missing VAPID keys).' };
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId);
+
+  if (error) {
+    return { success: false, error: `Push error: ${error.message}` };
+  }
+
+  if (!subscriptions || subscriptions.length === 0) {
+    return { success: false, error: 'No devices have push notifications enabled.' };
+  }
+
+  const payload = JSON.stringify({
+    title: message.title,
+    body: message.body,
+    tag: message.tag,
+    actionUrl: `${supabaseUrl}/functions/v1/send-reminders`,
+    apiKey: Deno.env.get('SUPABASE_ANON_KEY') ?? null,
+    actionToken: message.dose ? await createPushActionToken(message.dose) : null,
+  });
+
+  const errors: string[] = [];
+  let delivered = 0;
+
+  for (const subscription of subscriptions as PushSubscriptionRow[]) {
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        payload,
+        { TTL: 60 * 60 }
+      );
+      delivered += 1;
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', subscription.id);
+    } catch (sendError) {
+      const statusCode = (sendError as { statusCode?: number }).statusCode;
+      // The browser dropped this subscription; stop sending to it
+      if (statusCode === 404 || statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+      }
+      errors.push(sendError instanceof Error ? sendError.message : `Push service returned ${statusCode}`);
+    }
+  }
+
+  return delivered > 0
+    ? { success: true }
+    : { success: false, error: `Push error: ${errors.join('; ')}` };
+}
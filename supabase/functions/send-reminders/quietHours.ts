@@ -0,0 +1,43 @@
+/**
+ * Quiet hours (do-not-disturb windows) stored on user_profiles.
+ * Mirrors src/lib/quietHours.ts so the browser and
+ * the cron job agree on when a reminder falls inside quiet hours.
+ */
+import { getZonedDateParts } from './timezone.ts';
+
+/**
+ * 'silence' drops non-critical reminders during quiet hours; 'digest' holds
+ * them and sends one summary once quiet hours are over.
+ */
+export type QuietHoursMode = 'silence' | 'digest';
+
+export interface QuietHoursWindow {
+  start: string; // local HH:MM
+  end: string; // local HH:MM, exclusive; earlier than start when it spans midnight
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Keep only well-formed windows from the user_profiles.quiet_hours column
+ */
+export function normalizeQuietHours(value: unknown): QuietHoursWindow[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry) => {
+    const start = typeof entry?.start === 'string' ? entry.start.slice(0, 5) : '';
+    const end = typeof entry?.end === 'string' ? entry.end.slice(0, 5) : '';
+    return TIME_PATTERN.test(start) && TIME_PATTERN.test(end) && start !== end ? [{ start, end }] : [];
+  });
+}
+
+/**
+ * Whether an instant falls inside any of the windows, in the user's timezone
+ */
+export function isWithinQuietHours(windows: QuietHoursWindow[], date: Date, timeZone: string): boolean {
+  const time = getZonedDateParts(date, timeZone).time;
+
+  return windows.some(({ start, end }) =>
+    start < end ? time >= start && time < end : time >= start || time < end
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Recurrence rules for medication schedules.
+ * Mirrors src/lib/recurrence.ts so the cron job and the browser expand a
+ * schedule into the same doses.
+ */
+import { addDays, getZonedDateParts, zonedDateTimeToUtc } from './timezone.ts';
+
+export type RecurrenceFrequency = 'daily' | 'hourly';
+
+/**
+ * RRULE-like recurrence stored on medication_schedules.
+ * - daily: one dose at reminder_time on every matching day; repeat_interval
+ *   spaces the days (2 = every other day).
+ * - hourly: a dose every repeat_interval hours counted from anchor_date at
+ *   reminder_time.
+ * by_weekday (0 = Sunday) and the on/off cycle further restrict which local
+ * days doses fall on, counted from anchor_date. until_date, if set, is the
+ * last local day with doses.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  repeat_interval: number;
+  by_weekday: number[] | null;
+  cycle_on_days: number | null;
+  cycle_off_days: number | null;
+  anchor_date: string;
+  until_date: string | null;
+}
+
+export interface RecurringSchedule extends Partial<RecurrenceRule> {
+  reminder_time: string;
+  created_at?: string | null;
+}
+
+export interface ScheduleOccurrence {
+  date: string; // local YYYY-MM-DD
+  time: string; // local HH:MM
+  scheduledAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+function toUtcDay(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDay(to) - toUtcDay(from)) / DAY_MS);
+}
+
+/**
+ * Fill in defaults for schedules created before recurrence existed
+ */
+export function normalizeRecurrence(schedule: RecurringSchedule): RecurrenceRule {
+  return {
+    frequency: schedule.frequency === 'hourly' ? 'hourly' : 'daily',
+    repeat_interval: Math.max(1, schedule.repeat_interval ?? 1),
+    by_weekday: schedule.by_weekday && schedule.by_weekday.length > 0 ? schedule.by_weekday : null,
+    cycle_on_days: schedule.cycle_on_days ?? null,
+    cycle_off_days: schedule.cycle_off_days ?? null,
+    anchor_date:
+      schedule.anchor_date ?? (schedule.created_at ? schedule.created_at.split('T')[0] : '1970-01-01'),
+    until_date: schedule.until_date ?? null,
+  };
+}
+
+/**
+ * Whether doses may fall on a local date under the rule
+ */
+export function isActiveOnDate(rule: RecurrenceRule, date: string): boolean {
+  const offset = daysBetween(rule.anchor_date, date);
+  if (offset < 0) return false;
+  if (rule.until_date && date > rule.until_date) return false;
+
+  if (rule.by_weekday && !rule.by_weekday.includes(new Date(toUtcDay(date)).getUTCDay())) {
+    return false;
+  }
+
+  if (rule.frequency === 'daily' && offset % rule.repeat_interval !== 0) {
+    return false;
+  }
+
+  if (rule.cycle_on_days && rule.cycle_off_days) {
+    const cycleLength = rule.cycle_on_days + rule.cycle_off_days;
+    if (offset % cycleLength >= rule.cycle_on_days) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Expand a schedule into the doses that fall within [start, end), counting
+ * only those from when the schedule row was created
+ */
+export function getOccurrencesBetween(
+  schedule: RecurringSchedule,
+  start: Date,
+  end: Date,
+  timeZone: string
+): ScheduleOccurrence[] {
+  const rule = normalizeRecurrence(schedule);
+  const occurrences: ScheduleOccurrence[] = [];
+
+  // Doses from before the schedule existed were never due
+  const createdAt = schedule.created_at ? new Date(schedule.created_at) : null;
+  const from = createdAt && createdAt > start ? createdAt : start;
+
+  if (rule.frequency === 'hourly') {
+    const step = rule.repeat_interval * HOUR_MS;
+    const anchor = zonedDateTimeToUtc(rule.anchor_date, schedule.reminder_time, timeZone).getTime();
+    const firstIndex = Math.max(0, Math.ceil((from.getTime() - anchor) / step));
+
+    for (let time = anchor + firstIndex * step; time < end.getTime(); time += step) {
+      const scheduledAt = new Date(time);
+      const local = getZonedDateParts(scheduledAt, timeZone);
+      if (isActiveOnDate(rule, local.date)) {
+        occurrences.push({ date: local.date, time: local.time, scheduledAt });
+      }
+    }
+
+    return occurrences;
+  }
+
+  const lastDate = getZonedDateParts(end, timeZone).date;
+  for (
+    let date = getZonedDateParts(from, timeZone).date;
+    date <= lastDate;
+    date = addDays(date, 1)
+  ) {
+    if (!isActiveOnDate(rule, date)) continue;
+
+    const scheduledAt = zonedDateTimeToUtc(date, schedule.reminder_time, timeZone);
+    if (scheduledAt >= from && scheduledAt < end) {
+      occurrences.push({ date, time: schedule.reminder_time.slice(0, 5), scheduledAt });
+    }
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getAdherenceRate, getStreaks } from '../../../src/lib/adherenceAnalytics';
+import { buildAdherenceReport, getReportWindow, ReportLog } from './report.ts';
+
+vi.mock('../../../src/lib/supabase', () => ({ supabase: {} }));
+
+function log(medicationId: string, scheduledTime: string, status: string): ReportLog {
+  return { medication_id: medicationId, scheduled_time: scheduledTime, status };
+}
+
+describe('getReportWindow', () => {
+  it('covers the last full Monday to Sunday week', () => {
+    const window = { period: 'weekly', start: '2025-05-26', end: '2025-06-01', label: 'May 26 – Jun 1, 2025' };
+    expect(getReportWindow('weekly', '2025-06-04')).toEqual(window);
+    expect(getReportWindow('weekly', '2025-06-02')).toEqual(window);
+    expect(getReportWindow('weekly', '2025-06-08')).toMatchObject({ start: '2025-05-26', end: '2025-06-01' });
+  });
+
+  it('covers the previous calendar month', () => {
+    expect(getReportWindow('monthly', '2025-03-15')).toEqual({
+      period: 'monthly',
+      start: '2025-02-01',
+      end: '2025-02-28',
+      label: 'February 2025',
+    });
+    expect(getReportWindow('monthly', '2025-01-01')).toMatchObject({ start: '2024-12-01', end: '2024-12-31' });
+  });
+});
+
+describe('buildAdherenceReport', () => {
+  const names = new Map([
+    ['med-1', 'Metformin'],
+    ['med-2', 'Aspirin'],
+  ]);
+  const logs = [
+    log('med-1', '2025-06-01T12:00:00Z', 'taken'),
+    log('med-2', '2025-06-01T12:00:00Z', 'taken'),
+    log('med-1', '2025-06-02T12:00:00Z', 'missed'),
+    log('med-2', '2025-06-02T12:00:00Z', 'taken'),
+    log('med-1', '2025-06-03T12:00:00Z', 'taken'),
+    log('med-2', '2025-06-03T12:00:00Z', 'not_taken_auto'),
+    log('med-1', '2025-06-05T12:00:00Z', 'taken'),
+    log('med-2', '2025-06-05T12:00:00Z', 'snoozed'),
+    log('med-3', '2025-06-06T12:00:00Z', 'taken'),
+  ];
+
+  it('totals answered doses and lists the most missed medications first', () => {
+    expect(buildAdherenceReport(logs, names, 'UTC')).toEqual({
+      taken: 6,
+      total: 8,
+      rate: 75,
+      medications: [
+        { name: 'Aspirin', taken: 2, missed: 1, rate: 67 },
+        { name: 'Metformin', taken: 3, missed: 1, rate: 75 },
+        { name: 'Unknown medication', taken: 1, missed: 0, rate: 100 },
+      ],
+      currentStreak: 2,
+      bestStreak: 2,
+    });
+  });
+
+  it('matches the Analytics page for the same doses', () => {
+    for (const timeZone of ['UTC', 'Pacific/Auckland']) {
+      const report = buildAdherenceReport(logs, names, timeZone);
+      expect({ taken: report.taken, total: report.total, rate: report.rate }).toEqual(getAdherenceRate(logs));
+      expect({ current: report.currentStreak, best: report.bestStreak }).toEqual(getStreaks(logs, timeZone));
+    }
+  });
+
+  it('has no rate without answered doses', () => {
+    expect(buildAdherenceReport([log('med-1', '2025-06-01T12:00:00Z', 'snoozed')], names, 'UTC')).toEqual({
+      taken: 0,
+      total: 0,
+      rate: null,
+      medications: [],
+      currentStreak: 0,
+      bestStreak: 0,
+    });
+  });
+});
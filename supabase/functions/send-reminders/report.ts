@@ -0,0 +1,127 @@
+/**
+ * Weekly and monthly adherence reports.
+ * Rates and streaks follow src/lib/adherenceAnalytics.ts so the emailed
+ * numbers match the Analytics page.
+ */
+import { addDays, getZonedDateParts } from './timezone.ts';
+
+export type ReportPeriod = 'weekly' | 'monthly';
+
+export interface ReportLog {
+  medication_id: string;
+  scheduled_time: string;
+  status: string;
+}
+
+export interface ReportWindow {
+  period: ReportPeriod;
+  start: string; // YYYY-MM-DD, first local day covered
+  end: string; // YYYY-MM-DD, last local day covered
+  label: string;
+}
+
+export interface MedicationReport {
+  name: string;
+  taken: number;
+  missed: number; // marked missed or finalized as not taken
+  rate: number | null;
+}
+
+export interface AdherenceReport {
+  taken: number;
+  total: number;
+  rate: number | null; // 0-100, null without answered doses
+  medications: MedicationReport[]; // most missed first
+  currentStreak: number; // as of the last day of the window
+  bestStreak: number;
+}
+
+// Snoozed doses are still open, so they do not count either way
+const ANSWERED_STATUSES = ['taken', 'missed', 'not_taken_auto'];
+
+function formatDay(date: string, withYear: boolean): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: withYear ? 'numeric' : undefined,
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * The last full period before `today`: Monday to Sunday for weekly
+ * reports, the previous calendar month for monthly ones
+ */
+export function getReportWindow(period: ReportPeriod, today: string): ReportWindow {
+  if (period === 'weekly') {
+    const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+    const start = addDays(today, -((weekday + 6) % 7) - 7);
+    const end = addDays(start, 6);
+    return { period, start, end, label: `${formatDay(start, false)} – ${formatDay(end, true)}` };
+  }
+
+  const end = addDays(`${today.slice(0, 7)}-01`, -1);
+  const start = `${end.slice(0, 7)}-01`;
+  const label = new Date(`${start}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  return { period, start, end, label };
+}
+
+function getRate(taken: number, total: number): number | null {
+  return total > 0 ? Math.round((taken / total) * 100) : null;
+}
+
+/**
+ * Summarize the answered doses of one window. `logs` should only hold doses
+ * due inside the window; `medicationNames` maps medication ids to names.
+ */
+export function buildAdherenceReport(
+  logs: ReportLog[],
+  medicationNames: Map<string, string>,
+  timeZone: string
+): AdherenceReport {
+  const answered = logs.filter((log) => ANSWERED_STATUSES.includes(log.status));
+  const taken = answered.filter((log) => log.status === 'taken').length;
+
+  const byMedication = new Map<string, MedicationReport>();
+  const daysWithMisses = new Map<string, boolean>();
+
+  for (const log of answered) {
+    const entry = byMedication.get(log.medication_id) ?? {
+      name: medicationNames.get(log.medication_id) ?? 'Unknown medication',
+      taken: 0,
+      missed: 0,
+      rate: null,
+    };
+    if (log.status === 'taken') entry.taken += 1;
+    else entry.missed += 1;
+    byMedication.set(log.medication_id, entry);
+
+    const date = getZonedDateParts(new Date(log.scheduled_time), timeZone).date;
+    daysWithMisses.set(date, (daysWithMisses.get(date) ?? false) || log.status !== 'taken');
+  }
+
+  // Days without any answered dose neither extend nor break a streak
+  let run = 0;
+  let bestStreak = 0;
+  for (const date of [...daysWithMisses.keys()].sort()) {
+    run = daysWithMisses.get(date) ? 0 : run + 1;
+    bestStreak = Math.max(bestStreak, run);
+  }
+
+  const medications = [...byMedication.values()]
+    .map((entry) => ({ ...entry, rate: getRate(entry.taken, entry.taken + entry.missed) }))
+    .sort((a, b) => b.missed - a.missed || a.name.localeCompare(b.name));
+
+  return {
+    taken,
+    total: answered.length,
+    rate: getRate(taken, answered.length),
+    medications,
+    currentStreak: run,
+    bestStreak,
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getDueLocalTimes, zonedDateTimeToUtc } from './timezone.ts';
+
+describe('zonedDateTimeToUtc', () => {
+  it('resolves times around a spring-forward jump', () => {
+    expect(zonedDateTimeToUtc('2025-03-09', '01:30', 'America/New_York')).toEqual(new Date('2025-03-09T06:30:00Z'));
+    expect(zonedDateTimeToUtc('2025-03-09', '02:30', 'America/New_York')).toEqual(new Date('2025-03-09T07:30:00Z'));
+    expect(zonedDateTimeToUtc('2025-03-09', '03:30', 'America/New_York')).toEqual(new Date('2025-03-09T07:30:00Z'));
+    expect(zonedDateTimeToUtc('2025-03-30', '01:15', 'Europe/London')).toEqual(new Date('2025-03-30T01:15:00Z'));
+    expect(zonedDateTimeToUtc('2025-03-30', '02:15', 'Europe/London')).toEqual(new Date('2025-03-30T01:15:00Z'));
+  });
+});
+
+describe('getDueLocalTimes', () => {
+  it('is the wall-clock time on ordinary days and after the clocks go back', () => {
+    expect(getDueLocalTimes(new Date('2025-03-08T07:30:00Z'), 'America/New_York')).toEqual(['02:30']);
+    expect(getDueLocalTimes(new Date('2025-11-02T05:30:00Z'), 'America/New_York')).toEqual(['01:30']);
+    expect(getDueLocalTimes(new Date('2025-11-02T06:30:00Z'), 'America/New_York')).toEqual(['01:30']);
+  });
+
+  it('adds times skipped by a spring-forward jump at the minute they resolve to', () => {
+    const instant = new Date('2025-03-09T07:30:00Z'); // 03:30 EDT
+    expect(getDueLocalTimes(instant, 'America/New_York')).toEqual(['03:30', '02:30']);
+    expect(zonedDateTimeToUtc('2025-03-09', '02:30', 'America/New_York')).toEqual(instant);
+
+    expect(getDueLocalTimes(new Date('2025-03-09T08:30:00Z'), 'America/New_York')).toEqual(['04:30']);
+    expect(getDueLocalTimes(new Date('2025-03-30T01:15:00Z'), 'Europe/London')).toEqual(['02:15', '01:15']);
+  });
+});
@@ -0,0 +1,30 @@
+/*
+  # Per-user Timezones
+
+  ## Updates
+  1. `user_profiles`
+     - Added `timezone` (IANA name, e.g. 'Europe/Berlin'). Reminders are evaluated
+       in this timezone by both the browser and the send-reminders cron job.
+     - Existing profiles default to 'Asia/Kolkata', the offset the cron job used
+       to hardcode, so their reminders keep firing at the same wall-clock time.
+  2. `adherence_logs`
+     - `scheduled_time` used to be written as a local wall-clock time without an
+       offset (stored as if it were UTC). Existing rows are converted to the real
+       instant in the owner's timezone.
+*/
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS timezone text;
+
+UPDATE user_profiles
+SET timezone = 'Asia/Kolkata'
+WHERE timezone IS NULL;
+
+ALTER TABLE user_profiles
+ALTER COLUMN timezone SET DEFAULT 'UTC',
+ALTER COLUMN timezone SET NOT NULL;
+
+UPDATE adherence_logs
+SET scheduled_time = (adherence_logs.scheduled_time AT TIME ZONE 'UTC') AT TIME ZONE user_profiles.timezone
+FROM user_profiles
+WHERE user_profiles.id = adherence_logs.user_id;
@@ -0,0 +1,39 @@
+/*
+  # Schedule Recurrence Rules
+
+  ## Updates
+  1. `medication_schedules`
+     - `frequency` ('daily' or 'hourly')
+     - `repeat_interval` (every N days for daily, every N hours for hourly)
+     - `by_weekday` (0 = Sunday .. 6 = Saturday; NULL means any day)
+     - `cycle_on_days` / `cycle_off_days` (e.g. 21 on / 7 off)
+     - `anchor_date` (day the interval and cycle are counted from; for hourly
+       schedules the first dose is `anchor_date` at `reminder_time`)
+
+  Existing schedules become daily rules anchored on the day they were created,
+  which keeps them firing every day as before.
+*/
+
+ALTER TABLE medication_schedules
+ADD COLUMN IF NOT EXISTS frequency text NOT NULL DEFAULT 'daily',
+ADD COLUMN IF NOT EXISTS repeat_interval integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS by_weekday smallint[],
+ADD COLUMN IF NOT EXISTS cycle_on_days integer,
+ADD COLUMN IF NOT EXISTS cycle_off_days integer,
+ADD COLUMN IF NOT EXISTS anchor_date date;
+
+UPDATE medication_schedules
+SET anchor_date = created_at::date
+WHERE anchor_date IS NULL;
+
+ALTER TABLE medication_schedules
+ALTER COLUMN anchor_date SET DEFAULT current_date,
+ALTER COLUMN anchor_date SET NOT NULL;
+
+ALTER TABLE medication_schedules
+ADD CONSTRAINT medication_schedules_frequency_check CHECK (frequency IN ('daily', 'hourly')),
+ADD CONSTRAINT medication_schedules_repeat_interval_check CHECK (repeat_interval >= 1),
+ADD CONSTRAINT medication_schedules_cycle_check CHECK (
+  (cycle_on_days IS NULL AND cycle_off_days IS NULL)
+  OR (cycle_on_days >= 1 AND cycle_off_days >= 1)
+);
@@ -0,0 +1,18 @@
+/*
+  # Reminder Snooze
+
+  ## Updates
+  1. `adherence_logs`
+     - `status` may now also be 'snoozed'
+     - `snoozed_until` (when the reminder fires again, in the browser and
+       through the user's reminder channel)
+     - `snooze_count` (how many times the dose was snoozed)
+*/
+
+ALTER TABLE adherence_logs
+ADD COLUMN IF NOT EXISTS snoozed_until timestamptz,
+ADD COLUMN IF NOT EXISTS snooze_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_adherence_logs_snoozed_until
+  ON adherence_logs(snoozed_until)
+  WHERE status = 'snoozed';
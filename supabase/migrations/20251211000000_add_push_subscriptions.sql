@@ -0,0 +1,40 @@
+/*
+  # Web Push Subscriptions
+
+  ## New Tables
+  1. `push_subscriptions`
+     - One row per browser/device that enabled push notifications
+     - `endpoint`, `p256dh`, `auth` (the PushSubscription the browser hands out
+       for our VAPID key)
+     - `user_agent` (to tell devices apart in the UI)
+     - `last_used_at` (last successful delivery)
+
+  ## Updates
+  1. `user_profiles`
+     - `preferred_channel` may now also be 'push'
+
+  ## Security
+  - Users can manage their own subscriptions. The send-reminders function
+    reads them with the service role and removes subscriptions the push
+    service reports as expired.
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own push subscriptions" ON push_subscriptions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own push subscriptions" ON push_subscriptions FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own push subscriptions" ON push_subscriptions FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own push subscriptions" ON push_subscriptions FOR DELETE TO authenticated USING (auth.uid() = user_id);
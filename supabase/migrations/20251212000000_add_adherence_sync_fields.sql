@@ -0,0 +1,40 @@
+/*
+  # Offline Adherence Sync
+
+  ## Updates
+  1. `adherence_logs`
+     - `recorded_at` (when the status was decided on the device, which can be
+       well before it reached the server for actions queued offline). When two
+       devices answer the same dose, the later `recorded_at` wins.
+     - One log per dose: unique on (`medication_id`, `scheduled_time`), so a
+       replayed action updates the existing row instead of adding another.
+       Older duplicates are removed first, keeping the most recent row.
+*/
+
+ALTER TABLE adherence_logs
+ADD COLUMN IF NOT EXISTS recorded_at timestamptz;
+
+UPDATE adherence_logs
+SET recorded_at = COALESCE(taken_at, created_at)
+WHERE recorded_at IS NULL;
+
+ALTER TABLE adherence_logs
+ALTER COLUMN recorded_at SET DEFAULT now();
+
+DELETE FROM adherence_logs
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT
+      id,
+      row_number() OVER (
+        PARTITION BY medication_id, scheduled_time
+        ORDER BY recorded_at DESC NULLS LAST, created_at DESC NULLS LAST
+      ) AS position
+    FROM adherence_logs
+  ) ranked
+  WHERE ranked.position > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_adherence_logs_dose
+  ON adherence_logs(medication_id, scheduled_time);
@@ -0,0 +1,35 @@
+/*
+  # Alert Audit Log
+
+  ## New Tables
+  1. `alert_audit_logs`
+     - One row per caregiver alert attempt made through send-reminders
+       ('send-alert', 'notify-caregivers' or the 'finalize' job)
+     - `status` ('sent', 'failed', 'rejected' for recipients outside the
+       caller's family members, 'rate_limited')
+     - Also the source for the per-user alert rate limits
+
+  ## Security
+  - Users can read their own audit rows. Only the send-reminders function
+    (service role) writes them.
+*/
+
+CREATE TABLE IF NOT EXISTS alert_audit_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  mode text NOT NULL,
+  recipient text,
+  subject text,
+  medication_id uuid REFERENCES medications(id) ON DELETE SET NULL,
+  status text NOT NULL,
+  error_message text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT alert_audit_logs_status_check CHECK (status IN ('sent', 'failed', 'rejected', 'rate_limited'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_audit_logs_user_created
+  ON alert_audit_logs(user_id, created_at);
+
+ALTER TABLE alert_audit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own alert audit logs" ON alert_audit_logs FOR SELECT TO authenticated USING (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+/*
+  # Reminder Dispatch Ledger
+
+  ## Updates
+  1. `reminder_logs`
+     - Now doubles as the dispatch ledger for the send-reminders cron job.
+       Before sending, the job claims a row by inserting it as 'pending' with
+       a unique `dispatch_key` (schedule id, local date and local time; or the
+       snoozed adherence log). Overlapping or retried invocations find the key
+       taken and skip the send. The row then moves to 'sent' or 'failed'.
+     - `dispatch_key` (unique; NULL for test sends and older rows)
+     - `schedule_id`, `scheduled_time` (the dose the reminder is for)
+     - `subject`, `message` (so a send stuck in 'pending' can be retried as is)
+     - `attempts`, `claimed_at` (rows still 'pending' a few minutes after
+       `claimed_at` are re-claimed and retried, up to 3 attempts)
+*/
+
+ALTER TABLE reminder_logs
+ADD COLUMN IF NOT EXISTS dispatch_key text,
+ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES medication_schedules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS scheduled_time timestamptz,
+ADD COLUMN IF NOT EXISTS subject text,
+ADD COLUMN IF NOT EXISTS message text,
+ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+ALTER TABLE reminder_logs
+ADD CONSTRAINT reminder_logs_dispatch_key_key UNIQUE (dispatch_key);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_logs_pending
+  ON reminder_logs(claimed_at)
+  WHERE status = 'pending';
@@ -0,0 +1,59 @@
+/*
+  # Reminder Escalation Ladder
+
+  ## New Tables
+  1. `escalation_policies`
+     - What happens when a reminder is not acknowledged. A row without
+       `medication_id` is the user's default; a row with one overrides it for
+       that medication. Users without a policy are not escalated.
+     - `repeat_after_minutes` / `repeat_count` (re-ping on the same channel)
+     - `secondary_channel` / `secondary_after_minutes` (switch channel)
+     - `notify_emergency_contacts` / `emergency_after_minutes` (email the
+       `family_members` marked `is_emergency_contact`)
+     - Escalation stops once the dose is answered in `adherence_logs`
+       ('taken' or 'missed') and pauses while it is snoozed.
+
+  ## Updates
+  1. `reminder_logs`
+     - `escalation_step` (NULL for the first reminder, e.g. 'repeat-10',
+       'secondary-20' or 'emergency-30' for escalations)
+     - `recipient` (email of the family member for emergency steps)
+*/
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  medication_id uuid REFERENCES medications(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT true,
+  repeat_after_minutes integer NOT NULL DEFAULT 10,
+  repeat_count integer NOT NULL DEFAULT 1,
+  secondary_channel text,
+  secondary_after_minutes integer NOT NULL DEFAULT 20,
+  notify_emergency_contacts boolean NOT NULL DEFAULT false,
+  emergency_after_minutes integer NOT NULL DEFAULT 30,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT escalation_policies_minutes_check CHECK (
+    repeat_after_minutes >= 1 AND secondary_after_minutes >= 1 AND emergency_after_minutes >= 1
+  ),
+  CONSTRAINT escalation_policies_repeat_count_check CHECK (repeat_count BETWEEN 0 AND 5)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_escalation_policies_user_default
+  ON escalation_policies(user_id)
+  WHERE medication_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_escalation_policies_medication
+  ON escalation_policies(medication_id)
+  WHERE medication_id IS NOT NULL;
+
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own escalation policies" ON escalation_policies FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own escalation policies" ON escalation_policies FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own escalation policies" ON escalation_policies FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own escalation policies" ON escalation_policies FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+ALTER TABLE reminder_logs
+ADD COLUMN IF NOT EXISTS escalation_step text,
+ADD COLUMN IF NOT EXISTS recipient text;
@@ -0,0 +1,60 @@
+/*
+  # Multi-Channel Reminder Delivery
+
+  ## New Tables
+  1. `notification_channels`
+     - The ordered set of channels a user receives reminders on
+     - `position` (0 = first; the first enabled channel is mirrored into
+       `user_profiles.preferred_channel` for escalation and older clients)
+     - `enabled`
+     - `verified_at` (last successful test send on this channel; reminders only
+       go to verified channels, falling back to `preferred_channel` when none is)
+     - `last_error` (why the last test send failed)
+
+  ## Updates
+  1. `user_profiles`
+     - `delivery_mode`: 'all' sends every reminder to each verified channel,
+       'first_success' tries them in order and stops once one delivers
+
+  ## Data
+  - Each user's current `preferred_channel` becomes their first channel. It
+    counts as verified if a reminder was ever delivered on it.
+*/
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('email', 'whatsapp', 'telegram', 'push')),
+  position integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  verified_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, channel)
+);
+
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own notification channels" ON notification_channels FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own notification channels" ON notification_channels FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own notification channels" ON notification_channels FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own notification channels" ON notification_channels FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS delivery_mode text NOT NULL DEFAULT 'all'
+  CHECK (delivery_mode IN ('all', 'first_success'));
+
+INSERT INTO notification_channels (user_id, channel, position, verified_at)
+SELECT
+  p.id,
+  p.preferred_channel,
+  0,
+  (
+    SELECT max(r.sent_at)
+    FROM reminder_logs r
+    WHERE r.user_id = p.id AND r.channel = p.preferred_channel AND r.status = 'sent'
+  )
+FROM user_profiles p
+WHERE p.preferred_channel IN ('email', 'whatsapp', 'telegram', 'push')
+ON CONFLICT (user_id, channel) DO NOTHING;
@@ -0,0 +1,27 @@
+/*
+  # Quiet Hours
+
+  ## Updates
+  1. `user_profiles`
+     - `quiet_hours` (JSON array of `{ "start": "22:00", "end": "07:00" }`
+       windows in the user's timezone; a window may span midnight)
+     - `quiet_hours_mode`: 'silence' drops non-critical reminders during quiet
+       hours, 'digest' holds them and sends one summary once quiet hours end
+  2. `medications`
+     - `is_critical` (reminders for this medication ignore quiet hours)
+  3. `reminder_logs`
+     - `status` may now also be 'held' (waiting for the digest), 'digested'
+       (included in a digest) or 'skipped' (dropped for quiet hours)
+*/
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS quiet_hours jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS quiet_hours_mode text NOT NULL DEFAULT 'silence'
+  CHECK (quiet_hours_mode IN ('silence', 'digest'));
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS is_critical boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_reminder_logs_held
+  ON reminder_logs(user_id)
+  WHERE status = 'held';
@@ -0,0 +1,26 @@
+/*
+  # As-Needed (PRN) Medications
+
+  ## Updates
+  1. `medications`
+     - `is_prn` (taken on demand; has no schedules and so no reminders)
+     - `min_interval_minutes` (shortest time allowed between two doses)
+     - `max_doses_per_day` (most doses allowed in any 24 hours)
+  2. `adherence_logs`
+     - `is_prn` (a dose logged on demand; `scheduled_time` and `taken_at` are
+       the time it was taken). Kept out of adherence percentages.
+*/
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS is_prn boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS min_interval_minutes integer
+  CHECK (min_interval_minutes IS NULL OR min_interval_minutes > 0),
+ADD COLUMN IF NOT EXISTS max_doses_per_day integer
+  CHECK (max_doses_per_day IS NULL OR max_doses_per_day > 0);
+
+ALTER TABLE adherence_logs
+ADD COLUMN IF NOT EXISTS is_prn boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_adherence_logs_prn
+  ON adherence_logs(medication_id, taken_at)
+  WHERE is_prn;
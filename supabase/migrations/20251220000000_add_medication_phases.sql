@@ -0,0 +1,47 @@
+/*
+  # Tapering and Titration Phases
+
+  ## New Tables
+  1. `medication_phases`
+     - Consecutive date ranges of a medication with their own dose, e.g.
+       "10mg for a week, then 20mg". `end_date` is inclusive; the last phase
+       may leave it open. Reminders show the dose of the phase the dose falls
+       in, so the medication moves to the next phase on its own.
+
+  ## Updates
+  1. `medication_schedules`
+     - `phase_id` (the phase whose dose times the schedule holds; NULL for
+       medications without phases)
+     - `until_date` (last local day the schedule fires on; NULL means no end).
+       Phase schedules run from the phase's `start_date` (`anchor_date`) to
+       its `end_date`.
+*/
+
+CREATE TABLE IF NOT EXISTS medication_phases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id uuid NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  start_date date NOT NULL,
+  end_date date,
+  dosage text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT medication_phases_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_phases_medication
+  ON medication_phases(medication_id, start_date);
+
+ALTER TABLE medication_phases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own medication phases" ON medication_phases FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own medication phases" ON medication_phases FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own medication phases" ON medication_phases FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own medication phases" ON medication_phases FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+ALTER TABLE medication_schedules
+ADD COLUMN IF NOT EXISTS phase_id uuid REFERENCES medication_phases(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS until_date date;
+
+ALTER TABLE medication_schedules
+ADD CONSTRAINT medication_schedules_until_date_check CHECK (until_date IS NULL OR until_date >= anchor_date);
@@ -0,0 +1,20 @@
+/*
+  # Automatic Course Completion
+
+  ## Updates
+  1. `medications`
+     - `completed_at` (set by the send-reminders 'finalize' job once the day
+       after `end_date` has begun in the user's timezone; the medication is
+       deactivated at the same time). Inactive medications with
+       `completed_at` are listed as completed courses; those without it were
+       removed by the user.
+     - Two days before `end_date` the same job sends a "your course ends
+       soon" heads-up through the reminder_logs ledger, once per course.
+*/
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_medications_end_date
+  ON medications(end_date)
+  WHERE active AND end_date IS NOT NULL;
@@ -0,0 +1,19 @@
+/*
+  # Pill Inventory and Refill Alerts
+
+  ## Updates
+  1. `medications`
+     - `stock_quantity` (units on hand; NULL when the user does not track
+       stock). Lowered by `units_per_dose` each time a dose is marked taken.
+     - `units_per_dose` (pills, puffs, ml... taken per dose)
+     - `refill_threshold_days` (send a "time to refill" reminder once the
+       schedule leaves this many days of supply or fewer)
+     - `stock_updated_at` (when the user last entered the stock; the refill
+       reminder goes out once per entry, through the reminder_logs ledger)
+*/
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS stock_quantity numeric CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+ADD COLUMN IF NOT EXISTS units_per_dose numeric NOT NULL DEFAULT 1 CHECK (units_per_dose > 0),
+ADD COLUMN IF NOT EXISTS refill_threshold_days integer NOT NULL DEFAULT 7 CHECK (refill_threshold_days >= 0),
+ADD COLUMN IF NOT EXISTS stock_updated_at timestamptz;
@@ -0,0 +1,72 @@
+/*
+  # Structured Dosage
+
+  ## Updates
+  1. `medications`
+     - `dose_strength` / `dose_unit` (active ingredient per item, e.g. 500 mg;
+       units: mg, mcg, g, IU, units, %)
+     - `dose_quantity` / `dose_form` (items per intake, e.g. 2 tablets, or the
+       volume for liquids, e.g. 5 ml)
+     - `dosage` stays as the rendered text for older clients and free-text
+       doses that cannot be parsed
+
+  ## Data
+  - Existing `dosage` strings such as "500mg", "2 tablets" or "5 ml" are
+    parsed into the new columns, with the same rules as src/lib/dosage.ts.
+*/
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS dose_strength numeric CHECK (dose_strength IS NULL OR dose_strength > 0),
+ADD COLUMN IF NOT EXISTS dose_unit text
+  CHECK (dose_unit IS NULL OR dose_unit IN ('mg', 'mcg', 'g', 'IU', 'units', '%')),
+ADD COLUMN IF NOT EXISTS dose_quantity numeric CHECK (dose_quantity IS NULL OR dose_quantity > 0),
+ADD COLUMN IF NOT EXISTS dose_form text
+  CHECK (dose_form IS NULL OR dose_form IN ('tablet', 'capsule', 'ml', 'puff', 'drop', 'patch', 'injection', 'sachet'));
+
+UPDATE medications AS med
+SET
+  dose_strength = replace(parsed.match[1], ',', '.')::numeric,
+  dose_unit = CASE
+    WHEN lower(parsed.match[2]) = 'µg' THEN 'mcg'
+    WHEN lower(parsed.match[2]) = 'iu' THEN 'IU'
+    WHEN lower(parsed.match[2]) LIKE 'unit%' THEN 'units'
+    ELSE lower(parsed.match[2])
+  END
+FROM (
+  SELECT id, regexp_match(dosage, '(\d+(?:[.,]\d+)?)\s*(mcg|µg|mg|g|iu|units?|%)(?![a-z])', 'i') AS match
+  FROM medications
+) AS parsed
+WHERE parsed.id = med.id
+  AND parsed.match IS NOT NULL
+  AND med.dose_unit IS NULL;
+
+UPDATE medications AS med
+SET
+  dose_quantity = CASE lower(parsed.match[1])
+    WHEN '½' THEN 0.5
+    WHEN 'half' THEN 0.5
+    WHEN 'one' THEN 1
+    WHEN 'two' THEN 2
+    WHEN 'three' THEN 3
+    WHEN 'four' THEN 4
+    ELSE replace(parsed.match[1], ',', '.')::numeric
+  END,
+  dose_form = CASE
+    WHEN lower(parsed.match[2]) LIKE 'tab%' THEN 'tablet'
+    WHEN lower(parsed.match[2]) LIKE 'cap%' THEN 'capsule'
+    WHEN lower(parsed.match[2]) LIKE 'patch%' THEN 'patch'
+    ELSE regexp_replace(lower(parsed.match[2]), 's$', '')
+  END
+FROM (
+  SELECT
+    id,
+    regexp_match(
+      dosage,
+      '(\d+(?:[.,]\d+)?|½|half|one|two|three|four)\s*(tablets?|tabs?|capsules?|caps?|ml|puffs?|drops?|patch(?:es)?|injections?|sachets?)(?![a-z])',
+      'i'
+    ) AS match
+  FROM medications
+) AS parsed
+WHERE parsed.id = med.id
+  AND parsed.match IS NOT NULL
+  AND med.dose_form IS NULL;
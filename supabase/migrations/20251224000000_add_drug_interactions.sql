@@ -0,0 +1,59 @@
+/*
+  # Drug-Drug Interactions
+
+  ## New Tables
+  1. `drug_interactions` (reference data, read by every signed-in user,
+     like `medication_info`)
+     - `drug_a` / `drug_b` (lowercase generic names, stored in alphabetical
+       order so each pair appears once)
+     - `severity` (minor, moderate or major)
+     - `description` (what can happen and what to do about it)
+
+  ## Data
+  - Well-known interactions between common medications. The app matches
+    them against medication names locally, without the Gemini API.
+*/
+
+CREATE TABLE IF NOT EXISTS drug_interactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  drug_a text NOT NULL,
+  drug_b text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('minor', 'moderate', 'major')),
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (drug_a < drug_b),
+  UNIQUE (drug_a, drug_b)
+);
+
+ALTER TABLE drug_interactions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read drug interactions" ON drug_interactions FOR SELECT TO authenticated USING (true);
+
+INSERT INTO drug_interactions (drug_a, drug_b, severity, description) VALUES
+  ('aspirin', 'warfarin', 'major', 'Together they greatly raise the risk of serious bleeding. Only combine under close medical supervision.'),
+  ('ibuprofen', 'warfarin', 'major', 'NSAIDs increase the bleeding risk of warfarin, including stomach bleeding.'),
+  ('naproxen', 'warfarin', 'major', 'NSAIDs increase the bleeding risk of warfarin, including stomach bleeding.'),
+  ('aspirin', 'ibuprofen', 'moderate', 'Ibuprofen can block the heart-protective effect of low-dose aspirin and adds to stomach irritation.'),
+  ('clopidogrel', 'omeprazole', 'moderate', 'Omeprazole can make clopidogrel less effective at preventing clots. Ask about another acid reducer.'),
+  ('lisinopril', 'spironolactone', 'major', 'Both raise potassium levels; the combination can cause dangerous hyperkalemia. Potassium should be monitored.'),
+  ('lisinopril', 'potassium chloride', 'major', 'Lisinopril raises potassium, so supplements can push it to dangerous levels.'),
+  ('ibuprofen', 'lisinopril', 'moderate', 'NSAIDs can weaken the blood pressure effect of lisinopril and strain the kidneys.'),
+  ('clarithromycin', 'simvastatin', 'major', 'Clarithromycin sharply raises simvastatin levels, risking severe muscle damage. Simvastatin is usually paused.'),
+  ('atorvastatin', 'clarithromycin', 'moderate', 'Clarithromycin raises atorvastatin levels and the risk of muscle pain or damage.'),
+  ('amlodipine', 'simvastatin', 'moderate', 'Amlodipine raises simvastatin levels; the simvastatin dose is usually kept at 20 mg or less.'),
+  ('sertraline', 'tramadol', 'major', 'Risk of serotonin syndrome and seizures. Watch for agitation, fever, tremor or fast heartbeat.'),
+  ('fluoxetine', 'tramadol', 'major', 'Risk of serotonin syndrome and seizures. Watch for agitation, fever, tremor or fast heartbeat.'),
+  ('sertraline', 'sumatriptan', 'moderate', 'Both raise serotonin; rarely this causes serotonin syndrome.'),
+  ('calcium carbonate', 'levothyroxine', 'moderate', 'Calcium blocks levothyroxine absorption. Take them at least 4 hours apart.'),
+  ('levothyroxine', 'omeprazole', 'minor', 'Lower stomach acid can reduce levothyroxine absorption; thyroid levels may need checking.'),
+  ('metformin', 'prednisone', 'moderate', 'Prednisone raises blood sugar and can offset metformin. Monitor glucose more closely.'),
+  ('amiodarone', 'digoxin', 'major', 'Amiodarone raises digoxin levels, risking toxicity. The digoxin dose usually needs lowering.'),
+  ('nitroglycerin', 'sildenafil', 'major', 'Can cause a dangerous drop in blood pressure. Do not combine.'),
+  ('methotrexate', 'trimethoprim', 'major', 'Increases methotrexate toxicity, including bone marrow suppression.'),
+  ('ciprofloxacin', 'tizanidine', 'major', 'Ciprofloxacin greatly raises tizanidine levels, causing low blood pressure and heavy drowsiness. Do not combine.'),
+  ('ibuprofen', 'lithium', 'major', 'NSAIDs raise lithium levels and can lead to lithium toxicity.'),
+  ('allopurinol', 'azathioprine', 'major', 'Allopurinol blocks the breakdown of azathioprine, risking severe bone marrow suppression.'),
+  ('ciprofloxacin', 'levothyroxine', 'minor', 'Ciprofloxacin may reduce levothyroxine absorption when taken together. Space them apart.'),
+  ('atorvastatin', 'gemfibrozil', 'major', 'The combination increases the risk of severe muscle damage.')
+ON CONFLICT (drug_a, drug_b) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_drug_interactions_drug_b ON drug_interactions(drug_b);
@@ -0,0 +1,113 @@
+/*
+  # Allergy and Condition Contraindications
+
+  ## New Tables
+  1. `drug_classes` (reference data)
+     - `drug_name` (lowercase generic name, e.g. amoxicillin)
+     - `class_name` (lowercase class, e.g. penicillin, nsaid)
+  2. `drug_contraindications` (reference data)
+     - `subject` (a drug or class name from `drug_classes`)
+     - `kind` ('allergy': `term` is matched against user_profiles.allergies,
+       for cross-reactions such as penicillin and cephalosporins;
+       'condition': `term` is matched against user_profiles.medical_conditions)
+     - `term` (lowercase text looked for in the profile entry)
+     - `description`
+
+  ## Updates
+  1. `medications`
+     - `acknowledged_warnings` (the allergy/condition warnings the user
+       accepted when saving the medication, as shown to them)
+     - `warnings_acknowledged_at`
+
+  ## Data
+  - Common drug classes and contraindications. Allergies also match the
+    drug or its class by name, so an allergy to "penicillin" flags
+    amoxicillin without a separate row.
+*/
+
+CREATE TABLE IF NOT EXISTS drug_classes (
+  drug_name text NOT NULL,
+  class_name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (drug_name, class_name)
+);
+
+ALTER TABLE drug_classes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read drug classes" ON drug_classes FOR SELECT TO authenticated USING (true);
+
+CREATE TABLE IF NOT EXISTS drug_contraindications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('allergy', 'condition')),
+  term text NOT NULL,
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (subject, kind, term)
+);
+
+ALTER TABLE drug_contraindications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can read drug contraindications" ON drug_contraindications FOR SELECT TO authenticated USING (true);
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS acknowledged_warnings jsonb,
+ADD COLUMN IF NOT EXISTS warnings_acknowledged_at timestamptz;
+
+INSERT INTO drug_classes (drug_name, class_name) VALUES
+  ('amoxicillin', 'penicillin'),
+  ('ampicillin', 'penicillin'),
+  ('penicillin', 'penicillin'),
+  ('dicloxacillin', 'penicillin'),
+  ('cephalexin', 'cephalosporin'),
+  ('cefuroxime', 'cephalosporin'),
+  ('ceftriaxone', 'cephalosporin'),
+  ('sulfamethoxazole', 'sulfonamide'),
+  ('aspirin', 'nsaid'),
+  ('ibuprofen', 'nsaid'),
+  ('naproxen', 'nsaid'),
+  ('diclofenac', 'nsaid'),
+  ('celecoxib', 'nsaid'),
+  ('codeine', 'opioid'),
+  ('morphine', 'opioid'),
+  ('oxycodone', 'opioid'),
+  ('tramadol', 'opioid'),
+  ('lisinopril', 'ace inhibitor'),
+  ('enalapril', 'ace inhibitor'),
+  ('ramipril', 'ace inhibitor'),
+  ('atenolol', 'beta blocker'),
+  ('metoprolol', 'beta blocker'),
+  ('propranolol', 'beta blocker'),
+  ('atorvastatin', 'statin'),
+  ('simvastatin', 'statin'),
+  ('rosuvastatin', 'statin'),
+  ('prednisone', 'corticosteroid'),
+  ('prednisolone', 'corticosteroid'),
+  ('pseudoephedrine', 'decongestant'),
+  ('phenylephrine', 'decongestant'),
+  ('ciprofloxacin', 'fluoroquinolone'),
+  ('levofloxacin', 'fluoroquinolone')
+ON CONFLICT (drug_name, class_name) DO NOTHING;
+
+INSERT INTO drug_contraindications (subject, kind, term, description) VALUES
+  ('cephalosporin', 'allergy', 'penicillin', 'Some people allergic to penicillin also react to cephalosporins.'),
+  ('nsaid', 'allergy', 'aspirin', 'People who react to aspirin often react to other NSAIDs too.'),
+  ('nsaid', 'condition', 'kidney', 'NSAIDs can worsen kidney function.'),
+  ('nsaid', 'condition', 'renal', 'NSAIDs can worsen kidney function.'),
+  ('nsaid', 'condition', 'ulcer', 'NSAIDs can cause stomach bleeding, especially with a history of ulcers.'),
+  ('nsaid', 'condition', 'heart failure', 'NSAIDs cause fluid retention and can worsen heart failure.'),
+  ('nsaid', 'condition', 'asthma', 'NSAIDs can trigger asthma attacks in some people.'),
+  ('metformin', 'condition', 'kidney', 'Metformin can build up when the kidneys are impaired, risking lactic acidosis.'),
+  ('metformin', 'condition', 'renal', 'Metformin can build up when the kidneys are impaired, risking lactic acidosis.'),
+  ('beta blocker', 'condition', 'asthma', 'Beta blockers can narrow the airways and trigger asthma attacks.'),
+  ('beta blocker', 'condition', 'copd', 'Beta blockers can worsen breathing in COPD.'),
+  ('ace inhibitor', 'condition', 'pregnan', 'ACE inhibitors can harm an unborn baby.'),
+  ('statin', 'condition', 'pregnan', 'Statins are not recommended during pregnancy.'),
+  ('statin', 'condition', 'liver', 'Statins can affect the liver; liver function should be monitored.'),
+  ('corticosteroid', 'condition', 'diabetes', 'Corticosteroids raise blood sugar.'),
+  ('decongestant', 'condition', 'hypertension', 'Decongestants raise blood pressure.'),
+  ('decongestant', 'condition', 'high blood pressure', 'Decongestants raise blood pressure.'),
+  ('opioid', 'condition', 'copd', 'Opioids slow breathing, which is riskier with lung disease.'),
+  ('opioid', 'condition', 'sleep apnea', 'Opioids slow breathing, which is riskier with sleep apnea.'),
+  ('fluoroquinolone', 'condition', 'myasthenia', 'Fluoroquinolones can worsen muscle weakness in myasthenia gravis.'),
+  ('aspirin', 'condition', 'bleeding', 'Aspirin increases the risk of bleeding.'),
+  ('aspirin', 'condition', 'hemophilia', 'Aspirin increases the risk of bleeding.')
+ON CONFLICT (subject, kind, term) DO NOTHING;
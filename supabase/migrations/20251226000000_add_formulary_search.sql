@@ -0,0 +1,71 @@
+/*
+  # Searchable Formulary
+
+  ## Updates
+  1. `medication_info` becomes the local formulary
+     - `brand_names`, `strengths` (e.g. '500 mg'), `forms` (tablet,
+       capsule, syrup...) and `classes` (lowercase, same names as
+       `drug_classes.class_name`)
+     - `search_text` / `search_vector` (kept up to date by a trigger, for
+       typo-tolerant trigram matching and full-text search)
+  2. `search_formulary(search_query, max_results)` returns the best matches
+     on generic or brand name, class or description. Misspellings such as
+     "amoxicilin" still match through pg_trgm.
+
+  ## Data
+  - The bundled dataset in scripts/data/formulary.json (or any CSV/JSON
+    file in the same shape) is loaded with `npm run import:formulary`.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE medication_info
+ADD COLUMN IF NOT EXISTS brand_names text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS strengths text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS forms text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS classes text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS search_text text NOT NULL DEFAULT '',
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION update_medication_info_search()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_text := lower(
+    concat_ws(' ', NEW.drug_name, array_to_string(NEW.brand_names, ' '), array_to_string(NEW.classes, ' '))
+  );
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', NEW.search_text), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS medication_info_search ON medication_info;
+CREATE TRIGGER medication_info_search
+  BEFORE INSERT OR UPDATE ON medication_info
+  FOR EACH ROW EXECUTE FUNCTION update_medication_info_search();
+
+-- Fill the search columns for the rows seeded before this migration
+UPDATE medication_info SET drug_name = drug_name;
+
+CREATE INDEX IF NOT EXISTS idx_medication_info_search_text ON medication_info USING gin (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_medication_info_search_vector ON medication_info USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION search_formulary(search_query text, max_results integer DEFAULT 8)
+RETURNS SETOF medication_info
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT info.*
+  FROM medication_info AS info
+  WHERE strpos(info.search_text, lower(trim(search_query))) > 0
+     OR word_similarity(lower(trim(search_query)), info.search_text) >= 0.5
+     OR info.search_vector @@ websearch_to_tsquery('english', search_query)
+  ORDER BY
+    starts_with(info.search_text, lower(trim(search_query))) DESC,
+    word_similarity(lower(trim(search_query)), info.search_text) DESC,
+    ts_rank(info.search_vector, websearch_to_tsquery('english', search_query)) DESC
+  LIMIT max_results;
+$$;
@@ -0,0 +1,70 @@
+/*
+  # Medication Edit History
+
+  ## New Tables
+  1. `medication_versions`
+     - One row per edit of a medication's details or schedules, numbered
+       from 2 (version 1 is the medication as first saved)
+     - `changes` (array of { field, old, new } with the values before and
+       after the edit; schedules are listed as their reminder times)
+     - `changed_by` (the signed-in user who made the edit), `changed_at`
+
+  ## Updates
+  1. `medications`
+     - `current_version` (bumped with every edit; the update is guarded on
+       it so two concurrent edits cannot both apply)
+  2. `adherence_logs`
+     - `medication_version` (the regimen that applied at `scheduled_time`).
+       Filled in by a trigger on insert, so every writer (the app, the
+       offline outbox, push actions and the 'finalize' job) records it.
+       Existing logs belong to version 1.
+
+  ## Security
+  - Users can read and add history for their own medications. Versions are
+    never updated or deleted.
+*/
+
+CREATE TABLE IF NOT EXISTS medication_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id uuid NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version >= 2),
+  changes jsonb NOT NULL,
+  changed_by uuid DEFAULT auth.uid() REFERENCES user_profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (medication_id, version)
+);
+
+ALTER TABLE medication_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own medication versions" ON medication_versions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own medication versions" ON medication_versions FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE medications
+ADD COLUMN IF NOT EXISTS current_version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE adherence_logs
+ADD COLUMN IF NOT EXISTS medication_version integer;
+
+UPDATE adherence_logs SET medication_version = 1 WHERE medication_version IS NULL;
+
+CREATE OR REPLACE FUNCTION set_adherence_medication_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.medication_version IS NULL THEN
+    SELECT COALESCE(MAX(version), 1)
+    INTO NEW.medication_version
+    FROM medication_versions
+    WHERE medication_id = NEW.medication_id
+      AND changed_at <= NEW.scheduled_time;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS adherence_logs_medication_version ON adherence_logs;
+CREATE TRIGGER adherence_logs_medication_version
+  BEFORE INSERT ON adherence_logs
+  FOR EACH ROW EXECUTE FUNCTION set_adherence_medication_version();
@@ -0,0 +1,11 @@
+/*
+  # Missed-dose Notes
+
+  ## Updates
+  1. `adherence_logs`
+     - `notes` (why a dose was missed, written by the patient while preparing
+       the doctor-visit PDF, which lists recent missed doses with their notes)
+*/
+
+ALTER TABLE adherence_logs
+ADD COLUMN IF NOT EXISTS notes text;
@@ -0,0 +1,21 @@
+/*
+  # Count Stock by the Structured Dosage
+
+  ## Updates
+  1. `medications`
+     - `units_per_dose` is dropped. It duplicated `dose_quantity` (items,
+       or ml for liquids, per intake), which is now what each taken dose
+       takes out of `stock_quantity` and what the refill forecast uses.
+
+  ## Data
+  - Medications with a `units_per_dose` but no `dose_quantity` keep their
+    amount per intake in `dose_quantity`.
+*/
+
+UPDATE medications
+SET dose_quantity = units_per_dose
+WHERE dose_quantity IS NULL
+  AND units_per_dose <> 1;
+
+ALTER TABLE medications
+DROP COLUMN IF EXISTS units_per_dose;
@@ -0,0 +1,20 @@
+/*
+  # Atomic Stock Adjustments
+
+  ## Updates
+  1. `adjust_medication_stock(medication_id, doses)` takes `doses` intakes
+     out of `medications.stock_quantity` (or puts them back when negative)
+     in a single UPDATE, so doses marked on two devices at once are both
+     counted. Medications without tracked stock are left alone. It runs
+     with the caller's rights, so users can only adjust their own stock.
+*/
+
+CREATE OR REPLACE FUNCTION adjust_medication_stock(medication_id uuid, doses numeric)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE medications
+  SET stock_quantity = greatest(0, stock_quantity - doses * coalesce(dose_quantity, 1))
+  WHERE id = medication_id
+    AND stock_quantity IS NOT NULL;
+$$;
@@ -0,0 +1,108 @@
+/*
+  # Atomic Medication Edits
+
+  ## Updates
+  1. `save_medication_edit(...)` applies an edit from the medication editor
+     in one transaction: the details (guarded on `current_version`), the
+     removed, re-timed and added reminder times, and the new
+     `medication_versions` row. A failure part way through leaves nothing
+     behind, so a version is never bumped without its history entry.
+     - `details` holds the edited medications columns, `added_schedules`
+       the new medication_schedules rows (reminder time and recurrence).
+     - A re-timed reminder deactivates its row and starts a new one with
+       the same recurrence, so the new time is only due from the edit on
+       and the doses already past keep the old time.
+       A rename re-checks allergies and conditions, so `details` then also
+       carries `acknowledged_warnings` / `warnings_acknowledged_at`.
+     - Raises when the medication was edited elsewhere since it was loaded
+     - Returns the new version. Runs with the caller's rights, so the
+       existing row level security applies.
+*/
+
+CREATE OR REPLACE FUNCTION save_medication_edit(
+  edited_medication_id uuid,
+  expected_version integer,
+  details jsonb,
+  removed_schedule_ids uuid[],
+  retimed_schedules jsonb,
+  added_schedules jsonb,
+  version_changes jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  edited medications := jsonb_populate_record(NULL::medications, details);
+  owner_id uuid;
+BEGIN
+  UPDATE medications
+  SET
+    medication_name = edited.medication_name,
+    dosage = edited.dosage,
+    medication_type = edited.medication_type,
+    instructions = edited.instructions,
+    end_date = edited.end_date,
+    is_critical = edited.is_critical,
+    min_interval_minutes = edited.min_interval_minutes,
+    max_doses_per_day = edited.max_doses_per_day,
+    dose_strength = edited.dose_strength,
+    dose_unit = edited.dose_unit,
+    dose_quantity = edited.dose_quantity,
+    dose_form = edited.dose_form,
+    acknowledged_warnings = CASE
+      WHEN details ? 'acknowledged_warnings' THEN edited.acknowledged_warnings
+      ELSE acknowledged_warnings
+    END,
+    warnings_acknowledged_at = CASE
+      WHEN details ? 'acknowledged_warnings' THEN edited.warnings_acknowledged_at
+      ELSE warnings_acknowledged_at
+    END,
+    current_version = expected_version + 1,
+    updated_at = now()
+  WHERE id = edited_medication_id
+    AND current_version = expected_version
+  RETURNING user_id INTO owner_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This medication was changed somewhere else. Reload and try again.';
+  END IF;
+
+  -- Removed times are deactivated rather than deleted, like medications
+  UPDATE medication_schedules
+  SET active = false
+  WHERE medication_id = edited_medication_id
+    AND id = ANY (removed_schedule_ids);
+
+  WITH replaced AS (
+    UPDATE medication_schedules AS schedule
+    SET active = false
+    FROM jsonb_populate_recordset(NULL::medication_schedules, retimed_schedules) AS retimed
+    WHERE schedule.medication_id = edited_medication_id
+      AND schedule.id = retimed.id
+      AND schedule.active
+    RETURNING schedule.*, retimed.reminder_time AS new_reminder_time
+  )
+  INSERT INTO medication_schedules (
+    medication_id, reminder_time, frequency, repeat_interval, by_weekday,
+    cycle_on_days, cycle_off_days, anchor_date, until_date, phase_id
+  )
+  SELECT
+    medication_id, new_reminder_time, frequency, repeat_interval, by_weekday,
+    cycle_on_days, cycle_off_days, anchor_date, until_date, phase_id
+  FROM replaced;
+
+  INSERT INTO medication_schedules (
+    medication_id, reminder_time, frequency, repeat_interval, by_weekday,
+    cycle_on_days, cycle_off_days, anchor_date, until_date
+  )
+  SELECT
+    edited_medication_id, added.reminder_time, added.frequency, added.repeat_interval, added.by_weekday,
+    added.cycle_on_days, added.cycle_off_days, added.anchor_date, added.until_date
+  FROM jsonb_populate_recordset(NULL::medication_schedules, added_schedules) AS added;
+
+  INSERT INTO medication_versions (medication_id, user_id, version, changes)
+  VALUES (edited_medication_id, owner_id, expected_version + 1, version_changes);
+
+  RETURN expected_version + 1;
+END;
+$$;
@@ -0,0 +1,15 @@
+/*
+  # Caregiver Alert Claims Are Server-only
+
+  ## Security
+  1. `caregiver_alerts`
+     - Only send-reminders (service role) writes these rows. It claims
+       today's row before emailing family members, both from the 'finalize'
+       job and from the 'notify-caregivers' mode the browser calls.
+     - The user INSERT and UPDATE policies are dropped. With them a patient
+       could create today's row ahead of time and so stop the alert from
+       going out. Users can still read their own rows.
+*/
+
+DROP POLICY IF EXISTS "Users can insert own caregiver alerts" ON caregiver_alerts;
+DROP POLICY IF EXISTS "Users can update own caregiver alerts" ON caregiver_alerts;
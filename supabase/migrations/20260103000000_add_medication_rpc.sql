@@ -0,0 +1,64 @@
+/*
+  # Atomic New Medications
+
+  ## Updates
+  1. `add_medication(details, added_phases, added_schedules)` creates a
+     medication from the add form with its dosing phases and reminder times
+     in one transaction, so a failed phase or schedule insert no longer
+     leaves an active medication without reminders.
+     - `details` holds the new medications columns (the add form sends all
+       of them), `added_phases` the medication_phases rows and
+       `added_schedules` the medication_schedules rows. A schedule that
+       belongs to a phase names it by `phase_position`.
+     - Returns the new medication's id. Runs with the caller's rights, so
+       the existing row level security applies.
+*/
+
+CREATE OR REPLACE FUNCTION add_medication(
+  details jsonb,
+  added_phases jsonb,
+  added_schedules jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  added medications := jsonb_populate_record(NULL::medications, details);
+  new_medication_id uuid;
+BEGIN
+  INSERT INTO medications (
+    user_id, medication_name, dosage, dose_strength, dose_unit, dose_quantity, dose_form,
+    medication_type, instructions, relevant_symptoms, user_description, end_date,
+    is_critical, is_prn, min_interval_minutes, max_doses_per_day,
+    stock_quantity, stock_updated_at, refill_threshold_days,
+    acknowledged_warnings, warnings_acknowledged_at
+  )
+  VALUES (
+    added.user_id, added.medication_name, added.dosage, added.dose_strength, added.dose_unit, added.dose_quantity, added.dose_form,
+    added.medication_type, added.instructions, added.relevant_symptoms, added.user_description, added.end_date,
+    added.is_critical, added.is_prn, added.min_interval_minutes, added.max_doses_per_day,
+    added.stock_quantity, added.stock_updated_at, added.refill_threshold_days,
+    added.acknowledged_warnings, added.warnings_acknowledged_at
+  )
+  RETURNING id INTO new_medication_id;
+
+  INSERT INTO medication_phases (medication_id, user_id, position, start_date, end_date, dosage)
+  SELECT new_medication_id, added.user_id, phase.position, phase.start_date, phase.end_date, phase.dosage
+  FROM jsonb_populate_recordset(NULL::medication_phases, added_phases) AS phase;
+
+  INSERT INTO medication_schedules (
+    medication_id, phase_id, reminder_time, frequency, repeat_interval, by_weekday,
+    cycle_on_days, cycle_off_days, anchor_date, until_date
+  )
+  SELECT
+    new_medication_id, phase.id, schedule.reminder_time, schedule.frequency, schedule.repeat_interval, schedule.by_weekday,
+    schedule.cycle_on_days, schedule.cycle_off_days, schedule.anchor_date, schedule.until_date
+  FROM jsonb_array_elements(added_schedules) AS entry
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::medication_schedules, entry) AS schedule
+  LEFT JOIN medication_phases AS phase
+    ON phase.medication_id = new_medication_id
+    AND phase.position = (entry ->> 'phase_position')::integer;
+
+  RETURN new_medication_id;
+END;
+$$;
@@ -0,0 +1,60 @@
+/*
+  # As-Needed Dose Limits in the Database
+
+  ## Updates
+  1. `adherence_logs`
+     - A trigger checks every as-needed dose logged as taken against the
+       medication's `min_interval_minutes` and `max_doses_per_day`, counting
+       the doses in the 24 hours before it. The browser checks the same
+       limits first, but two tabs or a replayed action could both pass that
+       check; the database now refuses the second dose.
+     - The medication row is locked while a dose is checked, so doses
+       logged at the same moment are checked one after the other.
+     - A refused dose raises `check_violation` (SQLSTATE 23514) with a
+       message saying which limit it broke.
+*/
+
+CREATE OR REPLACE FUNCTION enforce_prn_dose_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  limits medications%ROWTYPE;
+  doses_in_window integer;
+  last_dose_at timestamptz;
+BEGIN
+  SELECT * INTO limits
+  FROM medications
+  WHERE id = NEW.medication_id
+  FOR UPDATE;
+
+  SELECT count(*), max(taken_at)
+  INTO doses_in_window, last_dose_at
+  FROM adherence_logs
+  WHERE medication_id = NEW.medication_id
+    AND is_prn
+    AND status = 'taken'
+    AND taken_at > NEW.taken_at - interval '24 hours'
+    AND taken_at <= NEW.taken_at;
+
+  IF limits.min_interval_minutes IS NOT NULL
+    AND last_dose_at > NEW.taken_at - make_interval(mins => limits.min_interval_minutes) THEN
+    RAISE EXCEPTION 'Leave at least % minutes between doses of %.', limits.min_interval_minutes, limits.medication_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF limits.max_doses_per_day IS NOT NULL AND doses_in_window >= limits.max_doses_per_day THEN
+    RAISE EXCEPTION 'No more than % doses of % in 24 hours.', limits.max_doses_per_day, limits.medication_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS adherence_logs_prn_dose_limits ON adherence_logs;
+CREATE TRIGGER adherence_logs_prn_dose_limits
+  BEFORE INSERT ON adherence_logs
+  FOR EACH ROW
+  WHEN (NEW.is_prn AND NEW.status = 'taken')
+  EXECUTE FUNCTION enforce_prn_dose_limits();